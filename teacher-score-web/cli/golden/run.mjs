@@ -0,0 +1,106 @@
+// ----- 金标准回归测试：用已知的任职记录运行打包后的命令行工具，输出须与 expected/ 中保存的完全一致 -----
+// 用法：npm test（先打包再运行）；计分规则有意改动后，用 node cli/golden/run.mjs --update 重新生成 expected/ 并逐一核对差异
+// 带 request 的用例向本地计分服务（serve 命令）发送请求，记录状态码与返回的 JSON
+
+import { spawn, spawnSync } from "node:child_process";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const here = dirname(fileURLToPath(import.meta.url));
+const cli = join(here, "..", "..", "dist-cli", "teacher-score.js");
+const update = process.argv.includes("--update");
+
+if (!existsSync(cli)) {
+  console.error(`找不到 ${cli}，请先运行 npm run build:cli`);
+  process.exit(2);
+}
+
+// 标准输出在前，标准错误输出（合并提示、错误信息）在后
+function runCase({ args, exitCode = 0 }) {
+  const { stdout, stderr, status } = spawnSync(process.execPath, [cli, ...args, "--lang", "zh-CN"], { cwd: here, encoding: "utf-8" });
+  const output = stderr ? `${stdout}--- stderr ---\n${stderr}` : stdout;
+  return { output, problem: status === exitCode ? null : `退出码为 ${status}，应为 ${exitCode}` };
+}
+
+const SERVER_PORT = 18787;
+let server = null;
+
+// 首个请求用例时启动服务，等到输出监听地址后再发请求
+function startServer() {
+  server = spawn(process.execPath, [cli, "serve", "--port", String(SERVER_PORT), "--cutoff", "2024-08-31", "--lang", "zh-CN"], { cwd: here });
+  return new Promise((resolve, reject) => {
+    let output = "";
+    const timer = setTimeout(() => reject(new Error(`计分服务未能启动：${output}`)), 10000);
+    const onData = chunk => {
+      output += chunk;
+      if (output.includes(`:${SERVER_PORT}`)) {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    server.stdout.on("data", onData);
+    server.stderr.on("data", onData);
+    server.once("exit", code => {
+      clearTimeout(timer);
+      reject(new Error(`计分服务已退出（${code}）：${output}`));
+    });
+  });
+}
+
+// body 为字符串时原样发送（CSV 或有意写错的 JSON），否则按 JSON 发送
+async function runRequest({ request: { method = "POST", path, contentType = "application/json", body } }) {
+  let response;
+  try {
+    if (!server) await startServer();
+    response = await fetch(`http://127.0.0.1:${SERVER_PORT}${path}`, {
+      method,
+      headers: body === undefined ? {} : { "Content-Type": contentType },
+      body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+    });
+  } catch (e) {
+    return { output: "", problem: e.message };
+  }
+  const text = await response.text();
+  let json;
+  try {
+    json = JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    json = text;
+  }
+  return { output: `HTTP ${response.status}\n${json}\n`, problem: null };
+}
+
+function firstDifference(expected, actual) {
+  const a = expected.split("\n");
+  const b = actual.split("\n");
+  const line = a.findIndex((text, i) => text !== b[i]);
+  const at = line >= 0 ? line : a.length;
+  return `第 ${at + 1} 行\n  应为：${a[at] ?? "（无）"}\n  实际：${b[at] ?? "（无）"}`;
+}
+
+const cases = JSON.parse(readFileSync(join(here, "cases.json"), "utf-8"));
+let failed = 0;
+for (const testCase of cases) {
+  const file = join(here, "expected", `${testCase.name}.txt`);
+  const { output, problem } = testCase.request ? await runRequest(testCase) : runCase(testCase);
+  if (update) {
+    writeFileSync(file, output);
+    console.log(`已更新 ${testCase.name}${problem ? `（${problem}）` : ""}`);
+    continue;
+  }
+  const expected = existsSync(file) ? readFileSync(file, "utf-8") : null;
+  if (problem || expected !== output) {
+    failed++;
+    console.error(`✗ ${testCase.name}：${problem ?? (expected === null ? "缺少 expected 文件" : firstDifference(expected, output))}`);
+  } else {
+    console.log(`✓ ${testCase.name}`);
+  }
+}
+
+server?.kill();
+
+if (!update) {
+  console.log(`\n${cases.length - failed} / ${cases.length} 通过`);
+  if (failed) process.exitCode = 1;
+}
@@ -0,0 +1,206 @@
+import { PRORATION_MODES, type TraceReason } from "../src/lib/engine";
+import { ORDERING_STRATEGIES } from "../src/lib/ordering";
+import { TOTAL_CAP_RULES } from "../src/lib/policy";
+import type { ApiErrorCode } from "./server";
+
+// ----- 计分服务的 OpenAPI 描述：GET /openapi.json 返回，也可用 teacher-score openapi 输出后发布 -----
+
+const TRACE_REASONS: TraceReason[] = [
+  "credited", "cap_limited", "combo_limited", "role_capped", "combo_capped", "no_slot", "total_limited", "total_capped",
+];
+
+const ERROR_CODES: ApiErrorCode[] = [
+  "bad_request", "validation", "not_found", "method_not_allowed", "payload_too_large", "unsupported_media_type", "internal",
+];
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const str = (description?: string) => description ? { type: "string", description } : { type: "string" };
+const num = (description?: string) => description ? { type: "number", description } : { type: "number" };
+const int = (description?: string) => description ? { type: "integer", description } : { type: "integer" };
+const nullable = (schema: object) => ({ ...schema, nullable: true });
+const arrayOf = (items: object, description?: string) => description ? { type: "array", items, description } : { type: "array", items };
+const object = (properties: Record<string, object>, required: string[], description?: string) =>
+  ({ type: "object", properties, required, ...(description ? { description } : {}) });
+
+const DATE_TEXT = "2006-09-01、2006/9/1、2006.09、2006年9月等写法；结束日期可写「至今」";
+
+const schemas = {
+  EntryInput: object({
+    teacher: str("教师工号或姓名，仅批量接口需要"),
+    role: str("岗位名称、代码（如 CLASS）或规则中的别名"),
+    start: str(`开始日期，${DATE_TEXT}`),
+    end: str(`结束日期，${DATE_TEXT}`),
+    meta: { type: "object", additionalProperties: { type: "string" }, description: "附加信息，如任职文号、备注，随结果原样返回" },
+  }, ["role", "start", "end"]),
+  Options: object({
+    proration: { type: "string", enum: PRORATION_MODES, description: "month 首末月按整月计；day 按在岗天数折算" },
+    ordering: { type: "string", enum: ORDERING_STRATEGIES, description: "每月多个岗位的排序方式" },
+    cutoff: str("评审截止日期，之后的任职不计；「至今」取此日期，未给出时取当天"),
+  }, [], "未给出的项取服务启动时的设置"),
+  ScoreRequest: object({
+    teacher: str("教师工号或姓名，原样写入结果"),
+    entries: arrayOf(ref("EntryInput"), "与 csv 二选一"),
+    csv: str("与网页、命令行相同的 CSV 文本（也接受制表符、分号分隔和表头行），与 entries 二选一"),
+    options: ref("Options"),
+    policy: { ...ref("ScoringPolicy"), description: "计分规则，未给出时使用服务启动时的规则" },
+    merge: { type: "boolean", default: false, description: "合并同一岗位重复、重叠或相邻的时段" },
+  }, []),
+  BatchScoreRequest: object({
+    entries: arrayOf(ref("EntryInput"), "每条须有 teacher，与 csv 二选一"),
+    csv: str("批量名单 CSV，首列为教师工号或姓名，与 entries 二选一"),
+    options: ref("Options"),
+    policy: ref("ScoringPolicy"),
+    merge: { type: "boolean", default: false },
+  }, []),
+  RoleEntry: object({
+    role: str("岗位代码"),
+    start: { type: "string", format: "date" },
+    end: { type: "string", format: "date" },
+    meta: { type: "object", additionalProperties: { type: "string" } },
+  }, ["role", "start", "end"]),
+  BaselineTier: object({ fromMonth: int("任职满多少个月后适用（从 0 起算）"), baseline: num("年基准分") }, ["fromMonth", "baseline"]),
+  RolePolicy: object({
+    name: str(),
+    code: str(),
+    aliases: arrayOf(str()),
+    cap: num("岗位封顶分"),
+    tiers: arrayOf(ref("BaselineTier")),
+    color: str(),
+  }, ["name", "code", "aliases", "cap", "tiers", "color"]),
+  CapGroup: object({ name: str(), roles: arrayOf(str(), "岗位代码"), cap: num("合计封顶分") }, ["name", "roles", "cap"]),
+  ScoringPolicy: object({
+    version: str(),
+    roles: arrayOf(ref("RolePolicy")),
+    weights: arrayOf(num(), "按排序位次的权重"),
+    totalCap: num("总封顶分"),
+    totalCapRule: { type: "string", enum: TOTAL_CAP_RULES },
+    capGroups: arrayOf(ref("CapGroup")),
+  }, ["version", "roles", "weights", "totalCap", "totalCapRule", "capGroups"]),
+  CalcOptions: object({
+    proration: { type: "string", enum: PRORATION_MODES },
+    ordering: { type: "string", enum: ORDERING_STRATEGIES },
+    cutoff: { type: "string", format: "date" },
+  }, ["proration"]),
+  RoleSummary: object({
+    role: str("岗位代码"),
+    score: num("总分封顶后的实得分"),
+    rawScore: num("不考虑总分封顶时的得分"),
+    cap: num(),
+    capped: { type: "boolean" },
+  }, ["role", "score", "rawScore", "cap", "capped"]),
+  GroupSummary: object({
+    group: int("policy.capGroups 的下标"),
+    used: num(),
+    cap: num(),
+    capped: { type: "boolean" },
+    reachedAt: nullable(str("达到合计封顶的年月 YYYY-MM")),
+  }, ["group", "used", "cap", "capped", "reachedAt"]),
+  MonthAllocation: object({ role: str(), weight: num(), gain: num() }, ["role", "weight", "gain"]),
+  RoleTrace: object({
+    role: str(),
+    reason: { type: "string", enum: TRACE_REASONS },
+    monthsServed: num(),
+    fraction: num(),
+    baseline: num(),
+    tierUpgraded: { type: "boolean" },
+    slot: nullable(int()),
+    weight: num(),
+    rawGain: num(),
+    gain: num(),
+    scoreBefore: num(),
+    capGroup: nullable(int()),
+    comboBefore: nullable(num()),
+  }, ["role", "reason", "monthsServed", "fraction", "baseline", "tierUpgraded", "slot", "weight", "rawGain", "gain", "scoreBefore", "capGroup", "comboBefore"]),
+  MonthDetail: object({
+    ym: str("YYYY-MM"),
+    allocations: arrayOf(ref("MonthAllocation")),
+    trace: arrayOf(ref("RoleTrace")),
+  }, ["ym", "allocations", "trace"]),
+  CalculationResult: object({
+    policy: ref("ScoringPolicy"),
+    options: ref("CalcOptions"),
+    entries: arrayOf(ref("RoleEntry"), "参与计分的任职记录，已按截止日期截断"),
+    roleSummary: arrayOf(ref("RoleSummary")),
+    groupSummary: arrayOf(ref("GroupSummary")),
+    totalScore: num("总分封顶后的总分，保留全部精度"),
+    rawTotal: num(),
+    totalCapReachedAt: nullable(str("总分达到封顶的年月")),
+    monthDetails: arrayOf(ref("MonthDetail")),
+  }, ["policy", "options", "entries", "roleSummary", "groupSummary", "totalScore", "rawTotal", "totalCapReachedAt", "monthDetails"]),
+  TeacherResult: object({ teacher: str(), result: ref("CalculationResult") }, ["teacher", "result"]),
+  BatchResponse: object({ teachers: arrayOf(ref("TeacherResult")) }, ["teachers"]),
+  RowIssue: object({
+    row: int("CSV 中非空行的行号（含表头）或 entries 中的序号，从 1 起算"),
+    field: { type: "string", enum: ["teacher", "role", "start", "end"] },
+    message: str(),
+  }, ["row", "field", "message"]),
+  ApiError: object({
+    error: { type: "string", enum: ERROR_CODES },
+    message: str(),
+    issues: arrayOf(ref("RowIssue"), "仅 validation 时给出"),
+  }, ["error", "message"]),
+};
+
+const errorResponse = (description: string) => ({ description, content: { "application/json": { schema: ref("ApiError") } } });
+
+const CSV_PARAMETERS = [
+  { name: "proration", in: "query", schema: { type: "string", enum: PRORATION_MODES }, description: "仅 text/csv 请求" },
+  { name: "ordering", in: "query", schema: { type: "string", enum: ORDERING_STRATEGIES }, description: "仅 text/csv 请求" },
+  { name: "cutoff", in: "query", schema: { type: "string" }, description: "仅 text/csv 请求" },
+  { name: "merge", in: "query", schema: { type: "boolean" }, description: "仅 text/csv 请求" },
+];
+
+function scoreOperation(summary: string, request: string, response: string, csvDescription: string, extraParameters: object[]) {
+  return {
+    summary,
+    parameters: [...extraParameters, ...CSV_PARAMETERS],
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": { schema: ref(request) },
+        "text/csv": { schema: { type: "string", description: csvDescription } },
+      },
+    },
+    responses: {
+      200: { description: "计算结果", content: { "application/json": { schema: ref(response) } } },
+      400: errorResponse("请求格式或计分选项有误（bad_request），或记录未通过校验（validation，issues 逐格列出问题）"),
+      413: errorResponse("请求体超过 1 MB"),
+      415: errorResponse("仅接受 application/json 与 text/csv"),
+    },
+  };
+}
+
+export function openApiDocument() {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "教师管理岗位得分计算服务",
+      version: "1.0.0",
+      description: "与网页、命令行使用同一计分引擎。服务只依赖 Node 自带模块，可在无外网的校内网运行。",
+    },
+    paths: {
+      "/score": {
+        post: scoreOperation("计算一位教师的得分", "ScoreRequest", "TeacherResult", "每行：岗位,开始日期,结束日期",
+          [{ name: "teacher", in: "query", schema: { type: "string" }, description: "仅 text/csv 请求" }]),
+      },
+      "/score/batch": {
+        post: scoreOperation("批量计算多位教师的得分", "BatchScoreRequest", "BatchResponse", "每行：教师工号或姓名,岗位,开始日期,结束日期", []),
+      },
+      "/openapi.json": {
+        get: { summary: "本描述", responses: { 200: { description: "OpenAPI 3.0 文档", content: { "application/json": { schema: { type: "object" } } } } } },
+      },
+      "/health": {
+        get: {
+          summary: "服务状态",
+          responses: {
+            200: {
+              description: "服务可用",
+              content: { "application/json": { schema: object({ status: str(), policy: str("默认计分规则的版本") }, ["status", "policy"]) } },
+            },
+          },
+        },
+      },
+    },
+    components: { schemas },
+  };
+}
@@ -0,0 +1,252 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { openEndDate, parseEntries, parseRoster, scoreEntries, PRORATION_MODES, type CalcOptions, type ProrationMode, type RoleEntry, type TeacherResult } from "../src/lib/engine";
+import { normalizeDate } from "../src/lib/dates";
+import { csvToRows, rowIssues, rowsToCsv, textIssues, type EntryRow, type RowIssue } from "../src/lib/entryRows";
+import { t, type MessageKey } from "../src/lib/i18n";
+import { applyMerges, findMerges } from "../src/lib/normalize";
+import { ORDERING_STRATEGIES, type OrderingStrategy } from "../src/lib/ordering";
+import { parsePolicy, type ScoringPolicy } from "../src/lib/policy";
+import { openApiDocument } from "./openapi";
+
+// ----- 本地 HTTP 计分服务：供人事系统在校内网直接调用，只依赖 Node 自带模块，无需外网 -----
+
+/** 请求体上限（字节） */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface ServerConfig {
+  host: string;
+  port: number;
+  /** 请求未附带规则时使用的计分规则 */
+  policy: ScoringPolicy;
+  /** 请求未指定的计分选项取这里的值 */
+  options: CalcOptions;
+}
+
+export type ApiErrorCode =
+  | "bad_request" | "validation" | "not_found" | "method_not_allowed"
+  | "payload_too_large" | "unsupported_media_type" | "internal";
+
+/** issues 只在 validation 时给出，逐格列出输入中的问题 */
+export interface ApiError { error: ApiErrorCode; message: string; issues?: RowIssue[]; }
+
+/** JSON 请求中的一条记录，写法与 CSV 的各列相同；teacher 仅批量接口需要 */
+export interface EntryInput { teacher?: string; role: string; start: string; end: string; meta?: Record<string, string>; }
+
+/**
+ * JSON 请求体：entries 与 csv 二选一。options 中未给出的项取服务启动时的设置，
+ * policy 为网页「计分规则」导出的 JSON；merge 为 true 时合并同一岗位重复、重叠或相邻的时段。
+ */
+export interface ScoreRequest {
+  teacher?: string;
+  entries?: EntryInput[];
+  csv?: string;
+  options?: { proration?: string; ordering?: string; cutoff?: string };
+  policy?: unknown;
+  merge?: boolean;
+}
+
+export interface BatchResponse { teachers: TeacherResult[]; }
+
+class HttpError extends Error {
+  status: number;
+  body: ApiError;
+  constructor(status: number, body: ApiError) {
+    super(body.message);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+const badRequest = (message: string) => new HttpError(400, { error: "bad_request", message });
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, { error: "payload_too_large", message: t("server.payloadTooLarge", { limit: MAX_BODY_BYTES / 1024 }) });
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8").replace(/^\uFEFF/, "");
+}
+
+/** 未给出的项取 defaults，写法错误时返回 400 */
+function readOptions(raw: { proration?: unknown; ordering?: unknown; cutoff?: unknown }, defaults: CalcOptions): CalcOptions {
+  const proration = (raw.proration ?? defaults.proration) as ProrationMode;
+  if (!PRORATION_MODES.includes(proration)) throw badRequest(t("cli.unknownProration", { proration: String(raw.proration) }));
+  const ordering = (raw.ordering ?? defaults.ordering ?? "greedy") as OrderingStrategy;
+  if (!ORDERING_STRATEGIES.includes(ordering)) throw badRequest(t("cli.unknownOrdering", { ordering: String(raw.ordering) }));
+  const options: CalcOptions = { proration, ordering };
+  if (raw.cutoff !== undefined && raw.cutoff !== "") {
+    const cutoff = typeof raw.cutoff === "string" ? normalizeDate(raw.cutoff, "end") : null;
+    if (!cutoff) throw badRequest(t("cli.invalidCutoff", { cutoff: String(raw.cutoff) }));
+    options.cutoff = cutoff;
+  } else if (defaults.cutoff) options.cutoff = defaults.cutoff;
+  return options;
+}
+
+type FieldType = "string" | "array" | "object" | "boolean";
+
+const FIELD_TYPE_LABELS: Record<FieldType, MessageKey> = {
+  string: "server.typeString", array: "server.typeArray", object: "server.typeObject", boolean: "server.typeBoolean",
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+
+// 未给出（或为 null）的字段不检查，由后续按缺省处理
+function expectType(value: unknown, type: FieldType, field: string) {
+  if (value === undefined || value === null) return;
+  const ok = type === "array" ? Array.isArray(value) : type === "object" ? isObject(value) : typeof value === type;
+  if (!ok) throw badRequest(t("server.fieldType", { field, type: t(FIELD_TYPE_LABELS[type]) }));
+}
+
+/** 先逐项检查 JSON 请求体的字段类型，写错类型时返回 400 并指明字段，不让后续处理抛出内部错误 */
+function checkRequest(body: Record<string, unknown>): ScoreRequest {
+  expectType(body.teacher, "string", "teacher");
+  expectType(body.csv, "string", "csv");
+  expectType(body.merge, "boolean", "merge");
+  expectType(body.options, "object", "options");
+  if (isObject(body.options)) {
+    for (const key of ["proration", "ordering", "cutoff"]) expectType(body.options[key], "string", `options.${key}`);
+  }
+  expectType(body.entries, "array", "entries");
+  if (Array.isArray(body.entries)) {
+    body.entries.forEach((entry: unknown, idx) => {
+      const field = `entries[${idx}]`;
+      if (!isObject(entry)) throw badRequest(t("server.fieldType", { field, type: t(FIELD_TYPE_LABELS.object) }));
+      for (const key of ["teacher", "role", "start", "end"]) expectType(entry[key], "string", `${field}.${key}`);
+      expectType(entry.meta, "object", `${field}.meta`);
+    });
+  }
+  return body as ScoreRequest;
+}
+
+function toRow(value: unknown): EntryRow {
+  const e = (value ?? {}) as Record<string, unknown>;
+  const text = (field: unknown) => field === undefined || field === null ? "" : String(field).trim();
+  const meta = isObject(e.meta)
+    ? Object.fromEntries(Object.entries(e.meta).map(([k, v]) => [k, text(v)]))
+    : undefined;
+  return { teacher: text(e.teacher), role: text(e.role), start: text(e.start), end: text(e.end), meta };
+}
+
+function validationError(issues: RowIssue[]): HttpError {
+  const first = issues[0];
+  return new HttpError(400, {
+    error: "validation",
+    message: t("server.validationFailed", { count: issues.length, first: t("editor.rowErrors", { line: first.row, errors: first.message }) }),
+    issues,
+  });
+}
+
+/**
+ * 校验并计算。JSON 记录先逐条校验（行号为数组中的序号），再整理成 CSV 交给 parseEntries / parseRoster，
+ * 与网页、命令行走同一套解析与计分逻辑。
+ */
+function score(request: ScoreRequest, batch: boolean, config: ServerConfig): TeacherResult[] {
+  let policy = config.policy;
+  if (request.policy !== undefined) {
+    try {
+      policy = parsePolicy(request.policy);
+    } catch (e) {
+      throw badRequest(t("server.invalidPolicy", { message: (e as Error).message }));
+    }
+  }
+  const options = readOptions(request.options ?? {}, config.options);
+
+  let text: string;
+  let rows: EntryRow[];
+  if (typeof request.csv === "string") {
+    text = request.csv.replace(/^\uFEFF/, "");
+    const issues = textIssues(text, policy, batch);
+    if (issues.length) throw validationError(issues);
+    rows = csvToRows(text, policy, batch);
+  } else if (Array.isArray(request.entries)) {
+    rows = request.entries.map(toRow);
+    const issues = rowIssues(rows.map((entry, idx) => ({ row: idx + 1, entry })), policy, batch);
+    if (issues.length) throw validationError(issues);
+    text = rowsToCsv(rows, batch);
+  } else {
+    throw badRequest(t("server.missingInput"));
+  }
+  // 按输入的行数判断：在截止日期之后才开始的任职解析时不计入，只有这样的行时仍正常返回
+  if (!rows.length) throw new HttpError(400, { error: "validation", message: t("server.noEntries"), issues: [] });
+
+  let jobs: (readonly [string, RoleEntry[]])[];
+  try {
+    const openEnd = openEndDate(options);
+    jobs = batch ? [...parseRoster(text, policy, openEnd)] : [[request.teacher?.trim() ?? "", parseEntries(text, policy, openEnd)]];
+  } catch (e) {
+    // 逐格校验之外的问题只有文字说明，没有逐格的 issues
+    throw new HttpError(400, { error: "validation", message: (e as Error).message, issues: [] });
+  }
+  return jobs.map(([teacher, entries]) => ({
+    teacher,
+    result: scoreEntries(request.merge ? applyMerges(entries, findMerges(entries, options.proration), () => true) : entries, policy, options),
+  }));
+}
+
+/** text/csv 请求体为 CSV 文本，选项放在查询参数中 */
+async function readRequest(req: IncomingMessage, url: URL): Promise<ScoreRequest> {
+  const type = (req.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+  const body = await readBody(req);
+  if (type === "application/json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      throw badRequest(t("server.invalidJson"));
+    }
+    if (!isObject(parsed)) throw badRequest(t("server.invalidJson"));
+    return checkRequest(parsed);
+  }
+  if (type === "text/csv" || type === "text/plain") {
+    const query = Object.fromEntries(url.searchParams);
+    return {
+      csv: body,
+      teacher: query.teacher,
+      options: { proration: query.proration, ordering: query.ordering, cutoff: query.cutoff },
+      merge: query.merge === "true" || query.merge === "1",
+    };
+  }
+  throw new HttpError(415, { error: "unsupported_media_type", message: t("server.unsupportedMediaType", { type: type || "—" }) });
+}
+
+const ROUTES: Record<string, "GET" | "POST"> = { "/score": "POST", "/score/batch": "POST", "/openapi.json": "GET", "/health": "GET" };
+
+async function handle(req: IncomingMessage, res: ServerResponse, config: ServerConfig) {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const method = ROUTES[url.pathname];
+  if (!method) throw new HttpError(404, { error: "not_found", message: t("server.notFound", { path: url.pathname }) });
+  if (req.method !== method) {
+    res.setHeader("Allow", method);
+    throw new HttpError(405, { error: "method_not_allowed", message: t("server.methodNotAllowed", { method: req.method ?? "—", allowed: method }) });
+  }
+
+  if (url.pathname === "/openapi.json") return sendJson(res, 200, openApiDocument());
+  if (url.pathname === "/health") return sendJson(res, 200, { status: "ok", policy: config.policy.version });
+
+  const batch = url.pathname === "/score/batch";
+  const teachers = score(await readRequest(req, url), batch, config);
+  sendJson(res, 200, batch ? { teachers } satisfies BatchResponse : teachers[0]);
+}
+
+/** 开始监听，返回已启动的服务 */
+export function startServer(config: ServerConfig): Promise<Server> {
+  const server = createServer((req, res) => {
+    handle(req, res, config).catch(e => {
+      if (e instanceof HttpError) return sendJson(res, e.status, e.body);
+      process.stderr.write(`${t("cli.error", { message: (e as Error).message })}\n`);
+      sendJson(res, 500, { error: "internal", message: (e as Error).message } satisfies ApiError);
+    });
+  });
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(config.port, config.host, () => resolve(server));
+  });
+}
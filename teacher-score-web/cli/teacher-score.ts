@@ -0,0 +1,219 @@
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { openEndDate, orderingOf, parseEntries, parseRoster, scoreEntries, PRORATION_MODES, type CalcOptions, type CalculationResult, type ProrationMode, type RoleEntry, type TeacherResult } from "../src/lib/engine";
+import { compareResults, createBundle, readBundle } from "../src/lib/bundle";
+import { normalizeDate } from "../src/lib/dates";
+import { isLang, joinList, setLang, t } from "../src/lib/i18n";
+import { applyMerges, findMerges } from "../src/lib/normalize";
+import { ORDERING_STRATEGIES, type OrderingStrategy } from "../src/lib/ordering";
+import { DEFAULT_POLICY, parsePolicy, roleName, type ScoringPolicy } from "../src/lib/policy";
+import { groupSummaryRows, resultToCsv, rosterToCsv } from "../src/lib/report";
+import { openApiDocument } from "./openapi";
+import { startServer } from "./server";
+
+type Format = "json" | "csv" | "table" | "bundle";
+
+class UsageError extends Error {}
+
+// 中文字符在终端中占两列，按显示宽度补齐
+function displayWidth(text: string): number {
+  return [...text].reduce((w, ch) => w + (/[\u1100-\uffff]/.test(ch) ? 2 : 1), 0);
+}
+
+function padEnd(text: string, width: number): string {
+  return text + " ".repeat(Math.max(0, width - displayWidth(text)));
+}
+
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, col) => Math.max(...rows.map(r => displayWidth(r[col] ?? ""))));
+  return rows.map(r => r.map((cell, col) => padEnd(cell, widths[col])).join("  ").trimEnd()).join("\n");
+}
+
+// 表头行：计分规则与计分方式
+function policyLines(result: CalculationResult): string[] {
+  return [
+    t("cli.policyLine", { version: result.policy.version }),
+    t("cli.prorationLine", { proration: t(`proration.${result.options.proration}`) }),
+    t("cli.orderingLine", { ordering: t(`ordering.${orderingOf(result.options)}`) }),
+    ...(result.options.cutoff ? [t("cli.cutoffLine", { cutoff: result.options.cutoff })] : []),
+  ];
+}
+
+function resultToTable(result: CalculationResult): string {
+  const { policy } = result;
+  const rows = [
+    [t("export.role"), t("export.score"), t("export.rawScore"), t("export.cap"), t("export.status")],
+    ...result.roleSummary.map(r => [
+      roleName(policy, r.role), r.score.toFixed(4), r.rawScore.toFixed(4), String(r.cap), r.capped ? t("common.capped") : t("common.notCapped"),
+    ]),
+  ];
+  const total = { score: result.totalScore.toFixed(4), cap: policy.totalCap };
+  return [
+    ...policyLines(result),
+    "",
+    formatTable(rows),
+    ...(result.groupSummary.length ? ["", formatTable(groupSummaryRows(result))] : []),
+    "",
+    t("cli.rawTotalLine", { raw: result.rawTotal.toFixed(4) }),
+    result.totalCapReachedAt
+      ? t("cli.totalCappedLine", { ...total, ym: result.totalCapReachedAt, rule: t(`totalCapRule.${policy.totalCapRule}`) })
+      : t("cli.totalLine", total),
+  ].join("\n");
+}
+
+function rosterToTable(teachers: TeacherResult[]): string {
+  if (!teachers.length) return "";
+  const { policy } = teachers[0].result;
+  const roles = policy.roles.map(r => r.code);
+  const ranked = [...teachers].sort((a, b) => b.result.totalScore - a.result.totalScore);
+  const rows = [
+    [t("export.rank"), t("export.teacher"), t("export.total"), t("export.rawTotal"), ...roles.map(role => roleName(policy, role))],
+    ...ranked.map(({ teacher, result }, idx) => [
+      String(idx + 1),
+      teacher,
+      result.totalScore.toFixed(4),
+      result.rawTotal.toFixed(4),
+      ...roles.map(role => (result.roleSummary.find(r => r.role === role)?.score ?? 0).toFixed(2)),
+    ]),
+  ];
+  return [...policyLines(teachers[0].result), "", formatTable(rows)].join("\n");
+}
+
+function readInput(path: string): string {
+  return readFileSync(path === "-" ? 0 : path, "utf-8").replace(/^\uFEFF/, "");
+}
+
+function loadPolicy(path: string | undefined): ScoringPolicy {
+  if (!path) return DEFAULT_POLICY;
+  try {
+    return parsePolicy(JSON.parse(readInput(path)));
+  } catch (e) {
+    throw new Error(t("cli.policyLoadFailed", { path, message: (e as Error).message }));
+  }
+}
+
+// 同岗位时段的合并需人工确认，命令行默认只提示，加 --merge 时全部接受
+function normalizeEntries(teacher: string, entries: RoleEntry[], policy: ScoringPolicy, options: CalcOptions, merge: boolean): RoleEntry[] {
+  const suggestions = findMerges(entries, options.proration);
+  suggestions.forEach(s => {
+    const params = {
+      teacher: teacher ? `${teacher} ` : "",
+      role: roleName(policy, s.role),
+      kind: t(`mergeKind.${s.kind}`),
+      sources: joinList(s.sources.map(e => `${e.start}~${e.end}`)),
+      merged: `${s.merged.start}~${s.merged.end}`,
+    };
+    process.stderr.write(`${merge ? t("cli.mergeApplied", params) : t("cli.mergeSkipped", params)}\n`);
+  });
+  return merge ? applyMerges(entries, suggestions, () => true) : entries;
+}
+
+// 按存档自带的规则重新计算；哈希或结果不一致时退出码为 1
+async function verify(file: string): Promise<string> {
+  const { bundle, hashMatches } = await readBundle(readInput(file));
+  const recalculated = scoreEntries(bundle.entries, bundle.policy, bundle.options);
+  const mismatches = compareResults(bundle.result, recalculated);
+  if (!hashMatches || mismatches.length) process.exitCode = 1;
+  return [
+    t("bundle.summary", { teacher: bundle.teacher ? `${bundle.teacher} · ` : "", time: bundle.exportedAt || "—", version: bundle.policy.version }),
+    hashMatches ? t("bundle.hashOk") : t("bundle.hashMismatch"),
+    t("bundle.totalLine", { archived: bundle.result.totalScore.toFixed(4), recalculated: recalculated.totalScore.toFixed(4) }),
+    mismatches.length ? t("bundle.mismatchCount", { count: mismatches.length }) : t("bundle.reproduced"),
+    ...mismatches.map(m => t("cli.verifyMismatch", { ...m })),
+  ].join("\n");
+}
+
+type CommandLine = ReturnType<typeof parseCommandLine>;
+
+function readOptions(values: CommandLine["values"]): CalcOptions {
+  const proration = values.proration as ProrationMode;
+  if (!PRORATION_MODES.includes(proration)) throw new UsageError(t("cli.unknownProration", { proration: String(values.proration) }));
+  const ordering = values.ordering as OrderingStrategy;
+  if (!ORDERING_STRATEGIES.includes(ordering)) throw new UsageError(t("cli.unknownOrdering", { ordering: String(values.ordering) }));
+  const options: CalcOptions = { proration, ordering };
+  if (values.cutoff !== undefined) {
+    const cutoff = normalizeDate(values.cutoff, "end");
+    if (!cutoff) throw new UsageError(t("cli.invalidCutoff", { cutoff: values.cutoff }));
+    options.cutoff = cutoff;
+  }
+  return options;
+}
+
+// 启动后进程保持运行，返回的提示写到标准输出；--policy 与计分选项作为请求未指定时的默认值
+async function serve(values: CommandLine["values"]): Promise<string> {
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) throw new UsageError(t("cli.invalidPort", { port: String(values.port) }));
+  const options = readOptions(values);
+  const policy = loadPolicy(values.policy);
+  await startServer({ host: values.host, port, policy, options });
+  return t("cli.serverListening", { url: `http://${values.host}:${port}`, version: policy.version });
+}
+
+function parseCommandLine(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: "string", default: "table" },
+        roster: { type: "boolean", default: false },
+        policy: { type: "string" },
+        proration: { type: "string", default: "month" },
+        ordering: { type: "string", default: "greedy" },
+        cutoff: { type: "string" },
+        merge: { type: "boolean", default: false },
+        lang: { type: "string", default: "zh-CN" },
+        port: { type: "string", default: "8787" },
+        host: { type: "string", default: "127.0.0.1" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (e) {
+    throw new UsageError((e as Error).message);
+  }
+}
+
+async function run(argv: string[]): Promise<string> {
+  const { values, positionals } = parseCommandLine(argv);
+  // 语言最先生效，后续的提示与错误都按所选语言输出
+  if (!isLang(values.lang)) throw new UsageError(`不支持的语言 / unsupported language: ${values.lang}`);
+  setLang(values.lang);
+
+  const [command, file] = positionals;
+  if (values.help || !command) return t("cli.usage");
+  if (!["calc", "verify", "serve", "openapi"].includes(command)) throw new UsageError(t("cli.unknownCommand", { command }));
+  if (command === "openapi") return JSON.stringify(openApiDocument(), null, 2);
+  if (command === "serve") return serve(values);
+  if (!file) throw new UsageError(t("cli.missingFile"));
+  if (command === "verify") return verify(file);
+
+  const format = values.format as Format;
+  if (!["json", "csv", "table", "bundle"].includes(format)) throw new UsageError(t("cli.unknownFormat", { format: String(values.format) }));
+
+  const options = readOptions(values);
+  const policy = loadPolicy(values.policy);
+  const csvText = readInput(file);
+
+  if (values.roster) {
+    const teachers = [...parseRoster(csvText, policy, openEndDate(options))].map(([teacher, entries]) => ({
+      teacher,
+      result: scoreEntries(normalizeEntries(teacher, entries, policy, options, values.merge), policy, options),
+    }));
+    if (format === "json") return JSON.stringify(teachers, null, 2);
+    if (format === "bundle") return JSON.stringify(await Promise.all(teachers.map(tr => createBundle(tr.result, tr.teacher))), null, 2);
+    return format === "csv" ? rosterToCsv(teachers) : rosterToTable(teachers);
+  }
+
+  const result = scoreEntries(normalizeEntries("", parseEntries(csvText, policy, openEndDate(options)), policy, options, values.merge), policy, options);
+  if (format === "json") return JSON.stringify(result, null, 2);
+  if (format === "bundle") return JSON.stringify(await createBundle(result, ""), null, 2);
+  return format === "csv" ? resultToCsv(result) : resultToTable(result);
+}
+
+run(process.argv.slice(2)).then(output => {
+  process.stdout.write(output.replace(/\n?$/, "\n"));
+}, e => {
+  process.stderr.write(`${t("cli.error", { message: (e as Error).message })}\n`);
+  if (e instanceof UsageError) process.stderr.write(`\n${t("cli.usage")}\n`);
+  process.exitCode = e instanceof UsageError ? 2 : 1;
+});
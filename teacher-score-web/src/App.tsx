@@ -1,114 +1,66 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { ScrollArea } from "@/components/ui/scroll-area";
+import { PolicyEditor } from "@/components/PolicyEditor";
+import { RosterTable } from "@/components/RosterTable";
+import { XlsxImport } from "@/components/XlsxImport";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import { EntryEditor } from "@/components/EntryEditor";
+import { ColumnMappingPanel } from "@/components/ColumnMappingPanel";
+import { MergeReview, type PendingMerge } from "@/components/MergeReview";
+import { ForecastPanel } from "@/components/ForecastPanel";
+import { TimelineChart } from "@/components/TimelineChart";
+import { ProfilePanel } from "@/components/ProfilePanel";
+import { HistoryPanel } from "@/components/HistoryPanel";
+import { PrintReport } from "@/components/PrintReport";
+import { OrderingComparison } from "@/components/OrderingComparison";
+import { DiffPanel } from "@/components/DiffPanel";
+import { BundleVerify } from "@/components/BundleVerify";
+import { MonthDetails } from "@/components/MonthDetails";
+import { ReviewPanel } from "@/components/ReviewPanel";
+import { downloadCsv, downloadFile } from "@/lib/utils";
+import { downloadWorkbook, type CellValue } from "@/lib/spreadsheet";
+import { metaColumns } from "@/lib/tabular";
+import { DEFAULT_POLICY, findRole, groupName, roleName, type ScoringPolicy } from "@/lib/policy";
+import { openEndDate, orderingOf, parseEntries, parseRoster, PRORATION_MODES, type CalcOptions, type CalculationResult, type ProrationMode, type RoleEntry, type TeacherResult } from "@/lib/engine";
+import { applyMerges, findMerges } from "@/lib/normalize";
+import { calcMethodLabel, resultToCsv, rosterToCsv } from "@/lib/report";
+import { createBundle, type ResultBundle } from "@/lib/bundle";
+import { rowsToCsv } from "@/lib/entryRows";
+import { ORDERING_STRATEGIES, type OrderingStrategy } from "@/lib/ordering";
+import { explainTrace } from "@/lib/explain";
+import { createTaskRunner, type TaskRunner } from "@/lib/taskRunner";
+import type { ScoreJob } from "@/lib/workerProtocol";
+import { buildSharedState, decodeShare, encodeShare, isShareFragment } from "@/lib/permalink";
+import { addHistory, deleteHistory, listHistory, loadDraft, saveDraft, type HistoryRecord, type TeacherProfile } from "@/lib/storage";
+import { getLang, joinList, LANG_LABELS, LANGS, setLang, t, type Lang } from "@/lib/i18n";
+import { rememberLang } from "@/lib/langPreference";
 
 // ----- 常量与工具 -----
-const ROLE_INFO = {
-  "班主任": { code: "CLASS", caps: 15, baselines: [1, 1.5], color: "bg-blue-500", lightColor: "bg-blue-100" },
-  "副班主任": { code: "VICE", caps: 15, baselines: [0.5, 0.75], color: "bg-indigo-500", lightColor: "bg-indigo-100" },
-  "年级组长": { code: "GRADE", caps: 15, baselines: [1, 1.5], color: "bg-purple-500", lightColor: "bg-purple-100" },
-  "科组长": { code: "SUBJECT", caps: 15, baselines: [1, 1.5], color: "bg-pink-500", lightColor: "bg-pink-100" },
-  "备课组长": { code: "PREP", caps: 8, baselines: [0.5], color: "bg-green-500", lightColor: "bg-green-100" },
-  "中层干部": { code: "MID", caps: 20, baselines: [1.2, 1.5], color: "bg-orange-500", lightColor: "bg-orange-100" },
-  "学科主任": { code: "DEPT", caps: 15, baselines: [1, 1.5], color: "bg-teal-500", lightColor: "bg-teal-100" },
-};
-
-const WEIGHTS = [1, 0.5, 0.25, 0.125, 0.0625];
-const CLASS_VICE_COMBO_CAP = 15;
-
-type RoleKey = keyof typeof ROLE_INFO;
-
-function ymToIndex(dateStr: string): number {
-  const [y, m] = dateStr.split("-").map(Number);
-  return y * 12 + (m - 1);
+function roleColor(policy: ScoringPolicy, role: string): string {
+  return findRole(policy, role)?.color ?? "bg-gray-400";
 }
 
-function indexToYM(index: number): string {
-  const y = Math.floor(index / 12);
-  const m = (index % 12) + 1;
-  return `${y}-${String(m).padStart(2, "0")}`;
-}
-
-interface RoleEntry { role: RoleKey; start: string; end: string; }
-interface RoleState { score: number; monthsServed: number; capped: boolean; }
-interface MonthAllocation { role: RoleKey; weight: number; gain: number; }
-interface MonthDetail { ym: string; allocations: MonthAllocation[]; }
-interface RoleSummary { role: RoleKey; score: number; cap: number; capped: boolean; }
-interface CalculationResult { roleSummary: RoleSummary[]; totalScore: number; monthDetails: MonthDetail[]; }
-
-function calculate(csvText: string): CalculationResult {
-  const lines = csvText.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
-  const entries: RoleEntry[] = lines.map((line, idx) => {
-    const match = line.match(/\"?(.*?)\"?,\s*\"?(\d{4}-\d{2}-\d{2})\"?,\s*\"?(\d{4}-\d{2}-\d{2})\"?/);
-    if (!match) throw new Error(`第 ${idx + 1} 行 CSV 格式有误：${line}`);
-    const [, role, start, end] = match;
-    if (!ROLE_INFO[role as RoleKey]) throw new Error(`未知岗位名称：${role}`);
-    if (end < start) throw new Error(`日期顺序错误：${role}`);
-    return { role: role as RoleKey, start, end };
-  });
-
-  const minYM = Math.min(...entries.map(e => ymToIndex(e.start)));
-  const maxYM = Math.max(...entries.map(e => ymToIndex(e.end)));
-  const monthsTotal = maxYM - minYM + 1;
-
-  const roleState = Object.fromEntries(Object.keys(ROLE_INFO).map(r => [r, { score: 0, monthsServed: 0, capped: false }])) as Record<RoleKey, RoleState>;
-  const monthDetails: MonthDetail[] = [];
-
-  for (let i = 0; i < monthsTotal; i++) {
-    const ymIdx = minYM + i;
-    const ymStr = indexToYM(ymIdx);
-    const activeRoles = entries.filter(e => ymIdx >= ymToIndex(e.start) && ymIdx <= ymToIndex(e.end)).map(e => e.role).filter(r => !roleState[r].capped);
-    if (!activeRoles.length) continue;
-
-    activeRoles.forEach(r => { roleState[r].monthsServed += 1; });
-
-    const candidates = activeRoles.map(role => {
-      const info = ROLE_INFO[role];
-      const monthsSrv = roleState[role].monthsServed - 1;
-      const baseline = info.baselines[monthsSrv >= 72 && info.baselines.length > 1 ? 1 : 0];
-      return { role, baselinePerMonth: baseline / 12, remainingCap: info.caps - roleState[role].score + 1e-9 };
-    });
-
-    candidates.sort((a,b)=> b.baselinePerMonth - a.baselinePerMonth || b.remainingCap - a.remainingCap);
-
-    const monthLog: MonthDetail = { ym: ymStr, allocations: [] };
-    for (let w = 0; w < WEIGHTS.length && w < candidates.length; w++) {
-      const { role, baselinePerMonth } = candidates[w];
-      const weight = WEIGHTS[w];
-      let gain = baselinePerMonth * weight;
+// plan 为规划预测，以单人输入作为已有任职；diff 以单人输入作为更正后的任职，与更正前对比
+type InputMode = "single" | "roster" | "plan" | "diff";
 
-      if (role === "班主任" || role === "副班主任") {
-        const comboUsed = roleState["班主任"].score + roleState["副班主任"].score;
-        const remainingCombo = CLASS_VICE_COMBO_CAP - comboUsed;
-        if (remainingCombo <= 0) gain = 0;
-        else gain = Math.min(gain, remainingCombo);
-      }
-
-      let allowable = Math.min(gain, ROLE_INFO[role].caps - roleState[role].score);
-      roleState[role].score += allowable;
-
-      if (role === "班主任" || role === "副班主任") {
-        const comboAfter = roleState["班主任"].score + roleState["副班主任"].score;
-        if (comboAfter >= CLASS_VICE_COMBO_CAP - 1e-6) {
-          roleState["班主任"].capped = true;
-          roleState["副班主任"].capped = true;
-        }
-      }
-
-      if (roleState[role].score >= ROLE_INFO[role].caps - 1e-6) {
-        roleState[role].capped = true;
-      }
+// 单人模式视为只有一位（未命名）教师的名单，合并检查与计分统一按教师处理
+function parseInput(text: string, mode: InputMode, policy: ScoringPolicy, openEnd: string): Map<string, RoleEntry[]> {
+  return mode === "roster" ? parseRoster(text, policy, openEnd) : new Map([["", parseEntries(text, policy, openEnd)]]);
+}
 
-      monthLog.allocations.push({ role, weight, gain: +allowable.toFixed(4) });
-    }
-    monthDetails.push(monthLog);
-  }
+function mergeKey(teacher: string, id: string): string {
+  return `${teacher}|${id}`;
+}
 
-  const roleSummary: RoleSummary[] = Object.keys(ROLE_INFO).map(r => ({ role: r as RoleKey, score: +roleState[r as RoleKey].score.toFixed(4), cap: ROLE_INFO[r as RoleKey].caps, capped: roleState[r as RoleKey].capped }));
-  const totalScore = +roleSummary.reduce((s,r)=>s+r.score,0).toFixed(4);
-  return { roleSummary, totalScore, monthDetails };
+// 按教师拆分输入，只合并已接受的建议，交给计算 Worker 逐个计分
+function prepareJobs(text: string, mode: InputMode, policy: ScoringPolicy, rejectedMerges: Set<string>, options: CalcOptions): ScoreJob[] {
+  return [...parseInput(text, mode, policy, openEndDate(options))].map(([teacher, entries]) => ({
+    teacher,
+    entries: applyMerges(entries, findMerges(entries, options.proration), s => !rejectedMerges.has(mergeKey(teacher, s.id))),
+  }));
 }
 
 export default function TeacherScoreCalculator() {
@@ -120,11 +72,36 @@ export default function TeacherScoreCalculator() {
 "科组长","2019-09-01","2024-12-31"
 "班主任","2020-09-01","2021-08-31"
 "中层干部","2021-06-01","2024-12-31"`);
+  const [rosterInput, setRosterInput] = useState(`"T001 张老师","班主任","2006-09-01","2012-08-31"
+"T001 张老师","年级组长","2012-09-01","2018-08-31"
+"T002 李老师","副班主任","2015-09-01","2019-08-31"
+"T002 李老师","备课组长","2016-09-01","2024-08-31"
+"T003 王老师","中层干部","2010-09-01","2024-12-31"
+"T003 王老师","科组长","2014-09-01","2020-08-31"`);
+  const [mode, setMode] = useState<InputMode>("single");
+  const [inputView, setInputView] = useState<"table"|"text">("table");
+  const [policy, setPolicy] = useState<ScoringPolicy>(DEFAULT_POLICY);
+  const [proration, setProration] = useState<ProrationMode>("month");
+  const [ordering, setOrdering] = useState<OrderingStrategy>("greedy");
+  // 评审截止日期，空字符串表示不截断
+  const [cutoff, setCutoff] = useState("");
   const [result, setResult] = useState<CalculationResult|null>(null);
+  const [roster, setRoster] = useState<TeacherResult[]|null>(null);
+  const [selectedTeacher, setSelectedTeacher] = useState<string|null>(null);
+  const [rejectedMerges, setRejectedMerges] = useState<Set<string>>(new Set());
   const [error, setError] = useState<string|null>(null);
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [isCalculating, setIsCalculating] = useState(false);
   const [activeStep, setActiveStep] = useState(0);
+  const [profileName, setProfileName] = useState("");
+  const [history, setHistory] = useState<HistoryRecord[]>([]);
+  const [draftsLoaded, setDraftsLoaded] = useState(false);
+  const [draftSavedAt, setDraftSavedAt] = useState<string|null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [lang, setLangState] = useState<Lang>(getLang);
+  const runnerRef = useRef<TaskRunner|null>(null);
 
   // 检测系统主题偏好
   useEffect(() => {
@@ -139,59 +116,311 @@ export default function TeacherScoreCalculator() {
     return () => darkModeMediaQuery.removeEventListener('change', handleChange);
   }, []);
 
-  const handleCalc = () => {
+  // 文案由 t() 按当前语言读取，切换语言时整页重新渲染
+  useEffect(() => {
+    document.documentElement.lang = lang;
+    document.title = t("app.title");
+  }, [lang]);
+
+  const switchLang = (next: Lang) => {
+    setLang(next);
+    rememberLang(next);
+    setLangState(next);
+  };
+
+  // 计算在 Worker 中进行，组件卸载时一并结束
+  useEffect(() => {
+    const runner = createTaskRunner();
+    runnerRef.current = runner;
+    return () => runner.dispose();
+  }, []);
+
+  // 启动时恢复上次的草稿和计算历史；本地存储不可用时沿用示例数据，不影响计算。
+  // 通过分享链接打开时（包括页面已打开后在地址栏换成分享链接），以链接内容为准并自动计算
+  useEffect(() => {
+    const restoreShared = async () => {
+      const shared = await decodeShare(window.location.hash);
+      const sharedPolicy = shared.policy ?? DEFAULT_POLICY;
+      const sharedOptions: CalcOptions = { proration: shared.proration ?? "month", ordering: shared.ordering ?? "greedy", cutoff: shared.cutoff };
+      const rejected = new Set(shared.rejectedMerges ?? []);
+      setMode(shared.mode);
+      if (shared.mode === "roster") setRosterInput(shared.text);
+      else setCsvInput(shared.text);
+      setPolicy(sharedPolicy);
+      setProration(sharedOptions.proration);
+      setOrdering(orderingOf(sharedOptions));
+      setCutoff(shared.cutoff ?? "");
+      setRejectedMerges(rejected);
+      const jobs = prepareJobs(shared.text, shared.mode, sharedPolicy, rejected, sharedOptions);
+      const teachers = await runnerRef.current?.run({ kind: "score", jobs, policy: sharedPolicy, options: sharedOptions });
+      if (!teachers) return;
+      if (shared.mode === "roster") setRoster(teachers);
+      else setResult(teachers[0].result);
+      setActiveStep(2);
+    };
+
+    const openSharedLink = async () => {
+      if (!isShareFragment(window.location.hash)) return;
+      try {
+        await restoreShared();
+      } catch (e) {
+        setError(t("app.shareInvalid", { message: (e as Error).message }));
+      }
+      // 载入后去掉片段，之后的编辑不会与地址栏中的旧链接混淆
+      window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    };
+
+    Promise.all([loadDraft("single"), loadDraft("roster")])
+      .then(([single, rosterDraft]) => {
+        if (single) setCsvInput(single.text);
+        if (rosterDraft) setRosterInput(rosterDraft.text);
+      })
+      .catch(() => {})
+      .then(openSharedLink)
+      .finally(() => setDraftsLoaded(true));
+    listHistory().then(setHistory, () => {});
+    window.addEventListener("hashchange", openSharedLink);
+    return () => window.removeEventListener("hashchange", openSharedLink);
+  }, []);
+
+  // 输入停顿片刻后自动保存草稿
+  useEffect(() => {
+    if (!draftsLoaded) return;
+    const timer = setTimeout(() => {
+      Promise.all([saveDraft("single", csvInput), saveDraft("roster", rosterInput)])
+        .then(([draft]) => setDraftSavedAt(draft.updatedAt), () => {});
+    }, 600);
+    return () => clearTimeout(timer);
+  }, [csvInput, rosterInput, draftsLoaded]);
+
+  // 单人与批量各自保留输入，表格编辑器与文本框共用同一份 CSV 文本
+  const inputText = mode === "roster" ? rosterInput : csvInput;
+  const setInputText = mode === "roster" ? setRosterInput : setCsvInput;
+
+  const calcOptions: CalcOptions = { proration, ordering, cutoff: cutoff || undefined };
+  const openEnd = openEndDate(calcOptions);
+
+  const pendingMerges = useMemo<PendingMerge[]>(() => {
+    try {
+      return [...parseInput(inputText, mode, policy, openEnd)].flatMap(([teacher, entries]) =>
+        findMerges(entries, proration).map(suggestion => ({ key: mergeKey(teacher, suggestion.id), teacher, suggestion })));
+    } catch {
+      // 输入尚有格式错误时由编辑器和计算时的报错提示，这里不重复处理
+      return [];
+    }
+  }, [inputText, mode, policy, openEnd, proration]);
+
+  const singleEntries = () => {
+    const entries = parseEntries(csvInput, policy, openEnd);
+    return applyMerges(entries, findMerges(entries, proration), s => !rejectedMerges.has(mergeKey("", s.id)));
+  };
+
+  const toggleMerge = (key: string) => {
+    setRejectedMerges(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const showRoster = mode === "roster" && roster !== null;
+  const displayed = mode === "roster"
+    ? roster?.find(r => r.teacher === selectedTeacher)?.result ?? null
+    : result;
+  // 批量结果沿用计算时的规则，避免编辑规则后表头与数据错位
+  const rosterPolicy = roster?.[0]?.result.policy ?? policy;
+
+  const handleCalc = async () => {
+    const runner = runnerRef.current;
+    if (!runner) return;
     setIsCalculating(true);
+    setProgress(0);
     setActiveStep(1);
 
-    setTimeout(() => {
-      try {
-        setResult(calculate(csvInput));
-        setError(null);
-        setActiveStep(2);
-      } catch(e:any) {
-        setError(e.message);
-        setResult(null);
-        setActiveStep(0);
-      } finally {
-        setIsCalculating(false);
+    try {
+      const teachers = await runner.run({ kind: "score", jobs: prepareJobs(inputText, mode, policy, rejectedMerges, calcOptions), policy, options: calcOptions }, setProgress);
+      // 被取消或被新的计算取代时，由发起方更新界面状态
+      if (!teachers) return;
+      const label = mode === "roster" ? t("app.rosterLabel", { count: teachers.length }) : profileName.trim() || t("app.unnamed");
+      const recorded = mode === "roster" ? teachers : [{ ...teachers[0], teacher: profileName.trim() }];
+      addHistory(label, recorded).then(() => listHistory()).then(setHistory, () => {});
+      if (mode === "roster") {
+        setRoster(teachers);
+        setSelectedTeacher(teachers.some(r => r.teacher === selectedTeacher) ? selectedTeacher : null);
+      } else {
+        setResult(teachers[0].result);
       }
-    }, 800); // 添加延迟以显示计算过程
+      setError(null);
+      setActiveStep(2);
+      setIsCalculating(false);
+    } catch(e) {
+      setError((e as Error).message);
+      if (mode === "roster") setRoster(null);
+      else setResult(null);
+      setActiveStep(0);
+      setIsCalculating(false);
+    }
+  };
+
+  const handleCancel = () => {
+    runnerRef.current?.cancel();
+    setIsCalculating(false);
+    setActiveStep(0);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      const fragment = await encodeShare(buildSharedState(mode, inputText, calcOptions, policy, [...rejectedMerges]));
+      const url = `${window.location.origin}${window.location.pathname}${window.location.search}#${fragment}`;
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (e) {
+      setError(t("app.copyFailed", { message: (e as Error).message }));
+    }
+  };
+
+  const openProfile = (profile: TeacherProfile) => {
+    setMode("single");
+    setCsvInput(profile.csvText);
+    setProfileName(profile.name);
+    setError(null);
+  };
+
+  const removeHistory = (id: string) => {
+    deleteHistory(id).then(() => listHistory()).then(setHistory, (e: Error) => setError(e.message));
   };
 
   const handleExport = () => {
+    const result = displayed;
     if (!result) return;
 
-    let csvContent = "岗位,得分,封顶分,状态\n";
-    result.roleSummary.forEach(r => {
-      csvContent += `${r.role},${r.score.toFixed(4)},${r.cap},${r.capped ? "已封顶" : "未封顶"}\n`;
-    });
+    const teacherSuffix = mode === "roster" && selectedTeacher ? `_${selectedTeacher}` : "";
+    downloadCsv(resultToCsv(result), `${t("export.resultFileName")}${teacherSuffix}_${new Date().toISOString().split('T')[0]}.csv`);
+  };
 
-    csvContent += `\n总分,${result.totalScore.toFixed(4)},30,${result.totalScore >= 30 ? "已封顶" : "未封顶"}\n\n`;
+  // JSON 存档保留输入、规则和未经格式化的结果，可在「存档核验」中重新计算核对
+  const handleExportBundle = async () => {
+    const result = displayed;
+    if (!result) return;
 
-    csvContent += "年月,分配详情\n";
-    result.monthDetails.forEach(m => {
-      csvContent += `${m.ym},${m.allocations.map(a => `${a.role} ${Math.round(a.weight*100)}% → ${a.gain.toFixed(4)}`).join("; ")}\n`;
-    });
+    const teacher = mode === "roster" ? selectedTeacher ?? "" : profileName.trim();
+    const bundle = await createBundle(result, teacher);
+    downloadFile(JSON.stringify(bundle, null, 2), `${t("export.bundleFileName")}${teacher ? `_${teacher}` : ""}_${new Date().toISOString().split('T')[0]}.json`, 'application/json;charset=utf-8;');
+  };
+
+  const loadBundle = (bundle: ResultBundle, recalculated: CalculationResult) => {
+    setMode("single");
+    setCsvInput(rowsToCsv(bundle.entries.map(e => ({ teacher: "", ...e })), false));
+    setProfileName(bundle.teacher);
+    setPolicy(bundle.policy);
+    setProration(bundle.options.proration);
+    setOrdering(orderingOf(bundle.options));
+    setCutoff(bundle.options.cutoff ?? "");
+    setRejectedMerges(new Set());
+    setResult(recalculated);
+    setError(null);
+    setActiveStep(2);
+  };
+
+  // 审核通过的记录按当前规则载入单人模式，规则与计分方式保持不变
+  const loadApproved = (teacher: string, csvText: string, official: CalculationResult) => {
+    setMode("single");
+    setCsvInput(csvText);
+    setProfileName(teacher);
+    setRejectedMerges(new Set());
+    setResult(official);
+    setError(null);
+    setActiveStep(2);
+  };
+
+  const handleExportXlsx = () => {
+    const result = displayed;
+    if (!result) return;
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `教师得分计算结果_${new Date().toISOString().split('T')[0]}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const { policy } = result;
+    const teacher = mode === "roster" && selectedTeacher ? selectedTeacher : "";
+    const cappedLabel = (capped: boolean) => capped ? t("common.capped") : t("common.notCapped");
+    const extra = metaColumns(result.entries);
+    const overview: CellValue[][] = [
+      [t("export.item"), t("export.value")],
+      ...(teacher ? [[t("export.teacher"), teacher]] : []),
+      [t("export.policy"), policy.version],
+      [t("export.proration"), t(`proration.${result.options.proration}`)],
+      [t("export.ordering"), t(`ordering.${orderingOf(result.options)}`)],
+      [t("export.cutoff"), result.options.cutoff ?? ""],
+      [t("export.rawTotal"), result.rawTotal],
+      [t("export.total"), result.totalScore],
+      [t("export.totalCap"), policy.totalCap],
+      [t("export.status"), cappedLabel(result.totalCapReachedAt !== null)],
+      [t("export.totalCapMonth"), result.totalCapReachedAt ?? ""],
+      [t("export.totalCapRule"), t(`totalCapRule.${policy.totalCapRule}`)],
+    ];
+    downloadWorkbook([
+      {
+        name: t("export.sheetRoles"),
+        rows: [
+          [t("export.role"), t("export.roleCode"), t("export.score"), t("export.rawScore"), t("export.cap"), t("export.status")],
+          ...result.roleSummary.map(r => [roleName(policy, r.role), r.role, r.score, r.rawScore, r.cap, cappedLabel(r.capped)]),
+        ],
+      },
+      {
+        name: t("export.sheetGroups"),
+        rows: [
+          [t("export.capGroup"), t("export.groupRoles"), t("export.groupUsed"), t("export.cap"), t("export.status"), t("export.groupReachedAt")],
+          ...result.groupSummary.map(g => {
+            const group = policy.capGroups[g.group];
+            return [groupName(policy, group), group.roles.map(r => roleName(policy, r)).join(" + "), g.used, g.cap, cappedLabel(g.capped), g.reachedAt ?? ""];
+          }),
+        ],
+      },
+      { name: t("export.sheetTotal"), rows: overview },
+      {
+        name: t("export.sheetEntries"),
+        rows: [
+          [t("export.role"), t("export.startDate"), t("export.endDate"), ...extra],
+          ...result.entries.map(e => [roleName(policy, e.role), e.start, e.end, ...extra.map(col => e.meta?.[col] ?? "")]),
+        ],
+      },
+      {
+        name: t("export.sheetAllocations"),
+        rows: [
+          [t("export.month"), t("export.role"), t("export.weight"), t("export.score")],
+          ...result.monthDetails.flatMap(m => m.allocations.map(a => [m.ym, roleName(policy, a.role), a.weight, a.gain])),
+        ],
+      },
+      {
+        name: t("export.sheetTrace"),
+        rows: [
+          [
+            t("export.month"), t("export.role"), t("export.reason"), t("export.monthsServed"), t("export.fraction"), t("export.baseline"), t("export.slot"),
+            t("export.weight"), t("export.rawGain"), t("export.score"), t("export.scoreBefore"), t("export.capGroup"), t("export.comboBefore"), t("export.explanation"),
+          ],
+          ...result.monthDetails.flatMap(m => m.trace.map(tr => [
+            m.ym, roleName(policy, tr.role), tr.reason, tr.monthsServed, tr.fraction, tr.baseline, tr.slot ?? "", tr.weight, tr.rawGain, tr.gain, tr.scoreBefore,
+            tr.capGroup === null ? "" : groupName(policy, policy.capGroups[tr.capGroup]), tr.comboBefore ?? "", explainTrace(tr, policy),
+          ])),
+        ],
+      },
+    ], `${t("export.resultFileName")}${teacher ? `_${teacher}` : ""}_${new Date().toISOString().split('T')[0]}.xlsx`)
+      .catch(e => setError(t("app.exportFailed", { message: (e as Error).message })));
+  };
+
+  const handleExportRoster = () => {
+    if (!roster) return;
+    downloadCsv(rosterToCsv(roster), `${t("export.rosterFileName")}_${new Date().toISOString().split('T')[0]}.csv`);
   };
 
   return (
-    <div className={`min-h-screen transition-all duration-500 ${isDarkMode ? 'dark bg-gradient-to-br from-gray-900 via-blue-900 to-purple-900' : 'bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50'}`}>
+    <div className={`min-h-screen transition-all duration-500 print:bg-none ${isDarkMode ? 'dark bg-gradient-to-br from-gray-900 via-blue-900 to-purple-900' : 'bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50'}`}>
       {/* Tailwind测试 - 这个应该是红色背景 */}
-      <div className="bg-red-500 text-white p-2 text-center">
-        Tailwind CSS 测试 - 如果你看到红色背景，说明样式正在工作！
+      <div className="no-print bg-red-500 text-white p-2 text-center">
+        {t("app.tailwindTest")}
       </div>
 
       {/* 顶部导航栏 */}
-      <header className={`backdrop-blur-md border-b transition-all duration-300 sticky top-0 z-50 ${isDarkMode ? 'bg-gray-900/80 border-gray-700' : 'bg-white/80 border-gray-200'}`}>
+      <header className={`no-print backdrop-blur-md border-b transition-all duration-300 sticky top-0 z-50 ${isDarkMode ? 'bg-gray-900/80 border-gray-700' : 'bg-white/80 border-gray-200'}`}>
         <div className="max-w-7xl mx-auto px-6 py-4">
           <div className="flex justify-between items-center">
             <div className="flex items-center space-x-3">
@@ -201,30 +430,38 @@ export default function TeacherScoreCalculator() {
                 </svg>
               </div>
               <div>
-                <h1 className={`text-lg font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>教师管理岗位得分计算器</h1>
-                <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>智能化管理类别得分计算系统</p>
+                <h1 className={`text-lg font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{t("app.title")}</h1>
+                <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{t("app.subtitle")}</p>
               </div>
             </div>
-            <Button
-              variant="outline"
-              onClick={() => setIsDarkMode(!isDarkMode)}
-              className={`transition-all duration-300 ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`}
-            >
-              {isDarkMode ? '🌞 亮色模式' : '🌙 暗色模式'}
-            </Button>
+            <div className="flex items-center gap-2">
+              <SegmentedControl
+                options={LANGS.map(l => [l, LANG_LABELS[l]] as const)}
+                value={lang}
+                onChange={switchLang}
+                isDarkMode={isDarkMode}
+              />
+              <Button
+                variant="outline"
+                onClick={() => setIsDarkMode(!isDarkMode)}
+                className={`transition-all duration-300 ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+              >
+                {isDarkMode ? t("app.lightMode") : t("app.darkMode")}
+              </Button>
+            </div>
           </div>
         </div>
       </header>
 
       {/* 主内容区 */}
-      <main className="max-w-7xl mx-auto px-6 py-6">
+      <main className={`max-w-7xl mx-auto px-6 py-6 ${showReport ? 'no-print' : ''}`}>
         {/* 进度指示器 */}
         <div className="mb-6">
           <div className="flex items-center justify-center space-x-4">
             {[
-              { step: 0, title: "数据输入", icon: "📝" },
-              { step: 1, title: "计算处理", icon: "⚡" },
-              { step: 2, title: "结果展示", icon: "📊" }
+              { step: 0, title: t("app.stepInput"), icon: "📝" },
+              { step: 1, title: t("app.stepCalc"), icon: "⚡" },
+              { step: 2, title: t("app.stepResult"), icon: "📊" }
             ].map((item, index) => (
               <div key={index} className="flex items-center">
                 <div className={`flex items-center justify-center w-8 h-8 rounded-full transition-all duration-300 text-sm ${
@@ -236,6 +473,9 @@ export default function TeacherScoreCalculator() {
                 </div>
                 <div className={`ml-2 ${activeStep >= item.step ? (isDarkMode ? 'text-white' : 'text-gray-900') : (isDarkMode ? 'text-gray-400' : 'text-gray-500')}`}>
                   <div className="text-sm font-medium">{item.title}</div>
+                  {item.step === 1 && isCalculating && (
+                    <div className={`text-xs ${isDarkMode ? 'text-blue-300' : 'text-blue-600'}`}>{Math.round(progress * 100)}%</div>
+                  )}
                 </div>
                 {index < 2 && (
                   <div className={`w-12 h-0.5 mx-3 transition-all duration-300 ${
@@ -261,44 +501,111 @@ export default function TeacherScoreCalculator() {
                       <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
                     </svg>
                   </div>
-                  岗位记录输入
+                  {t("app.inputTitle")}
                 </CardTitle>
                 <CardDescription className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
-                  请按照"岗位,开始日期,结束日期"格式输入，每行一条记录
+                  {mode === "roster" ? t("app.inputHintRoster") : t("app.inputHintSingle")}
                 </CardDescription>
+                <div className="flex flex-wrap gap-2 pt-2">
+                  <SegmentedControl
+                    options={[["single", t("app.modeSingle")], ["roster", t("app.modeRoster")], ["plan", t("app.modePlan")], ["diff", t("app.modeDiff")]] as const}
+                    value={mode}
+                    onChange={value => { setMode(value); setError(null); }}
+                    isDarkMode={isDarkMode}
+                  />
+                  <SegmentedControl
+                    options={PRORATION_MODES.map(m => [m, t(`proration.${m}`)] as const)}
+                    value={proration}
+                    onChange={setProration}
+                    isDarkMode={isDarkMode}
+                  />
+                  <SegmentedControl
+                    options={ORDERING_STRATEGIES.map(o => [o, t(`ordering.${o}`)] as const)}
+                    value={ordering}
+                    onChange={setOrdering}
+                    isDarkMode={isDarkMode}
+                  />
+                  <label className={`flex items-center gap-1 text-xs ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`} title={t("app.cutoffHint")}>
+                    {t("app.cutoff")}
+                    <Input
+                      type="date"
+                      className={`h-8 w-36 text-xs ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`}
+                      value={cutoff}
+                      onChange={e => setCutoff(e.target.value)}
+                    />
+                  </label>
+                </div>
               </CardHeader>
               <CardContent className="p-4 space-y-4">
                 {/* 岗位类型展示 */}
                 <div className={`p-4 rounded-xl ${isDarkMode ? 'bg-gray-700/50' : 'bg-blue-50'}`}>
-                  <h3 className={`text-sm font-medium mb-3 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>支持的岗位类型</h3>
+                  <h3 className={`text-sm font-medium mb-3 ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>{t("app.roleTypes")}</h3>
                   <div className="grid grid-cols-2 gap-2">
-                    {Object.entries(ROLE_INFO).map(([role, info]) => (
-                      <div key={role} className={`flex items-center p-2 rounded-lg transition-all duration-200 hover:scale-102 ${isDarkMode ? 'bg-gray-600/50' : 'bg-white'} shadow-sm`}>
+                    {policy.roles.map(info => (
+                      <div
+                        key={info.code}
+                        title={[info.name, info.code, ...info.aliases].join(" / ")}
+                        className={`flex items-center p-2 rounded-lg transition-all duration-200 hover:scale-102 ${isDarkMode ? 'bg-gray-600/50' : 'bg-white'} shadow-sm`}
+                      >
                         <div className={`w-2 h-2 rounded-full mr-2 ${info.color}`}></div>
-                        <span className={`text-xs font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>{role}</span>
-                        <span className={`ml-auto text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>≤{info.caps}</span>
+                        <span className={`text-xs font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>{roleName(policy, info.code)}</span>
+                        <span className={`ml-1 text-[10px] font-mono ${isDarkMode ? 'text-gray-400' : 'text-gray-400'}`}>{info.code}</span>
+                        <span className={`ml-auto text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>≤{info.cap}</span>
                       </div>
                     ))}
                   </div>
+                  <p className={`mt-2 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{t("app.roleHint")}</p>
                 </div>
 
                 {/* 输入框 */}
                 <div className="space-y-2">
-                  <label className={`text-sm font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
-                    岗位数据 (CSV格式)
-                  </label>
-                  <Textarea
-                    className={`min-h-[250px] lg:min-h-[300px] font-mono text-sm transition-all duration-300 resize-none ${
-                      isDarkMode
-                        ? 'bg-gray-700 text-white border-gray-600 focus:border-blue-500'
-                        : 'bg-white text-gray-900 border-gray-300 focus:border-blue-500'
-                    }`}
-                    value={csvInput}
-                    onChange={e => setCsvInput(e.target.value)}
-                    placeholder='例如: "班主任","2006-09-01","2010-08-31"'
+                  <div className="flex items-center justify-between">
+                    <label className={`text-sm font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                      {t("app.inputData")}
+                    </label>
+                    <SegmentedControl
+                      options={[["table", t("app.viewTable")], ["text", t("app.viewText")]] as const}
+                      value={inputView}
+                      onChange={setInputView}
+                      isDarkMode={isDarkMode}
+                    />
+                  </div>
+                  <XlsxImport
+                    withTeacher={mode === "roster"}
+                    onImport={setInputText}
+                    isDarkMode={isDarkMode}
+                  />
+                  {inputView === "table" ? (
+                    <EntryEditor
+                      csvText={inputText}
+                      onChange={setInputText}
+                      policy={policy}
+                      withTeacher={mode === "roster"}
+                      isDarkMode={isDarkMode}
+                    />
+                  ) : (
+                    <Textarea
+                      className={`min-h-[250px] lg:min-h-[300px] font-mono text-sm transition-all duration-300 resize-none ${
+                        isDarkMode
+                          ? 'bg-gray-700 text-white border-gray-600 focus:border-blue-500'
+                          : 'bg-white text-gray-900 border-gray-300 focus:border-blue-500'
+                      }`}
+                      value={inputText}
+                      onChange={e => setInputText(e.target.value)}
+                      placeholder={mode === "roster" ? t("app.placeholderRoster") : t("app.placeholderSingle")}
+                    />
+                  )}
+                  <ColumnMappingPanel
+                    text={inputText}
+                    policy={policy}
+                    withTeacher={mode === "roster"}
+                    onApply={setInputText}
+                    isDarkMode={isDarkMode}
                   />
                 </div>
 
+                <MergeReview merges={pendingMerges} rejected={rejectedMerges} onToggle={toggleMerge} policy={policy} isDarkMode={isDarkMode} />
+
                 {/* 错误信息 */}
                 {error && (
                   <div className={`p-3 rounded-xl border transition-all duration-300 ${
@@ -311,18 +618,18 @@ export default function TeacherScoreCalculator() {
                         <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
                       </svg>
                       <div>
-                        <p className="text-sm font-medium">输入错误</p>
+                        <p className="text-sm font-medium">{t("app.inputError")}</p>
                         <p className="text-xs mt-1">{error}</p>
                       </div>
                     </div>
                   </div>
                 )}
               </CardContent>
-              <CardFooter className={`border-t ${isDarkMode ? 'border-gray-700 bg-gray-800/30' : 'border-gray-200 bg-gray-50/50'} p-4`}>
+              <CardFooter className={`border-t ${isDarkMode ? 'border-gray-700 bg-gray-800/30' : 'border-gray-200 bg-gray-50/50'} p-4 gap-2`}>
                 <Button
                   onClick={handleCalc}
                   disabled={isCalculating}
-                  className={`w-full transition-all duration-300 ${
+                  className={`flex-1 transition-all duration-300 ${
                     isCalculating
                       ? 'opacity-70 cursor-not-allowed'
                       : 'hover:scale-105 hover:shadow-lg'
@@ -334,46 +641,89 @@ export default function TeacherScoreCalculator() {
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                       </svg>
-                      计算中...
+                      {t("app.calculating", { percent: Math.round(progress * 100) })}
                     </>
                   ) : (
                     <>
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5 mr-2" viewBox="0 0 20 20" fill="currentColor">
                         <path fillRule="evenodd" d="M6.267 3.455a3.066 3.066 0 001.745-.723 3.066 3.066 0 013.976 0 3.066 3.066 0 001.745.723 3.066 3.066 0 012.812 2.812c.051.643.304 1.254.723 1.745a3.066 3.066 0 010 3.976 3.066 3.066 0 00-.723 1.745 3.066 3.066 0 01-2.812 2.812 3.066 3.066 0 00-1.745.723 3.066 3.066 0 01-3.976 0 3.066 3.066 0 00-1.745-.723 3.066 3.066 0 01-2.812-2.812 3.066 3.066 0 00-.723-1.745 3.066 3.066 0 010-3.976 3.066 3.066 0 00.723-1.745 3.066 3.066 0 012.812-2.812zm7.44 5.252a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                       </svg>
-                      开始计算
+                      {t("app.calculate")}
                     </>
                   )}
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={isCalculating ? handleCancel : handleCopyLink}
+                  title={isCalculating ? t("app.cancelHint") : t("app.copyLinkHint")}
+                  className={isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}
+                >
+                  {isCalculating ? t("common.cancel") : linkCopied ? t("app.linkCopied") : t("app.copyLink")}
+                </Button>
               </CardFooter>
             </Card>
+
+            <ProfilePanel
+              profileName={profileName}
+              onProfileNameChange={setProfileName}
+              csvText={csvInput}
+              onOpen={openProfile}
+              draftSavedAt={draftSavedAt}
+              isDarkMode={isDarkMode}
+            />
+
+            <PolicyEditor policy={policy} onChange={setPolicy} isDarkMode={isDarkMode} />
           </div>
 
           {/* 右侧：结果展示区域 */}
           <div className="space-y-4">
-            {result ? (
+            {mode === "plan" && (
+              <ForecastPanel getHistory={singleEntries} policy={policy} options={calcOptions} isDarkMode={isDarkMode} />
+            )}
+            {mode === "diff" && (
+              <DiffPanel getAfter={singleEntries} initialText={csvInput} history={history} policy={policy} options={calcOptions} isDarkMode={isDarkMode} />
+            )}
+            {showRoster && roster && (
+              <RosterTable
+                rows={roster.map(({ teacher, result }) => ({ teacher, totalScore: result.totalScore, roleScores: Object.fromEntries(result.roleSummary.map(r => [r.role, r.score])) }))}
+                policy={rosterPolicy}
+                selected={selectedTeacher}
+                onSelect={setSelectedTeacher}
+                onExport={handleExportRoster}
+                isDarkMode={isDarkMode}
+              />
+            )}
+            {displayed ? (
               <div className="space-y-4 animate-fade-in">
                 {/* 总分卡片 */}
                 <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gradient-to-br from-green-900/50 to-blue-900/50 border-green-700 backdrop-blur-sm' : 'bg-gradient-to-br from-green-50 to-blue-50 border-green-200 backdrop-blur-sm'}`}>
                   <CardHeader className="text-center">
                     <CardTitle className={`text-lg ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                      管理类别总分
+                      {showRoster && selectedTeacher ? `${selectedTeacher} · ${t("app.totalTitle")}` : t("app.totalTitle")}
                     </CardTitle>
-                    <div className={`text-3xl font-bold mt-2 ${result.totalScore >= 30 ? (isDarkMode ? 'text-green-400' : 'text-green-600') : (isDarkMode ? 'text-blue-400' : 'text-blue-600')}`}>
-                      {result.totalScore.toFixed(4)}
+                    <div className={`text-3xl font-bold mt-2 ${displayed.totalCapReachedAt ? (isDarkMode ? 'text-green-400' : 'text-green-600') : (isDarkMode ? 'text-blue-400' : 'text-blue-600')}`}>
+                      {displayed.totalScore.toFixed(4)}
                     </div>
                     <div className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
-                      / 30.0000
+                      / {displayed.policy.totalCap.toFixed(4)}
                     </div>
+                    {displayed.totalCapReachedAt && (
+                      <div className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {t("app.totalCapNote", { raw: displayed.rawTotal.toFixed(4), ym: displayed.totalCapReachedAt, rule: t(`totalCapRule.${displayed.policy.totalCapRule}`) })}
+                      </div>
+                    )}
                     <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium mt-2 ${
-                      result.totalScore >= 30
+                      displayed.totalCapReachedAt
                         ? (isDarkMode ? 'bg-green-900/30 text-green-400 border border-green-700' : 'bg-green-100 text-green-800 border border-green-200')
                         : (isDarkMode ? 'bg-blue-900/30 text-blue-400 border border-blue-700' : 'bg-blue-100 text-blue-800 border border-blue-200')
                     }`}>
-                      {result.totalScore >= 30 ? '✓ 已达封顶' : '⏳ 未达封顶'}
+                      {displayed.totalCapReachedAt ? t("app.totalCapped") : t("app.totalNotCapped")}
+                    </div>
+                    <div className={`text-xs mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {t("app.policyLine", { version: displayed.policy.version, proration: calcMethodLabel(displayed.options) })}
                     </div>
                   </CardHeader>
-                  <CardFooter className="justify-center">
+                  <CardFooter className="flex-wrap justify-center gap-2">
                     <Button
                       variant="outline"
                       onClick={handleExport}
@@ -382,7 +732,37 @@ export default function TeacherScoreCalculator() {
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                       </svg>
-                      导出结果
+                      {t("app.exportCsv")}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={handleExportXlsx}
+                      className={`transition-all duration-300 hover:scale-105 ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                      </svg>
+                      {t("app.exportXlsx")}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={handleExportBundle}
+                      className={`transition-all duration-300 hover:scale-105 ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                      </svg>
+                      {t("app.exportBundle")}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowReport(true)}
+                      className={`transition-all duration-300 hover:scale-105 ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+                      </svg>
+                      {t("app.printReport")}
                     </Button>
                   </CardFooter>
                 </Card>
@@ -396,20 +776,21 @@ export default function TeacherScoreCalculator() {
                           <path d="M2 11a1 1 0 011-1h2a1 1 0 011 1v5a1 1 0 01-1 1H3a1 1 0 01-1-1v-5zM8 7a1 1 0 011-1h2a1 1 0 011 1v9a1 1 0 01-1 1H9a1 1 0 01-1-1V7zM14 4a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1h-2a1 1 0 01-1-1V4z" />
                         </svg>
                       </div>
-                      岗位得分汇总
+                      {t("app.roleSummary")}
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="p-0">
                     <div className="space-y-2 p-4">
-                      {result.roleSummary.map((r) => (
+                      {displayed.roleSummary.map((r) => (
                         <div key={r.role} className={`p-3 rounded-xl transition-all duration-300 hover:scale-102 ${isDarkMode ? 'bg-gray-700/50 hover:bg-gray-700' : 'bg-gray-50 hover:bg-gray-100'}`}>
                           <div className="flex items-center justify-between">
                             <div className="flex items-center">
-                              <div className={`w-3 h-3 rounded-full mr-2 ${ROLE_INFO[r.role].color}`}></div>
+                              <div className={`w-3 h-3 rounded-full mr-2 ${roleColor(displayed.policy, r.role)}`}></div>
                               <div>
-                                <div className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{r.role}</div>
+                                <div className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{roleName(displayed.policy, r.role)}</div>
                                 <div className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
                                   {r.score.toFixed(4)} / {r.cap}
+                                  {r.rawScore > r.score && t("app.rawScore", { raw: r.rawScore.toFixed(4) })}
                                 </div>
                               </div>
                             </div>
@@ -422,74 +803,61 @@ export default function TeacherScoreCalculator() {
                                   ? (isDarkMode ? 'bg-green-900/30 text-green-400' : 'bg-green-100 text-green-800')
                                   : (isDarkMode ? 'bg-blue-900/30 text-blue-400' : 'bg-blue-100 text-blue-800')
                               }`}>
-                                {r.capped ? '已封顶' : '未封顶'}
+                                {r.capped ? t("common.capped") : t("common.notCapped")}
                               </div>
                             </div>
                           </div>
                           {/* 进度条 */}
                           <div className={`mt-2 h-1.5 rounded-full overflow-hidden ${isDarkMode ? 'bg-gray-600' : 'bg-gray-200'}`}>
                             <div
-                              className={`h-full transition-all duration-1000 ease-out ${ROLE_INFO[r.role].color}`}
+                              className={`h-full transition-all duration-1000 ease-out ${roleColor(displayed.policy, r.role)}`}
                               style={{ width: `${Math.min((r.score / r.cap) * 100, 100)}%` }}
                             ></div>
                           </div>
                         </div>
                       ))}
-                    </div>
-                  </CardContent>
-                </Card>
-
-                {/* 逐月权重分配明细 */}
-                <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gray-800/50 border-gray-700 backdrop-blur-sm' : 'bg-white/70 border-gray-200 backdrop-blur-sm'}`}>
-                  <CardHeader className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
-                    <CardTitle className={`flex items-center text-base ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                      <div className={`p-1.5 rounded-lg mr-2 ${isDarkMode ? 'bg-indigo-600' : 'bg-indigo-500'}`}>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
-                          <path fillRule="evenodd" d="M3 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z" clipRule="evenodd" />
-                        </svg>
-                      </div>
-                      逐月权重分配明细
-                    </CardTitle>
-                    <CardDescription className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
-                      显示每月的岗位权重分配和得分增长详情
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="p-0">
-                    <ScrollArea className="h-[300px] lg:h-[400px]">
-                      <div className="p-4 space-y-3">
-                        {result.monthDetails.map((m) => (
-                          <div key={m.ym} className={`p-3 rounded-xl transition-all duration-300 hover:scale-102 ${isDarkMode ? 'bg-gray-700/30 hover:bg-gray-700/50' : 'bg-gray-50 hover:bg-gray-100'}`}>
-                            <div className={`text-sm font-medium mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                              📅 {m.ym}
-                            </div>
-                            <div className="space-y-1.5">
-                              {m.allocations.map((a, idx) => (
-                                <div key={idx} className="flex items-center justify-between">
-                                  <div className="flex items-center">
-                                    <div className={`w-2 h-2 rounded-full mr-2 ${ROLE_INFO[a.role].color}`}></div>
-                                    <span className={`text-xs ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                                      {a.role}
-                                    </span>
-                                  </div>
-                                  <div className="flex items-center space-x-1.5">
-                                    <span className={`text-xs px-1.5 py-0.5 rounded-full ${isDarkMode ? 'bg-blue-900/30 text-blue-400' : 'bg-blue-100 text-blue-800'}`}>
-                                      {Math.round(a.weight * 100)}%
-                                    </span>
-                                    <span className={`text-xs font-medium ${isDarkMode ? 'text-green-400' : 'text-green-600'}`}>
-                                      +{a.gain.toFixed(4)}
-                                    </span>
-                                  </div>
+                      {/* 合计封顶组：组内各岗位合计的使用情况 */}
+                      {displayed.groupSummary.map(g => {
+                        const group = displayed.policy.capGroups[g.group];
+                        const percent = g.cap > 0 ? Math.min(g.used / g.cap * 100, 100) : 100;
+                        return (
+                          <div key={`group-${g.group}`} className={`p-3 rounded-xl border border-dashed transition-all duration-300 ${isDarkMode ? 'border-gray-600 bg-gray-700/30' : 'border-gray-300 bg-white/50'}`}>
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <div className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{t("app.capGroup", { name: groupName(displayed.policy, group) })}</div>
+                                <div className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                                  {g.used.toFixed(4)} / {g.cap}
+                                  {group.name && t("app.groupMembers", { roles: joinList(group.roles.map(r => roleName(displayed.policy, r))) })}
+                                </div>
+                              </div>
+                              <div className="text-right">
+                                <div className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{percent.toFixed(1)}%</div>
+                                <div className={`inline-flex items-center px-1.5 py-0.5 rounded-full text-xs font-medium ${
+                                  g.capped
+                                    ? (isDarkMode ? 'bg-green-900/30 text-green-400' : 'bg-green-100 text-green-800')
+                                    : (isDarkMode ? 'bg-blue-900/30 text-blue-400' : 'bg-blue-100 text-blue-800')
+                                }`}>
+                                  {g.capped ? t("app.groupCappedAt", { ym: g.reachedAt ?? "" }) : t("common.notCapped")}
                                 </div>
-                              ))}
+                              </div>
+                            </div>
+                            <div className={`mt-2 h-1.5 rounded-full overflow-hidden ${isDarkMode ? 'bg-gray-600' : 'bg-gray-200'}`}>
+                              <div className={`h-full transition-all duration-1000 ease-out ${isDarkMode ? 'bg-gray-400' : 'bg-gray-500'}`} style={{ width: `${percent}%` }}></div>
                             </div>
                           </div>
-                        ))}
-                      </div>
-                    </ScrollArea>
+                        );
+                      })}
+                    </div>
                   </CardContent>
                 </Card>
+
+                <OrderingComparison result={displayed} isDarkMode={isDarkMode} />
+
+                <TimelineChart result={displayed} isDarkMode={isDarkMode} />
+
+                <MonthDetails result={displayed} isDarkMode={isDarkMode} />
               </div>
-            ) : (
+            ) : !showRoster && (
               <div className={`text-center py-12 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
                 <div className={`w-16 h-16 mx-auto mb-4 rounded-full flex items-center justify-center ${isDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -497,16 +865,30 @@ export default function TeacherScoreCalculator() {
                   </svg>
                 </div>
                 <h3 className={`text-base font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                  等待计算结果
+                  {t("app.waiting")}
                 </h3>
                 <p className="text-sm">
-                  请在左侧输入岗位数据并点击"开始计算"按钮
+                  {t("app.waitingHint")}
                 </p>
               </div>
             )}
+
+            <HistoryPanel records={history} onDelete={removeHistory} current={displayed} isDarkMode={isDarkMode} />
+            <BundleVerify onLoad={loadBundle} isDarkMode={isDarkMode} />
+            <ReviewPanel policy={policy} options={calcOptions} onLoad={loadApproved} isDarkMode={isDarkMode} />
           </div>
         </div>
       </main>
+
+      {/* 评审报告：打印时只输出报告本身 */}
+      {showReport && displayed && (
+        <PrintReport
+          result={displayed}
+          teacherName={mode === "roster" ? selectedTeacher ?? "" : profileName}
+          onClose={() => setShowReport(false)}
+          isDarkMode={isDarkMode}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,151 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { CalculationResult } from "@/lib/engine";
+import { compareResults, readBundle, type BundleMismatch, type ResultBundle } from "@/lib/bundle";
+import { createTaskRunner, type TaskRunner } from "@/lib/taskRunner";
+import { getLang, t } from "@/lib/i18n";
+
+interface BundleVerifyProps {
+  /** 把存档的记录、规则和重新计算的结果载入主界面 */
+  onLoad: (bundle: ResultBundle, recalculated: CalculationResult) => void;
+  isDarkMode: boolean;
+}
+
+interface BundleCheck {
+  bundle: ResultBundle;
+  hashMatches: boolean;
+  recalculated: CalculationResult;
+  mismatches: BundleMismatch[];
+}
+
+/** 不一致的字段可能很多（如逐月明细），只列出前面这些 */
+const MAX_LISTED = 20;
+
+export function BundleVerify({ onLoad, isDarkMode }: BundleVerifyProps) {
+  const [check, setCheck] = useState<BundleCheck | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const runnerRef = useRef<TaskRunner | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const runner = createTaskRunner();
+    runnerRef.current = runner;
+    return () => runner.dispose();
+  }, []);
+
+  const handleFile = async (file: File) => {
+    const runner = runnerRef.current;
+    if (!runner) return;
+    setBusy(true);
+    try {
+      const { bundle, hashMatches } = await readBundle(await file.text());
+      // 按存档自带的规则和计分方式重新计算，与当前界面上的设置无关
+      const teachers = await runner.run({ kind: "score", jobs: [{ teacher: bundle.teacher, entries: bundle.entries }], policy: bundle.policy, options: bundle.options });
+      if (teachers) {
+        const recalculated = teachers[0].result;
+        setCheck({ bundle, hashMatches, recalculated, mismatches: compareResults(bundle.result, recalculated) });
+        setError(null);
+      }
+    } catch (e) {
+      setCheck(null);
+      setError((e as Error).message);
+    }
+    setBusy(false);
+  };
+
+  const okClass = isDarkMode ? 'text-green-400' : 'text-green-600';
+  const badClass = isDarkMode ? 'text-red-400' : 'text-red-600';
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const outlineClass = isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100';
+
+  return (
+    <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gray-800/50 border-gray-700 backdrop-blur-sm' : 'bg-white/70 border-gray-200 backdrop-blur-sm'}`}>
+      <CardHeader className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <CardTitle className={`flex items-center text-base ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          <div className={`p-1.5 rounded-lg mr-2 ${isDarkMode ? 'bg-emerald-600' : 'bg-emerald-500'}`}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M2.166 4.999A11.954 11.954 0 0010 1.944 11.954 11.954 0 0017.834 5c.11.65.166 1.32.166 2.001 0 5.225-3.34 9.67-8 11.317C5.34 16.67 2 12.225 2 7c0-.682.057-1.35.166-2.001zm11.541 3.708a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+            </svg>
+          </div>
+          {t("bundle.title")}
+        </CardTitle>
+        <CardDescription className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+          {t("bundle.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 space-y-3">
+        <Button variant="outline" size="sm" disabled={busy} onClick={() => fileInputRef.current?.click()} className={outlineClass}>
+          {busy ? t("bundle.verifying") : t("bundle.import")}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+
+        {error && <div className={`text-xs ${badClass}`}>{error}</div>}
+
+        {check && (
+          <div className={`p-3 rounded-xl space-y-2 text-xs ${isDarkMode ? 'bg-gray-700/50 text-gray-200' : 'bg-blue-50 text-gray-700'}`}>
+            <div className={mutedClass}>
+              {t("bundle.summary", {
+                teacher: check.bundle.teacher ? `${check.bundle.teacher} · ` : "",
+                time: check.bundle.exportedAt ? new Date(check.bundle.exportedAt).toLocaleString(getLang(), { hour12: false }) : "—",
+                version: check.bundle.policy.version,
+              })}
+            </div>
+            <div className={`font-medium ${check.hashMatches ? okClass : badClass}`}>
+              {check.hashMatches ? t("bundle.hashOk") : t("bundle.hashMismatch")}
+            </div>
+            <div className={`font-medium ${check.mismatches.length ? badClass : okClass}`}>
+              {check.mismatches.length ? t("bundle.mismatchCount", { count: check.mismatches.length }) : t("bundle.reproduced")}
+            </div>
+            <div>
+              {t("bundle.totalLine", { archived: check.bundle.result.totalScore.toFixed(4), recalculated: check.recalculated.totalScore.toFixed(4) })}
+            </div>
+
+            {check.mismatches.length > 0 && (
+              <div className="max-h-[200px] overflow-auto">
+                <table className="w-full font-mono">
+                  <thead>
+                    <tr className={mutedClass}>
+                      <th className="py-1 text-left font-medium">{t("bundle.field")}</th>
+                      <th className="py-1 text-right font-medium">{t("bundle.archived")}</th>
+                      <th className="py-1 text-right font-medium">{t("bundle.recalculated")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {check.mismatches.slice(0, MAX_LISTED).map(m => (
+                      <tr key={m.path}>
+                        <td className="py-1 break-all">{m.path}</td>
+                        <td className="py-1 text-right break-all">{m.archived}</td>
+                        <td className="py-1 text-right break-all">{m.recalculated}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {check.mismatches.length > MAX_LISTED && (
+                  <p className={mutedClass}>{t("bundle.moreMismatches", { count: check.mismatches.length - MAX_LISTED })}</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={() => onLoad(check.bundle, check.recalculated)} className={outlineClass}>
+                {t("bundle.load")}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { layoutRows, rowsToCsv } from "@/lib/entryRows";
+import { detectLayout, isPlainLayout, metaColumns, type ColumnMapping, type Delimiter } from "@/lib/tabular";
+import type { ScoringPolicy } from "@/lib/policy";
+import { joinList, t, type MessageKey } from "@/lib/i18n";
+
+interface ColumnMappingPanelProps {
+  text: string;
+  policy: ScoringPolicy;
+  withTeacher: boolean;
+  /** 按调整后的列映射整理成的标准 CSV（附加信息带表头） */
+  onApply: (csvText: string) => void;
+  isDarkMode: boolean;
+}
+
+type Field = "teacher" | "role" | "start" | "end";
+
+const FIELD_LABELS: Record<Field, MessageKey> = { teacher: "common.teacher", role: "common.role", start: "common.startDate", end: "common.endDate" };
+
+const DELIMITER_LABELS: Record<Delimiter, MessageKey> = { ",": "paste.delimiterComma", "\t": "paste.delimiterTab", ";": "paste.delimiterSemicolon" };
+
+/** 粘贴的内容带表头、多余列或不是逗号分隔时，显示识别结果并允许调整各字段对应的列 */
+export function ColumnMappingPanel({ text, policy, withTeacher, onApply, isDarkMode }: ColumnMappingPanelProps) {
+  // 用户调整过的映射只对调整时的文本有效，文本改动后回到自动识别
+  const [override, setOverride] = useState<{ text: string; mapping: ColumnMapping } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const layout = detectLayout(text, policy, withTeacher);
+  if (!text.trim() || isPlainLayout(layout, withTeacher)) return null;
+
+  const mapping = override?.text === text ? override.mapping : layout.mapping;
+  const rows = layoutRows(text, { ...layout, mapping });
+  const extra = metaColumns(rows);
+  const fields: Field[] = withTeacher ? ["teacher", "role", "start", "end"] : ["role", "start", "end"];
+  const columnLabel = (col: number) => layout.header[col]
+    ? t("xlsx.columnWithHeader", { index: col + 1, header: layout.header[col] })
+    : t("xlsx.column", { index: col + 1 });
+
+  const summary = [
+    t(DELIMITER_LABELS[layout.delimiter]),
+    t("paste.dataRows", { count: rows.length }),
+    ...(layout.headerRows ? [t("paste.headerSkipped", { count: layout.headerRows })] : []),
+  ];
+
+  const handleApply = () => {
+    const missing = fields.filter(f => (mapping[f] ?? -1) < 0);
+    if (missing.length) {
+      setError(t("xlsx.missingColumns", { fields: joinList(missing.map(f => t(FIELD_LABELS[f]))) }));
+      return;
+    }
+    onApply(rowsToCsv(rows, withTeacher));
+    setOverride(null);
+    setError(null);
+  };
+
+  const selectClass = `h-8 w-full rounded-md border px-2 text-xs ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`;
+  const labelClass = `text-xs font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className={`p-3 rounded-xl space-y-3 text-xs ${isDarkMode ? 'bg-gray-700/50 text-gray-200' : 'bg-blue-50 text-gray-700'}`}>
+      <div>
+        <div className="font-medium">{t("paste.title")}</div>
+        <p className={mutedClass}>{joinList(summary)}</p>
+      </div>
+      <div className={`grid gap-3 ${withTeacher ? 'grid-cols-2 sm:grid-cols-4' : 'grid-cols-3'}`}>
+        {fields.map(field => (
+          <div key={field} className="space-y-1">
+            <label className={labelClass}>{t(FIELD_LABELS[field])}</label>
+            <select className={selectClass} value={mapping[field] ?? -1} onChange={e => setOverride({ text, mapping: { ...mapping, [field]: Number(e.target.value) } })}>
+              <option value={-1}>{t("common.select")}</option>
+              {Array.from({ length: layout.columnCount }, (_, col) => <option key={col} value={col}>{columnLabel(col)}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+      {extra.length > 0 && <p className={mutedClass}>{t("paste.metaColumns", { columns: joinList(extra) })}</p>}
+      {override?.text === text && <p className={mutedClass}>{t("paste.pendingHint")}</p>}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleApply}
+        className={isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}
+      >
+        {t("paste.apply")}
+      </Button>
+      {error && <p className={isDarkMode ? 'text-red-400' : 'text-red-600'}>{error}</p>}
+    </div>
+  );
+}
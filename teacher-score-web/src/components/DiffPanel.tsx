@@ -0,0 +1,244 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import { openEndDate, parseEntries, type CalcOptions, type MonthAllocation, type RoleEntry } from "@/lib/engine";
+import { diffResults, isUnchanged, type EntryChange, type ResultDiff } from "@/lib/diff";
+import { applyMerges, findMerges } from "@/lib/normalize";
+import { roleName, type ScoringPolicy } from "@/lib/policy";
+import { diffToCsv, formatDelta } from "@/lib/report";
+import type { HistoryRecord } from "@/lib/storage";
+import { createTaskRunner, type TaskRunner } from "@/lib/taskRunner";
+import { downloadCsv } from "@/lib/utils";
+import { getLang, t } from "@/lib/i18n";
+
+type DiffSource = "entries" | "saved";
+
+interface DiffPanelProps {
+  /** 读取左侧更正后的任职记录（已按确认的合并处理），输入有误时抛出错误 */
+  getAfter: () => RoleEntry[];
+  /** 进入对比时左侧的输入，作为「更正前」的初始内容 */
+  initialText: string;
+  history: HistoryRecord[];
+  policy: ScoringPolicy;
+  options: CalcOptions;
+  isDarkMode: boolean;
+}
+
+export function DiffPanel({ getAfter, initialText, history, policy, options, isDarkMode }: DiffPanelProps) {
+  const [source, setSource] = useState<DiffSource>("entries");
+  const [beforeText, setBeforeText] = useState(initialText);
+  const [recordId, setRecordId] = useState(history[0]?.id ?? "");
+  const [teacherIdx, setTeacherIdx] = useState(0);
+  const [diff, setDiff] = useState<{ result: ResultDiff; policy: ScoringPolicy } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const runnerRef = useRef<TaskRunner | null>(null);
+
+  useEffect(() => {
+    const runner = createTaskRunner();
+    runnerRef.current = runner;
+    return () => runner.dispose();
+  }, []);
+
+  const record = history.find(r => r.id === recordId) ?? history[0];
+
+  const handleRun = async () => {
+    const runner = runnerRef.current;
+    if (!runner) return;
+    setBusy(true);
+    try {
+      const after = getAfter();
+      if (source === "saved") {
+        const saved = record?.teachers[Math.min(teacherIdx, record.teachers.length - 1)]?.result;
+        if (!saved) throw new Error(t("diff.noHistory"));
+        const teachers = await runner.run({ kind: "score", jobs: [{ teacher: "", entries: after }], policy, options });
+        if (teachers) setDiff({ result: diffResults(saved, teachers[0].result), policy });
+      } else {
+        // 更正前的记录没有单独的合并确认，按默认全部接受合并建议
+        const parsed = parseEntries(beforeText, policy, openEndDate(options));
+        const before = applyMerges(parsed, findMerges(parsed, options.proration), () => true);
+        const teachers = await runner.run({ kind: "score", jobs: [{ teacher: "before", entries: before }, { teacher: "after", entries: after }], policy, options });
+        if (teachers) setDiff({ result: diffResults(teachers[0].result, teachers[1].result), policy });
+      }
+      setError(null);
+    } catch (e) {
+      setDiff(null);
+      setError((e as Error).message);
+    }
+    setBusy(false);
+  };
+
+  const handleExport = () => {
+    if (!diff) return;
+    downloadCsv(diffToCsv(diff.result, diff.policy), `${t("diff.fileName")}_${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const labelClass = `text-xs font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+  const selectClass = `h-8 rounded-md border px-2 text-xs ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`;
+  const outlineClass = isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100';
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const deltaClass = (delta: number) => delta > 0
+    ? (isDarkMode ? 'text-green-400' : 'text-green-600')
+    : delta < 0 ? (isDarkMode ? 'text-red-400' : 'text-red-600') : mutedClass;
+  const changeClass: Record<EntryChange, string> = {
+    unchanged: mutedClass,
+    changed: isDarkMode ? 'text-amber-400' : 'text-amber-600',
+    added: isDarkMode ? 'text-green-400' : 'text-green-600',
+    removed: isDarkMode ? 'text-red-400' : 'text-red-600',
+  };
+
+  const nameOf = (role: string) => roleName(diff?.policy ?? policy, role);
+  const period = (entry: RoleEntry | null) => entry ? `${entry.start} ~ ${entry.end}` : "—";
+  const allocationsText = (allocations: MonthAllocation[]) => allocations.length
+    ? allocations.map(a => `${nameOf(a.role)} ${Math.round(a.weight * 100)}% → ${a.gain.toFixed(4)}`).join("; ")
+    : t("diff.noAllocation");
+
+  return (
+    <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gray-800/50 border-gray-700 backdrop-blur-sm' : 'bg-white/70 border-gray-200 backdrop-blur-sm'}`}>
+      <CardHeader className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <CardTitle className={`flex items-center text-base ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          <div className={`p-1.5 rounded-lg mr-2 ${isDarkMode ? 'bg-rose-600' : 'bg-rose-500'}`}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+              <path d="M8 5a1 1 0 100 2h5.586l-1.293 1.293a1 1 0 001.414 1.414l3-3a1 1 0 000-1.414l-3-3a1 1 0 10-1.414 1.414L13.586 5H8zM12 15a1 1 0 100-2H6.414l1.293-1.293a1 1 0 10-1.414-1.414l-3 3a1 1 0 000 1.414l3 3a1 1 0 001.414-1.414L6.414 15H12z" />
+            </svg>
+          </div>
+          {t("diff.title")}
+        </CardTitle>
+        <CardDescription className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+          {t("diff.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        <SegmentedControl
+          options={[["entries", t("diff.sourceEntries")], ["saved", t("diff.sourceSaved")]] as const}
+          value={source}
+          onChange={value => { setSource(value); setDiff(null); setError(null); }}
+          isDarkMode={isDarkMode}
+        />
+
+        {source === "entries" ? (
+          <div className="space-y-1">
+            <label className={labelClass}>{t("diff.beforeHint")}</label>
+            <Textarea
+              className={`min-h-[140px] font-mono text-xs resize-none ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`}
+              value={beforeText}
+              onChange={e => setBeforeText(e.target.value)}
+            />
+          </div>
+        ) : history.length === 0 ? (
+          <p className={`text-xs ${mutedClass}`}>{t("diff.noHistory")}</p>
+        ) : (
+          <div className="flex gap-2">
+            <select className={`${selectClass} flex-1`} value={record?.id} onChange={e => { setRecordId(e.target.value); setTeacherIdx(0); }}>
+              {history.map(r => <option key={r.id} value={r.id}>{r.label} · {new Date(r.createdAt).toLocaleString(getLang(), { hour12: false })}</option>)}
+            </select>
+            {record && record.teachers.length > 1 && (
+              <select className={`${selectClass} w-32`} value={teacherIdx} onChange={e => setTeacherIdx(Number(e.target.value))}>
+                {record.teachers.map((tr, idx) => <option key={tr.teacher} value={idx}>{tr.teacher}</option>)}
+              </select>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {diff && (
+            <Button variant="outline" size="sm" onClick={handleExport} className={outlineClass}>
+              {t("diff.export")}
+            </Button>
+          )}
+          <Button size="sm" onClick={handleRun} disabled={busy} className={`${isDarkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white`}>
+            {busy ? t("diff.running") : t("diff.run")}
+          </Button>
+        </div>
+
+        {error && <div className={`text-xs ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</div>}
+
+        {diff && (
+          <div className={`p-3 rounded-xl space-y-3 text-xs ${isDarkMode ? 'bg-gray-700/50 text-gray-200' : 'bg-blue-50 text-gray-700'}`}>
+            <div className={`text-sm font-bold ${deltaClass(diff.result.totalDelta)}`}>
+              {t("diff.totalLine", { before: diff.result.totalBefore.toFixed(4), after: diff.result.totalAfter.toFixed(4), delta: formatDelta(diff.result.totalDelta) })}
+            </div>
+            {isUnchanged(diff.result) && <p className={mutedClass}>{t("diff.noChange")}</p>}
+
+            {/* 记录变化 */}
+            <div className="space-y-1">
+              <div className={labelClass}>{t("diff.entriesSection")}</div>
+              <table className="w-full">
+                <thead>
+                  <tr className={mutedClass}>
+                    <th className="py-1 text-left font-medium">{t("diff.change")}</th>
+                    <th className="py-1 text-left font-medium">{t("common.role")}</th>
+                    <th className="py-1 text-left font-medium">{t("diff.before")}</th>
+                    <th className="py-1 text-left font-medium">{t("diff.after")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.result.entries.map((e, idx) => (
+                    <tr key={idx} className={e.change === "unchanged" ? mutedClass : ''}>
+                      <td className={`py-1 font-medium ${changeClass[e.change]}`}>{t(`diff.entry.${e.change}`)}</td>
+                      <td className="py-1">{nameOf((e.after ?? e.before)!.role)}</td>
+                      <td className="py-1">{period(e.before)}</td>
+                      <td className="py-1">{period(e.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* 岗位得分变化 */}
+            <div className="space-y-1">
+              <div className={labelClass}>{t("diff.rolesSection")}</div>
+              <table className="w-full">
+                <thead>
+                  <tr className={mutedClass}>
+                    <th className="py-1 text-left font-medium">{t("common.role")}</th>
+                    <th className="py-1 text-right font-medium">{t("diff.before")}</th>
+                    <th className="py-1 text-right font-medium">{t("diff.after")}</th>
+                    <th className="py-1 text-right font-medium">{t("diff.delta")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.result.roles.map(r => (
+                    <tr key={r.role}>
+                      <td className="py-1">{nameOf(r.role)}</td>
+                      <td className="py-1 text-right">{r.before.toFixed(4)}{r.beforeCapped && ` · ${t("common.capped")}`}</td>
+                      <td className="py-1 text-right">{r.after.toFixed(4)}{r.afterCapped && ` · ${t("common.capped")}`}</td>
+                      <td className={`py-1 text-right font-medium ${deltaClass(r.delta)}`}>{formatDelta(r.delta)}</td>
+                    </tr>
+                  ))}
+                  <tr className="font-bold">
+                    <td className="py-1">{t("common.total")}</td>
+                    <td className="py-1 text-right">{diff.result.totalBefore.toFixed(4)}</td>
+                    <td className="py-1 text-right">{diff.result.totalAfter.toFixed(4)}</td>
+                    <td className={`py-1 text-right ${deltaClass(diff.result.totalDelta)}`}>{formatDelta(diff.result.totalDelta)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            {/* 分配有变化的月份 */}
+            {diff.result.months.length > 0 && (
+              <div className="space-y-1">
+                <div className={labelClass}>{t("diff.monthsSection", { count: diff.result.months.length })}</div>
+                <ul className="max-h-[260px] overflow-y-auto space-y-1">
+                  {diff.result.months.map(m => (
+                    <li key={m.ym} className={`p-2 rounded-lg border ${isDarkMode ? 'bg-amber-900/20 border-amber-800' : 'bg-amber-50 border-amber-200'}`}>
+                      <div className="flex justify-between font-medium">
+                        <span>{m.ym}</span>
+                        <span className={deltaClass(m.delta)}>{formatDelta(m.delta)}</span>
+                      </div>
+                      <div className={mutedClass}>{t("report.fieldLabel", { label: t("diff.before") })}{allocationsText(m.before)}</div>
+                      <div>{t("report.fieldLabel", { label: t("diff.after") })}{allocationsText(m.after)}</div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
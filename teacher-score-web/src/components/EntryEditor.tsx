@@ -0,0 +1,180 @@
+import { Fragment, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { csvToRows, rowsToCsv, validateRow, type EntryField, type EntryRow } from "@/lib/entryRows";
+import { formatMeta } from "@/lib/tabular";
+import { normalizeDate } from "@/lib/dates";
+import { findRole, resolveRole, roleName, type ScoringPolicy } from "@/lib/policy";
+import { t } from "@/lib/i18n";
+
+interface EntryEditorProps {
+  csvText: string;
+  onChange: (csvText: string) => void;
+  policy: ScoringPolicy;
+  withTeacher: boolean;
+  isDarkMode: boolean;
+}
+
+let nextRowId = 0;
+
+/** 文本框旁的日历按钮：选好的日期写回文本框，文本框里仍可直接写 2006.09、至今 等写法 */
+function DatePickerButton({ value, edge, onPick, className }: { value: string; edge: "start" | "end"; onPick: (date: string) => void; className: string }) {
+  const pickerRef = useRef<HTMLInputElement>(null);
+  const open = () => {
+    const picker = pickerRef.current;
+    if (!picker) return;
+    try {
+      picker.showPicker();
+    } catch {
+      picker.click();
+    }
+  };
+  return (
+    <span className="relative shrink-0">
+      <Button variant="ghost" size="sm" className={className} onClick={open} title={t("editor.pickDate")}>📅</Button>
+      <input
+        ref={pickerRef}
+        type="date"
+        tabIndex={-1}
+        aria-hidden
+        className="pointer-events-none absolute inset-0 h-full w-full opacity-0"
+        value={normalizeDate(value, edge) ?? ""}
+        onChange={e => e.target.value && onPick(e.target.value)}
+      />
+    </span>
+  );
+}
+
+export function EntryEditor({ csvText, onChange, policy, withTeacher, isDarkMode }: EntryEditorProps) {
+  const rows = csvToRows(csvText, policy, withTeacher);
+  // 行的序号随删除、移动而变，用稳定的 id 作 key，输入焦点跟着原来的行走；
+  // 文本在编辑器之外改动（粘贴、导入）时按行序重新编号
+  const [rowIds, setRowIds] = useState<{ text: string; ids: string[] }>({ text: "", ids: [] });
+  const ids = rowIds.text === csvText && rowIds.ids.length === rows.length ? rowIds.ids : rows.map((_, idx) => `line-${idx}`);
+  // 导入时带来的附加列只展示，编辑时随行保留
+  const hasMeta = rows.some(r => r.meta);
+  const errors = rows.map(r => validateRow(r, policy, withTeacher));
+  const errorCount = errors.reduce((n, e) => n + Object.keys(e).length, 0);
+
+  const commit = (next: EntryRow[], nextIds: string[] = ids) => {
+    const text = rowsToCsv(next, withTeacher);
+    setRowIds({ text, ids: nextIds });
+    onChange(text);
+  };
+
+  const updateCell = (idx: number, field: EntryField, value: string) => {
+    commit(rows.map((r, i) => i === idx ? { ...r, [field]: value } : r));
+  };
+
+  const addRow = () => {
+    const last = rows[rows.length - 1];
+    commit([...rows, { teacher: last?.teacher ?? "", role: policy.roles[0]?.name ?? "", start: "", end: "" }], [...ids, `row-${nextRowId++}`]);
+  };
+
+  const removeRow = (idx: number) => commit(rows.filter((_, i) => i !== idx), ids.filter((_, i) => i !== idx));
+
+  const moveRow = (idx: number, offset: number) => {
+    const target = idx + offset;
+    if (target < 0 || target >= rows.length) return;
+    const next = [...rows];
+    const nextIds = [...ids];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    [nextIds[idx], nextIds[target]] = [nextIds[target], nextIds[idx]];
+    commit(next, nextIds);
+  };
+
+  const cellClass = (error: string | undefined) => `h-8 w-full rounded-md border px-2 text-xs ${
+    error
+      ? (isDarkMode ? 'border-red-500 bg-red-900/20 text-red-200' : 'border-red-400 bg-red-50 text-red-700')
+      : (isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300')
+  }`;
+  const headerClass = `px-1 py-1 text-left font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+  const iconButtonClass = `h-7 w-7 p-0 ${isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'}`;
+
+  return (
+    <div className="space-y-2">
+      <ScrollArea className="h-[250px] lg:h-[300px]">
+        <table className="w-full text-xs">
+          <thead>
+            <tr>
+              {withTeacher && <th className={headerClass}>{t("common.teacher")}</th>}
+              <th className={headerClass}>{t("common.role")}</th>
+              <th className={headerClass}>{t("common.startDate")}</th>
+              <th className={headerClass}>{t("common.endDate")}</th>
+              {hasMeta && <th className={headerClass}>{t("common.meta")}</th>}
+              <th className="w-24"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, idx) => {
+              // 代码或别名写法也能对应到岗位，下拉框显示规则中的岗位
+              const resolved = resolveRole(policy, row.role);
+              return (
+                <Fragment key={ids[idx]}>
+                  <tr className="align-top">
+                    {withTeacher && (
+                      <td className="p-1">
+                        <input className={cellClass(errors[idx].teacher)} value={row.teacher} title={errors[idx].teacher} onChange={e => updateCell(idx, "teacher", e.target.value)} />
+                      </td>
+                    )}
+                    <td className="p-1">
+                      <select
+                        className={cellClass(errors[idx].role)}
+                        value={resolved?.code ?? row.role}
+                        title={errors[idx].role}
+                        onChange={e => updateCell(idx, "role", findRole(policy, e.target.value)?.name ?? e.target.value)}
+                      >
+                        {!resolved && <option value={row.role}>{row.role || t("common.select")}</option>}
+                        {policy.roles.map(r => <option key={r.code} value={r.code}>{roleName(policy, r.code)}</option>)}
+                      </select>
+                    </td>
+                    <td className="p-1">
+                      <div className="flex items-center gap-1">
+                        <input className={cellClass(errors[idx].start)} value={row.start} placeholder={t("editor.startPlaceholder")} title={errors[idx].start} onChange={e => updateCell(idx, "start", e.target.value)} />
+                        <DatePickerButton value={row.start} edge="start" onPick={date => updateCell(idx, "start", date)} className={iconButtonClass} />
+                      </div>
+                    </td>
+                    <td className="p-1">
+                      <div className="flex items-center gap-1">
+                        <input className={cellClass(errors[idx].end)} value={row.end} placeholder={t("editor.endPlaceholder")} title={errors[idx].end} onChange={e => updateCell(idx, "end", e.target.value)} />
+                        <DatePickerButton value={row.end} edge="end" onPick={date => updateCell(idx, "end", date)} className={iconButtonClass} />
+                      </div>
+                    </td>
+                    {hasMeta && (
+                      <td className={`p-1 pt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{formatMeta(row.meta)}</td>
+                    )}
+                    <td className="p-1 whitespace-nowrap text-right">
+                      <Button variant="ghost" size="sm" className={iconButtonClass} disabled={idx === 0} onClick={() => moveRow(idx, -1)} title={t("editor.moveUp")}>↑</Button>
+                      <Button variant="ghost" size="sm" className={iconButtonClass} disabled={idx === rows.length - 1} onClick={() => moveRow(idx, 1)} title={t("editor.moveDown")}>↓</Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-red-500" onClick={() => removeRow(idx)} title={t("common.delete")}>✕</Button>
+                    </td>
+                  </tr>
+                  {Object.keys(errors[idx]).length > 0 && (
+                    <tr>
+                      <td colSpan={(withTeacher ? 5 : 4) + (hasMeta ? 1 : 0)} className={`px-1 pb-1 ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
+                        {t("editor.rowErrors", { line: idx + 1, errors: Object.values(errors[idx]).join(t("common.clauseSeparator")) })}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </ScrollArea>
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={addRow}
+          className={isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}
+        >
+          {t("editor.addRow")}
+        </Button>
+        <span className={`text-xs ${errorCount ? (isDarkMode ? 'text-red-400' : 'text-red-600') : (isDarkMode ? 'text-gray-400' : 'text-gray-500')}`}>
+          {errorCount ? t("editor.errorCount", { count: errorCount }) : t("editor.rowCount", { count: rows.length })}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import type { CalcOptions, RoleEntry } from "@/lib/engine";
+import { today } from "@/lib/dates";
+import { createTaskRunner, type TaskRunner } from "@/lib/taskRunner";
+import { FORECAST_HORIZON_MONTHS, type ForecastResult, type GoalAnswer, type GoalScope, type PlannedEntry } from "@/lib/forecast";
+import { findRole, groupName, roleName, type ScoringPolicy } from "@/lib/policy";
+import { t, type MessageKey } from "@/lib/i18n";
+
+interface ForecastPanelProps {
+  /** 读取已有任职（已按确认的合并处理），输入有误时抛出错误 */
+  getHistory: () => RoleEntry[];
+  policy: ScoringPolicy;
+  options: CalcOptions;
+  isDarkMode: boolean;
+}
+
+const GOAL_SCOPE_LABELS: Record<GoalScope, MessageKey> = { total: "common.total", role: "forecast.roleScore" };
+
+export function ForecastPanel({ getHistory, policy, options, isDarkMode }: ForecastPanelProps) {
+  const [asOf, setAsOf] = useState(today);
+  const [planned, setPlanned] = useState<PlannedEntry[]>([{ role: policy.roles[0]?.code ?? "", start: today(), end: null }]);
+  const [projection, setProjection] = useState<ForecastResult | null>(null);
+  const [goalRole, setGoalRole] = useState(policy.roles[0]?.code ?? "");
+  const [goalScope, setGoalScope] = useState<GoalScope>("total");
+  const [goalTarget, setGoalTarget] = useState(String(policy.totalCap));
+  const [goal, setGoal] = useState<{ answer: GoalAnswer | null; role: string; target: number; scope: GoalScope; from: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<"forecast" | "goal" | null>(null);
+  const runnerRef = useRef<TaskRunner | null>(null);
+  // 新的试算会取消尚未完成的上一次，只有最近一次结束时才清除忙碌状态
+  const runIdRef = useRef(0);
+
+  // 反推月数需要反复试算，放在 Worker 中进行，不影响继续编辑
+  useEffect(() => {
+    const runner = createTaskRunner();
+    runnerRef.current = runner;
+    return () => runner.dispose();
+  }, []);
+
+  const updatePlanned = (idx: number, patch: Partial<PlannedEntry>) => {
+    setPlanned(planned.map((p, i) => i === idx ? { ...p, ...patch } : p));
+  };
+
+  const handleForecast = async () => {
+    const runner = runnerRef.current;
+    if (!runner) return;
+    const runId = ++runIdRef.current;
+    setBusy("forecast");
+    try {
+      const next = await runner.run({ kind: "forecast", history: getHistory(), planned, asOf, policy, options });
+      if (!next) return;
+      setProjection(next);
+      setError(null);
+    } catch (e) {
+      setProjection(null);
+      setError((e as Error).message);
+    } finally {
+      if (runIdRef.current === runId) setBusy(null);
+    }
+  };
+
+  const handleGoal = async () => {
+    const runner = runnerRef.current;
+    if (!runner) return;
+    const runId = ++runIdRef.current;
+    setBusy("goal");
+    try {
+      const target = Number(goalTarget);
+      const solved = await runner.run({ kind: "goal", history: getHistory(), planned, asOf, role: goalRole, target, scope: goalScope, policy, options });
+      if (!solved) return;
+      setGoal({ answer: solved.answer, role: goalRole, target, scope: goalScope, from: asOf.slice(0, 7) });
+      setError(null);
+    } catch (e) {
+      setGoal(null);
+      setError((e as Error).message);
+    } finally {
+      if (runIdRef.current === runId) setBusy(null);
+    }
+  };
+
+  const labelClass = `text-xs font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+  const inputClass = `h-8 text-xs ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`;
+  const selectClass = `h-8 rounded-md border px-2 text-xs ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`;
+  const outlineClass = isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100';
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const nameOf = (code: string) => roleName(policy, code);
+  const goalText = (g: NonNullable<typeof goal>) => {
+    const params = {
+      role: nameOf(g.role), target: g.target, from: g.from,
+      label: g.scope === "total" ? t("forecast.goalTotalLabel") : t("forecast.goalRoleLabel", { role: nameOf(g.role) }),
+    };
+    if (!g.answer) return t("forecast.goalUnreachable", { ...params, years: FORECAST_HORIZON_MONTHS / 12 });
+    if (g.answer.months === 0) return t("forecast.goalMet", params);
+    return t("forecast.goalNeeded", { ...params, months: g.answer.months, until: g.answer.until ?? "" });
+  };
+  const reachedClass = (projected: boolean) => projected ? (isDarkMode ? 'text-blue-400' : 'text-blue-600') : (isDarkMode ? 'text-green-400' : 'text-green-600');
+
+  return (
+    <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gray-800/50 border-gray-700 backdrop-blur-sm' : 'bg-white/70 border-gray-200 backdrop-blur-sm'}`}>
+      <CardHeader className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <CardTitle className={`flex items-center text-base ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          <div className={`p-1.5 rounded-lg mr-2 ${isDarkMode ? 'bg-teal-600' : 'bg-teal-500'}`}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M12 7a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0V8.414l-4.293 4.293a1 1 0 01-1.414 0L8 10.414l-4.293 4.293a1 1 0 01-1.414-1.414l5-5a1 1 0 011.414 0L11 10.586 14.586 7H12z" clipRule="evenodd" />
+            </svg>
+          </div>
+          {t("forecast.title")}
+        </CardTitle>
+        <CardDescription className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+          {t("forecast.description", { years: FORECAST_HORIZON_MONTHS / 12 })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <label className={labelClass}>{t("forecast.asOf")}</label>
+          <Input className={`${inputClass} w-40`} type="date" value={asOf} onChange={e => setAsOf(e.target.value)} />
+        </div>
+
+        {/* 计划任职 */}
+        <div className="space-y-2">
+          <div className={`grid grid-cols-[1fr_8.5rem_8.5rem_3.5rem_2rem] gap-2 ${labelClass}`}>
+            <span>{t("forecast.plannedRole")}</span><span>{t("common.startDate")}</span><span>{t("common.endDate")}</span><span>{t("forecast.openEnded")}</span><span></span>
+          </div>
+          {planned.map((p, idx) => (
+            <div key={idx} className="grid grid-cols-[1fr_8.5rem_8.5rem_3.5rem_2rem] gap-2 items-center">
+              <select className={selectClass} value={p.role} onChange={e => updatePlanned(idx, { role: e.target.value })}>
+                {!findRole(policy, p.role) && <option value={p.role}>{p.role || t("common.select")}</option>}
+                {policy.roles.map(r => <option key={r.code} value={r.code}>{nameOf(r.code)}</option>)}
+              </select>
+              <Input className={inputClass} type="date" value={p.start} onChange={e => updatePlanned(idx, { start: e.target.value })} />
+              <Input className={inputClass} type="date" value={p.end ?? ""} disabled={p.end === null} onChange={e => updatePlanned(idx, { end: e.target.value })} />
+              <input type="checkbox" checked={p.end === null} onChange={e => updatePlanned(idx, { end: e.target.checked ? null : p.start })} />
+              <Button variant="ghost" size="sm" className="h-8 px-2 text-red-500" onClick={() => setPlanned(planned.filter((_, i) => i !== idx))} title={t("common.delete")}>✕</Button>
+            </div>
+          ))}
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPlanned([...planned, { role: policy.roles[0]?.code ?? "", start: asOf, end: null }])}
+              className={outlineClass}
+            >
+              {t("forecast.addPlanned")}
+            </Button>
+            <Button size="sm" onClick={handleForecast} className={`${isDarkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white`}>
+              {busy === "forecast" ? t("forecast.running") : t("forecast.run")}
+            </Button>
+          </div>
+        </div>
+
+        {projection && (
+          <div className={`p-3 rounded-xl space-y-2 text-xs ${isDarkMode ? 'bg-gray-700/50 text-gray-200' : 'bg-blue-50 text-gray-700'}`}>
+            <div className="flex justify-between">
+              <span>{t("forecast.current", { asOf: projection.asOf.slice(0, 7), score: projection.currentTotal.toFixed(4) })}</span>
+              <span>{t("forecast.final", { score: projection.result.totalScore.toFixed(4), cap: policy.totalCap })}</span>
+            </div>
+            <div className={`font-medium ${projection.totalReachedAt ? reachedClass(projection.totalReachedAt > projection.asOf.slice(0, 7)) : ''}`}>
+              {projection.totalReachedAt
+                ? t(projection.totalReachedAt > projection.asOf.slice(0, 7) ? "forecast.totalProjected" : "forecast.totalReached", { ym: projection.totalReachedAt, cap: policy.totalCap })
+                : t("forecast.totalNotReached", { end: projection.horizonEnd.slice(0, 7), cap: policy.totalCap })}
+            </div>
+            <table className="w-full">
+              <thead>
+                <tr className={mutedClass}>
+                  <th className="py-1 text-left font-medium">{t("common.role")}</th>
+                  <th className="py-1 text-right font-medium">{t("forecast.finalScore")}</th>
+                  <th className="py-1 text-right font-medium">{t("forecast.capTime")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {projection.roleMilestones.filter(ms => ms.reachedAt || (projection.result.roleSummary.find(r => r.role === ms.role)?.rawScore ?? 0) > 0).map(ms => (
+                  <tr key={ms.role}>
+                    <td className="py-1">{nameOf(ms.role)}</td>
+                    <td className="py-1 text-right">{(projection.result.roleSummary.find(r => r.role === ms.role)?.score ?? 0).toFixed(4)} / {ms.cap}</td>
+                    <td className={`py-1 text-right ${ms.reachedAt ? reachedClass(ms.projected) : mutedClass}`}>
+                      {ms.reachedAt
+                        ? `${t(ms.projected ? "forecast.roleProjected" : "forecast.roleReached", { ym: ms.reachedAt })}${ms.capGroup !== null ? t("forecast.byCombo", { group: groupName(projection.result.policy, projection.result.policy.capGroups[ms.capGroup]) }) : ''}`
+                        : t("forecast.roleNotReached")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* 目标测算 */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className={labelClass}>{t("forecast.goalTitle")}</label>
+            <SegmentedControl
+              options={(Object.keys(GOAL_SCOPE_LABELS) as GoalScope[]).map(scope => [scope, t(GOAL_SCOPE_LABELS[scope])] as const)}
+              value={goalScope}
+              onChange={setGoalScope}
+              isDarkMode={isDarkMode}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <select className={`${selectClass} flex-1`} value={goalRole} onChange={e => setGoalRole(e.target.value)}>
+              {policy.roles.map(r => <option key={r.code} value={r.code}>{nameOf(r.code)}</option>)}
+            </select>
+            <Input className={`${inputClass} w-24`} type="number" value={goalTarget} onChange={e => setGoalTarget(e.target.value)} title={t("forecast.target")} />
+            <Button variant="outline" size="sm" onClick={handleGoal} className={outlineClass}>{busy === "goal" ? t("forecast.solving") : t("forecast.solve")}</Button>
+          </div>
+          {goal && (
+            <div className={`text-xs ${goal.answer ? (isDarkMode ? 'text-gray-200' : 'text-gray-700') : (isDarkMode ? 'text-amber-300' : 'text-amber-700')}`}>
+              {goalText(goal)}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className={`p-3 rounded-xl border text-xs ${isDarkMode ? 'bg-red-900/20 border-red-800 text-red-400' : 'bg-red-50 border-red-200 text-red-600'}`}>
+            {error}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
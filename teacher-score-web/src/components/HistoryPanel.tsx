@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { CalculationResult } from "@/lib/engine";
+import { roleName } from "@/lib/policy";
+import { getLang, t } from "@/lib/i18n";
+import { calcMethodLabel } from "@/lib/report";
+import type { HistoryRecord } from "@/lib/storage";
+
+interface HistoryPanelProps {
+  records: HistoryRecord[];
+  onDelete: (id: string) => void;
+  /** 当前这次计算的结果，与选中的历史记录并排对照 */
+  current: CalculationResult | null;
+  isDarkMode: boolean;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString(getLang(), { hour12: false });
+}
+
+export function HistoryPanel({ records, onDelete, current, isDarkMode }: HistoryPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [teacherIdx, setTeacherIdx] = useState(0);
+
+  const selected = records.find(r => r.id === selectedId) ?? null;
+  const past = selected?.teachers[Math.min(teacherIdx, selected.teachers.length - 1)]?.result ?? null;
+  // 两次计算的岗位可能不同，按两边出现过的岗位取并集
+  const roles = [...new Set([...(past?.roleSummary ?? []), ...(current?.roleSummary ?? [])].filter(r => r.rawScore > 0 || r.score > 0).map(r => r.role))];
+  const scoreOf = (result: CalculationResult | null, role: string) => result?.roleSummary.find(r => r.role === role)?.score;
+  const fmt = (n: number | undefined) => n === undefined ? "—" : n.toFixed(4);
+  const ruleOf = (result: CalculationResult) => `${result.policy.version} · ${calcMethodLabel(result.options)}`;
+
+  const select = (id: string) => {
+    setSelectedId(id === selectedId ? null : id);
+    setTeacherIdx(0);
+  };
+
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const cellClass = "py-1 text-right";
+
+  return (
+    <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gray-800/50 border-gray-700 backdrop-blur-sm' : 'bg-white/70 border-gray-200 backdrop-blur-sm'}`}>
+      <CardHeader className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <CardTitle className={`flex items-center text-base ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          <div className={`p-1.5 rounded-lg mr-2 ${isDarkMode ? 'bg-gray-600' : 'bg-gray-500'}`}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" />
+            </svg>
+          </div>
+          {t("history.title")}
+        </CardTitle>
+        <CardDescription className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+          {t("history.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 space-y-3">
+        {records.length === 0 ? (
+          <p className={`text-xs ${mutedClass}`}>{t("history.empty")}</p>
+        ) : (
+          <div className="max-h-[220px] overflow-y-auto">
+            <ul className="space-y-1">
+              {records.map(r => (
+                <li
+                  key={r.id}
+                  onClick={() => select(r.id)}
+                  className={`flex items-center justify-between p-2 rounded-lg text-xs cursor-pointer transition-colors ${
+                    r.id === selectedId
+                      ? (isDarkMode ? 'bg-blue-900/40 text-blue-200' : 'bg-blue-100 text-blue-900')
+                      : (isDarkMode ? 'bg-gray-700/50 text-gray-200 hover:bg-gray-700' : 'bg-gray-50 text-gray-700 hover:bg-gray-100')
+                  }`}
+                >
+                  <div>
+                    <div className="font-medium">{r.label}</div>
+                    <div className={mutedClass}>
+                      {formatTime(r.createdAt)} · {r.teachers[0]?.result.policy.version}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {r.teachers.length === 1 && <span className="font-bold">{r.teachers[0].result.totalScore.toFixed(4)}</span>}
+                    <Button variant="ghost" size="sm" className="h-7 px-2 text-red-500" onClick={e => { e.stopPropagation(); onDelete(r.id); }} title={t("common.delete")}>✕</Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {selected && past && (
+          <div className={`p-3 rounded-xl space-y-2 text-xs ${isDarkMode ? 'bg-gray-700/50 text-gray-200' : 'bg-blue-50 text-gray-700'}`}>
+            {selected.teachers.length > 1 && (
+              <select
+                className={`h-8 w-full rounded-md border px-2 text-xs ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`}
+                value={teacherIdx}
+                onChange={e => setTeacherIdx(Number(e.target.value))}
+              >
+                {selected.teachers.map((t, idx) => <option key={t.teacher} value={idx}>{t.teacher}</option>)}
+              </select>
+            )}
+            <table className="w-full">
+              <thead>
+                <tr className={mutedClass}>
+                  <th className="py-1 text-left font-medium">{t("common.role")}</th>
+                  <th className={`${cellClass} font-medium`}>{t("history.past", { time: formatTime(selected.createdAt) })}</th>
+                  <th className={`${cellClass} font-medium`}>{t("history.current")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {roles.map(role => (
+                  <tr key={role}>
+                    <td className="py-1">{roleName(current?.policy ?? past.policy, role)}</td>
+                    <td className={cellClass}>{fmt(scoreOf(past, role))}</td>
+                    <td className={cellClass}>{fmt(scoreOf(current, role))}</td>
+                  </tr>
+                ))}
+                <tr className="font-bold">
+                  <td className="py-1">{t("common.total")}</td>
+                  <td className={cellClass}>{past.totalScore.toFixed(4)}</td>
+                  <td className={cellClass}>{current ? current.totalScore.toFixed(4) : "—"}</td>
+                </tr>
+                <tr className={mutedClass}>
+                  <td className="py-1">{t("common.policy")}</td>
+                  <td className={cellClass}>{ruleOf(past)}</td>
+                  <td className={cellClass}>{current ? ruleOf(current) : "—"}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,47 @@
+import type { MergeSuggestion } from "@/lib/normalize";
+import { roleName, type ScoringPolicy } from "@/lib/policy";
+import { t } from "@/lib/i18n";
+
+export interface PendingMerge { key: string; teacher: string; suggestion: MergeSuggestion; }
+
+interface MergeReviewProps {
+  merges: PendingMerge[];
+  rejected: Set<string>;
+  onToggle: (key: string) => void;
+  policy: ScoringPolicy;
+  isDarkMode: boolean;
+}
+
+export function MergeReview({ merges, rejected, onToggle, policy, isDarkMode }: MergeReviewProps) {
+  if (!merges.length) return null;
+
+  return (
+    <div className={`p-3 rounded-xl border space-y-2 ${isDarkMode ? 'bg-amber-900/20 border-amber-800 text-amber-300' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+      <p className="text-sm font-medium">{t("merge.title", { count: merges.length })}</p>
+      <p className="text-xs">{t("merge.description")}</p>
+      <ul className="space-y-2">
+        {merges.map(({ key, teacher, suggestion }) => {
+          const accepted = !rejected.has(key);
+          return (
+            <li key={key} className={`p-2 rounded-lg text-xs ${isDarkMode ? 'bg-gray-800/50' : 'bg-white'}`}>
+              <div className="flex items-center justify-between">
+                <span className="font-medium">
+                  {teacher && `${teacher} · `}{t("merge.item", { role: roleName(policy, suggestion.role), kind: t(`mergeKind.${suggestion.kind}`) })}
+                </span>
+                <label className="flex items-center cursor-pointer">
+                  <input type="checkbox" className="mr-1" checked={accepted} onChange={() => onToggle(key)} />
+                  {accepted ? t("merge.accept") : t("merge.keep")}
+                </label>
+              </div>
+              <div className={`mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                {suggestion.sources.map(s => `${s.start} ~ ${s.end}`).join(t("common.clauseSeparator"))}
+                {' → '}
+                <span className={isDarkMode ? 'text-gray-200' : 'text-gray-900'}>{suggestion.merged.start} ~ {suggestion.merged.end}</span>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
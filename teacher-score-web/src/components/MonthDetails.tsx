@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { VirtualList } from "@/components/VirtualList";
+import type { CalculationResult, MonthDetail } from "@/lib/engine";
+import {
+  academicYearLabel, filterMonths, groupByAcademicYear, isZeroOrCapEvent, NO_MONTH_FILTER, summarizeByAcademicYear, type MonthFilter,
+} from "@/lib/academicYear";
+import { explainTrace, isNotable } from "@/lib/explain";
+import { findRole, roleName } from "@/lib/policy";
+import { t } from "@/lib/i18n";
+
+interface MonthDetailsProps {
+  result: CalculationResult;
+  isDarkMode: boolean;
+}
+
+type DetailRow = { kind: "year"; year: number; shown: number } | { kind: "month"; month: MonthDetail };
+
+const rowKey = (row: DetailRow) => row.kind === "year" ? `y${row.year}` : `m${row.month.ym}`;
+
+// 估计行高（像素），渲染后按实际高度修正
+const YEAR_ROW_HEIGHT = 76;
+const MONTH_BASE_HEIGHT = 60;
+const LINE_HEIGHT = 22;
+
+/** 逐月权重分配明细：按学年分组并给出各岗位小计，可按岗位、学年范围和封顶事件筛选 */
+export function MonthDetails({ result, isDarkMode }: MonthDetailsProps) {
+  const { policy } = result;
+  const [selected, setFilter] = useState<MonthFilter>(NO_MONTH_FILTER);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+
+  const roles = policy.roles.filter(r => result.monthDetails.some(m => m.trace.some(tr => tr.role === r.code)));
+  // 重新计算后所选岗位可能已不在结果中，此时不按岗位筛选
+  const filter = roles.some(r => r.code === selected.role) ? selected : { ...selected, role: null };
+
+  // 小计按整个学年计算，不受筛选影响
+  const summaries = new Map(summarizeByAcademicYear(result).map(s => [s.year, s]));
+  const years = [...summaries.keys()];
+  const groups = groupByAcademicYear(filterMonths(result.monthDetails, filter));
+  const shownMonths = groups.reduce((n, g) => n + g.details.length, 0);
+
+  const rows: DetailRow[] = groups.flatMap(g => [
+    { kind: "year" as const, year: g.year, shown: g.details.length },
+    ...(collapsed.has(g.year) ? [] : g.details.map(month => ({ kind: "month" as const, month }))),
+  ]);
+
+  const toggleYear = (year: number) => {
+    const next = new Set(collapsed);
+    if (next.has(year)) next.delete(year);
+    else next.add(year);
+    setCollapsed(next);
+  };
+
+  const roleColor = (role: string) => findRole(policy, role)?.color ?? "bg-gray-400";
+  const visibleRole = (role: string) => filter.role === null || filter.role === role;
+
+  const estimateHeight = (index: number) => {
+    const row = rows[index];
+    if (row.kind === "year") return YEAR_ROW_HEIGHT;
+    const notes = row.month.trace.filter(tr => visibleRole(tr.role) && isNotable(tr)).length;
+    const lines = row.month.allocations.filter(a => visibleRole(a.role)).length + notes;
+    return MONTH_BASE_HEIGHT + lines * LINE_HEIGHT;
+  };
+
+  const renderYear = (year: number, shown: number) => {
+    const summary = summaries.get(year);
+    const isCollapsed = collapsed.has(year);
+    const gains = Object.entries(summary?.roleGains ?? {}).filter(([role]) => visibleRole(role));
+    return (
+      <div className="pb-3">
+        <button
+          onClick={() => toggleYear(year)}
+          className={`w-full text-left p-3 rounded-xl border border-dashed ${isDarkMode ? 'border-gray-600 hover:bg-gray-700/50' : 'border-gray-300 hover:bg-gray-50'}`}
+        >
+          <div className="flex items-center justify-between">
+            <span className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+              {isCollapsed ? "▸" : "▾"} {academicYearLabel(year)}
+            </span>
+            <span className={`text-xs font-medium ${isDarkMode ? 'text-green-400' : 'text-green-600'}`}>
+              +{(summary?.total ?? 0).toFixed(4)}
+            </span>
+          </div>
+          <div className={`mt-1 flex flex-wrap gap-x-3 gap-y-1 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            <span>{t("monthDetails.monthsShown", { shown, months: summary?.months ?? shown })}</span>
+            {gains.map(([role, gain]) => (
+              <span key={role} className="flex items-center">
+                <span className={`w-2 h-2 rounded-full mr-1 ${roleColor(role)}`}></span>
+                {roleName(policy, role)} +{gain.toFixed(4)}
+              </span>
+            ))}
+          </div>
+        </button>
+      </div>
+    );
+  };
+
+  const renderMonth = (m: MonthDetail) => {
+    const notes = m.trace.filter(tr => visibleRole(tr.role) && isNotable(tr));
+    return (
+      <div className="pb-3 pl-3">
+        <div className={`p-3 rounded-xl transition-colors duration-300 ${isDarkMode ? 'bg-gray-700/30 hover:bg-gray-700/50' : 'bg-gray-50 hover:bg-gray-100'}`}>
+          <div className={`text-sm font-medium mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+            📅 {m.ym}
+          </div>
+          <div className="space-y-1.5">
+            {m.allocations.map((a, idx) => {
+              if (!visibleRole(a.role)) return null;
+              const trace = m.trace.find(tr => tr.slot === idx + 1);
+              return (
+                <div key={idx} className="flex items-center justify-between" title={trace ? explainTrace(trace, policy) : undefined}>
+                  <div className="flex items-center">
+                    <div className={`w-2 h-2 rounded-full mr-2 ${roleColor(a.role)}`}></div>
+                    <span className={`text-xs ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                      {roleName(policy, a.role)}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-1.5">
+                    <span className={`text-xs px-1.5 py-0.5 rounded-full ${isDarkMode ? 'bg-blue-900/30 text-blue-400' : 'bg-blue-100 text-blue-800'}`}>
+                      {Math.round(a.weight * 100)}%
+                    </span>
+                    <span className={`text-xs font-medium ${isDarkMode ? 'text-green-400' : 'text-green-600'}`}>
+                      +{a.gain.toFixed(4)}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          {/* 计分依据：得分受限、未得分或基准分档位变化 */}
+          {notes.length > 0 && (
+            <ul className={`mt-2 pt-2 space-y-1 border-t text-xs ${isDarkMode ? 'border-gray-600 text-amber-300' : 'border-gray-200 text-amber-700'}`}>
+              {notes.map((tr, idx) => (
+                <li key={idx} className={filter.zeroOrCapOnly && isZeroOrCapEvent(tr) ? 'font-medium' : undefined}>ℹ️ {explainTrace(tr, policy)}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderRow = (index: number) => {
+    const row = rows[index];
+    return row.kind === "year" ? renderYear(row.year, row.shown) : renderMonth(row.month);
+  };
+
+  const selectClass = `h-8 rounded-md border px-2 text-xs ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`;
+  const labelClass = `text-xs ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+  const outlineClass = `h-8 text-xs ${isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`;
+  const yearValue = (value: string) => value === "" ? null : Number(value);
+
+  return (
+    <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gray-800/50 border-gray-700 backdrop-blur-sm' : 'bg-white/70 border-gray-200 backdrop-blur-sm'}`}>
+      <CardHeader className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <CardTitle className={`flex items-center text-base ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          <div className={`p-1.5 rounded-lg mr-2 ${isDarkMode ? 'bg-indigo-600' : 'bg-indigo-500'}`}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M3 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z" clipRule="evenodd" />
+            </svg>
+          </div>
+          {t("app.monthDetails")}
+        </CardTitle>
+        <CardDescription className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+          {t("app.monthDetailsHint")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className={`p-4 flex flex-wrap items-center gap-2 border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          <select className={selectClass} value={filter.role ?? ""} onChange={e => setFilter({ ...filter, role: e.target.value || null })}>
+            <option value="">{t("monthDetails.allRoles")}</option>
+            {roles.map(r => <option key={r.code} value={r.code}>{roleName(policy, r.code)}</option>)}
+          </select>
+          <select className={selectClass} value={filter.fromYear ?? ""} onChange={e => setFilter({ ...filter, fromYear: yearValue(e.target.value) })}>
+            <option value="">{t("monthDetails.fromYear")}</option>
+            {years.map(y => <option key={y} value={y}>{academicYearLabel(y)}</option>)}
+          </select>
+          <span className={labelClass}>—</span>
+          <select className={selectClass} value={filter.toYear ?? ""} onChange={e => setFilter({ ...filter, toYear: yearValue(e.target.value) })}>
+            <option value="">{t("monthDetails.toYear")}</option>
+            {years.map(y => <option key={y} value={y}>{academicYearLabel(y)}</option>)}
+          </select>
+          <label className={`flex items-center gap-1.5 ${labelClass}`}>
+            <input type="checkbox" checked={filter.zeroOrCapOnly} onChange={e => setFilter({ ...filter, zeroOrCapOnly: e.target.checked })} />
+            {t("monthDetails.zeroOrCapOnly")}
+          </label>
+          <div className="ml-auto flex items-center gap-2">
+            <Button variant="outline" size="sm" className={outlineClass} onClick={() => setCollapsed(new Set())}>{t("monthDetails.expandAll")}</Button>
+            <Button variant="outline" size="sm" className={outlineClass} onClick={() => setCollapsed(new Set(years))}>{t("monthDetails.collapseAll")}</Button>
+          </div>
+          <p className={`w-full text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {t("monthDetails.summary", { shown: shownMonths, total: result.monthDetails.length, years: groups.length })}
+          </p>
+        </div>
+        {rows.length ? (
+          <VirtualList
+            className="h-[300px] lg:h-[400px] p-4"
+            count={rows.length}
+            itemKey={i => rowKey(rows[i])}
+            estimateHeight={estimateHeight}
+            renderItem={renderRow}
+          />
+        ) : (
+          <p className={`p-4 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{t("monthDetails.noMatch")}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { orderingOf, type CalculationResult } from "@/lib/engine";
+import type { OrderingStrategy } from "@/lib/ordering";
+import { roleName } from "@/lib/policy";
+import { createTaskRunner, type TaskRunner } from "@/lib/taskRunner";
+import { t } from "@/lib/i18n";
+
+interface OrderingComparisonProps {
+  result: CalculationResult;
+  isDarkMode: boolean;
+}
+
+type Compared = { ordering: OrderingStrategy; result: CalculationResult }[];
+
+export function OrderingComparison({ result, isDarkMode }: OrderingComparisonProps) {
+  const [source, setSource] = useState(result);
+  const [compared, setCompared] = useState<Compared | null>(null);
+  const [percent, setPercent] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const runnerRef = useRef<TaskRunner | null>(null);
+
+  // 搜索排序需要逐月搜索，放在 Worker 中进行
+  useEffect(() => {
+    const runner = createTaskRunner();
+    runnerRef.current = runner;
+    return () => runner.dispose();
+  }, []);
+
+  // 换了计算结果时，正在进行的对比随之作废
+  useEffect(() => () => runnerRef.current?.cancel(), [result]);
+
+  // 换了计算结果时，旧的对比不再对应
+  if (source !== result) {
+    setSource(result);
+    setCompared(null);
+    setError(null);
+  }
+
+  const handleRun = async () => {
+    const runner = runnerRef.current;
+    if (!runner) return;
+    setPercent(0);
+    try {
+      const next = await runner.run(
+        { kind: "compare", entries: result.entries, policy: result.policy, options: result.options },
+        done => setPercent(Math.round(done * 100)),
+      );
+      if (next) {
+        setCompared(next);
+        setError(null);
+      }
+    } catch (e) {
+      setCompared(null);
+      setError((e as Error).message);
+    }
+    setPercent(null);
+  };
+
+  const current = orderingOf(result.options);
+  const currentTotal = compared?.find(c => c.ordering === current)?.result.totalScore ?? result.totalScore;
+  const bestTotal = compared ? Math.max(...compared.map(c => c.result.totalScore)) : 0;
+  const roles = result.policy.roles.map(r => r.code).filter(role =>
+    compared?.some(c => c.result.roleSummary.some(r => r.role === role && r.rawScore > 0)));
+  const scoreOf = (r: CalculationResult, role: string) => r.roleSummary.find(s => s.role === role)?.score ?? 0;
+
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const bestClass = isDarkMode ? 'text-green-400 font-bold' : 'text-green-600 font-bold';
+
+  return (
+    <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gray-800/50 border-gray-700 backdrop-blur-sm' : 'bg-white/70 border-gray-200 backdrop-blur-sm'}`}>
+      <CardHeader className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <CardTitle className={`flex items-center text-base ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          <div className={`p-1.5 rounded-lg mr-2 ${isDarkMode ? 'bg-amber-600' : 'bg-amber-500'}`}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+              <path d="M5 12a1 1 0 102 0V6.414l1.293 1.293a1 1 0 001.414-1.414l-3-3a1 1 0 00-1.414 0l-3 3a1 1 0 001.414 1.414L5 6.414V12zM15 8a1 1 0 10-2 0v5.586l-1.293-1.293a1 1 0 00-1.414 1.414l3 3a1 1 0 001.414 0l3-3a1 1 0 00-1.414-1.414L15 13.586V8z" />
+            </svg>
+          </div>
+          {t("compare.title")}
+        </CardTitle>
+        <CardDescription className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+          {t("compare.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 space-y-3">
+        <Button
+          size="sm"
+          onClick={handleRun}
+          disabled={percent !== null}
+          className={`${isDarkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white`}
+        >
+          {percent !== null ? t("compare.running", { percent }) : t("compare.run")}
+        </Button>
+
+        {error && <div className={`text-xs ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</div>}
+
+        {compared && (
+          <div className={`p-3 rounded-xl overflow-x-auto text-xs ${isDarkMode ? 'bg-gray-700/50 text-gray-200' : 'bg-blue-50 text-gray-700'}`}>
+            <table className="w-full">
+              <thead>
+                <tr className={mutedClass}>
+                  <th className="py-1 text-left font-medium">{t("common.role")}</th>
+                  {compared.map(c => (
+                    <th key={c.ordering} className="py-1 text-right font-medium">
+                      {t(`ordering.${c.ordering}`)}{c.ordering === current && t("compare.current")}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {roles.map(role => (
+                  <tr key={role}>
+                    <td className="py-1">{roleName(result.policy, role)}</td>
+                    {compared.map(c => <td key={c.ordering} className="py-1 text-right">{scoreOf(c.result, role).toFixed(4)}</td>)}
+                  </tr>
+                ))}
+                <tr className="font-medium">
+                  <td className="py-1">{t("common.total")}</td>
+                  {compared.map(c => (
+                    <td key={c.ordering} className={`py-1 text-right ${c.result.totalScore >= bestTotal - 1e-9 ? bestClass : ''}`}>
+                      {c.result.totalScore.toFixed(4)}
+                    </td>
+                  ))}
+                </tr>
+                <tr className={mutedClass}>
+                  <td className="py-1">{t("export.rawTotal")}</td>
+                  {compared.map(c => <td key={c.ordering} className="py-1 text-right">{c.result.rawTotal.toFixed(4)}</td>)}
+                </tr>
+                <tr className={mutedClass}>
+                  <td className="py-1">{t("export.totalCapMonth")}</td>
+                  {compared.map(c => <td key={c.ordering} className="py-1 text-right">{c.result.totalCapReachedAt ?? "—"}</td>)}
+                </tr>
+                <tr className={mutedClass}>
+                  <td className="py-1"></td>
+                  {compared.map(c => {
+                    const delta = c.result.totalScore - currentTotal;
+                    return (
+                      <td key={c.ordering} className="py-1 text-right">
+                        {c.ordering === current || Math.abs(delta) < 1e-9 ? "" : t("compare.delta", { delta: `${delta > 0 ? "+" : ""}${delta.toFixed(4)}` })}
+                      </td>
+                    );
+                  })}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
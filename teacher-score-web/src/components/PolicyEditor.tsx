@@ -0,0 +1,306 @@
+import { useState, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { downloadFile } from "@/lib/utils";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import { DEFAULT_POLICY, ROLE_COLORS, TOTAL_CAP_RULES, parsePolicy, type ScoringPolicy, type TotalCapRule } from "@/lib/policy";
+import { t } from "@/lib/i18n";
+
+interface RoleDraft { name: string; code: string; aliases: string; cap: string; tiers: string; color: string; }
+interface GroupDraft { name: string; roles: string[]; cap: string; }
+interface PolicyDraft { version: string; weights: string; totalCap: string; totalCapRule: TotalCapRule; groups: GroupDraft[]; roles: RoleDraft[]; }
+
+// 档位以「起始月:年基准分」书写，多个档位用逗号分隔，如 "0:1, 72:1.5"；别名同样用逗号或顿号分隔
+// 合计封顶组的成员按岗位代码记录
+function toDraft(policy: ScoringPolicy): PolicyDraft {
+  return {
+    version: policy.version,
+    weights: policy.weights.join(", "),
+    totalCap: String(policy.totalCap),
+    totalCapRule: policy.totalCapRule,
+    groups: policy.capGroups.map(g => ({ name: g.name, roles: [...g.roles], cap: String(g.cap) })),
+    roles: policy.roles.map(r => ({
+      name: r.name,
+      code: r.code,
+      aliases: r.aliases.join(", "),
+      cap: String(r.cap),
+      tiers: r.tiers.map(t => `${t.fromMonth}:${t.baseline}`).join(", "),
+      color: r.color,
+    })),
+  };
+}
+
+function fromDraft(draft: PolicyDraft): ScoringPolicy {
+  const splitList = (s: string) => s.split(/[,，\s]+/).filter(Boolean);
+  return parsePolicy({
+    version: draft.version,
+    weights: splitList(draft.weights).map(Number),
+    totalCap: Number(draft.totalCap),
+    totalCapRule: draft.totalCapRule,
+    capGroups: draft.groups.map(g => ({ name: g.name, roles: g.roles.filter(r => draft.roles.some(d => d.code.trim() === r)), cap: Number(g.cap) })),
+    roles: draft.roles.map(r => ({
+      name: r.name,
+      code: r.code,
+      aliases: r.aliases.split(/[,，、]+/),
+      cap: Number(r.cap),
+      color: r.color,
+      tiers: splitList(r.tiers).map(t => {
+        const [fromMonth, baseline] = t.split(/[:：]/).map(Number);
+        return { fromMonth, baseline };
+      }),
+    })),
+  });
+}
+
+interface PolicyEditorProps {
+  policy: ScoringPolicy;
+  onChange: (policy: ScoringPolicy) => void;
+  isDarkMode: boolean;
+}
+
+export function PolicyEditor({ policy, onChange, isDarkMode }: PolicyEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<PolicyDraft>(() => toDraft(policy));
+  const [error, setError] = useState<string|null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // 规则从外部替换（如打开分享链接）时，编辑中的草稿随之更新
+  const [source, setSource] = useState(policy);
+  if (policy !== source) {
+    setSource(policy);
+    setDraft(toDraft(policy));
+  }
+
+  const inputClass = `h-8 text-xs ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`;
+  const labelClass = `text-xs font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+
+  const apply = (next: ScoringPolicy) => {
+    setDraft(toDraft(next));
+    setError(null);
+    onChange(next);
+  };
+
+  const handleApply = () => {
+    try {
+      apply(fromDraft(draft));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      apply(parsePolicy(JSON.parse(await file.text())));
+    } catch (e) {
+      setError(e instanceof SyntaxError ? t("policyEditor.jsonError", { message: e.message }) : (e as Error).message);
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(JSON.stringify(policy, null, 2), t("policyEditor.fileName", { version: policy.version }), 'application/json;charset=utf-8;');
+  };
+
+  const updateRole = (idx: number, patch: Partial<RoleDraft>) => {
+    setDraft(d => ({ ...d, roles: d.roles.map((r, i) => i === idx ? { ...r, ...patch } : r) }));
+  };
+
+  const addRole = () => {
+    setDraft(d => ({
+      ...d,
+      roles: [...d.roles, { name: "", code: "", aliases: "", cap: "15", tiers: "0:1", color: ROLE_COLORS[d.roles.length % ROLE_COLORS.length] }],
+    }));
+  };
+
+  // 岗位的先后即固定优先级排序时的顺序
+  const moveRoleUp = (idx: number) => {
+    setDraft(d => ({ ...d, roles: d.roles.map((r, i) => i === idx - 1 ? d.roles[idx] : i === idx ? d.roles[idx - 1] : r) }));
+  };
+
+  const removeRole = (idx: number) => {
+    setDraft(d => ({ ...d, roles: d.roles.filter((_, i) => i !== idx) }));
+  };
+
+  const updateGroup = (idx: number, patch: Partial<GroupDraft>) => {
+    setDraft(d => ({ ...d, groups: d.groups.map((g, i) => i === idx ? { ...g, ...patch } : g) }));
+  };
+
+  const toggleGroupRole = (idx: number, code: string) => {
+    const { roles } = draft.groups[idx];
+    updateGroup(idx, { roles: roles.includes(code) ? roles.filter(r => r !== code) : [...roles, code] });
+  };
+
+  const addGroup = () => {
+    setDraft(d => ({ ...d, groups: [...d.groups, { name: "", roles: [], cap: "15" }] }));
+  };
+
+  const removeGroup = (idx: number) => {
+    setDraft(d => ({ ...d, groups: d.groups.filter((_, i) => i !== idx) }));
+  };
+
+  return (
+    <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gray-800/50 border-gray-700 backdrop-blur-sm' : 'bg-white/70 border-gray-200 backdrop-blur-sm'}`}>
+      <CardHeader className={`${isOpen ? 'border-b' : ''} ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <div className="flex items-center justify-between">
+          <CardTitle className={`flex items-center text-base ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+            <div className={`p-1.5 rounded-lg mr-2 ${isDarkMode ? 'bg-amber-600' : 'bg-amber-500'}`}>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M11.49 3.17c-.38-1.56-2.6-1.56-2.98 0a1.532 1.532 0 01-2.286.948c-1.372-.836-2.942.734-2.106 2.106.54.886.061 2.042-.947 2.287-1.561.379-1.561 2.6 0 2.978a1.532 1.532 0 01.947 2.287c-.836 1.372.734 2.942 2.106 2.106a1.532 1.532 0 012.287.947c.379 1.561 2.6 1.561 2.978 0a1.533 1.533 0 012.287-.947c1.372.836 2.942-.734 2.106-2.106a1.533 1.533 0 01.947-2.287c1.561-.379 1.561-2.6 0-2.978a1.532 1.532 0 01-.947-2.287c.836-1.372-.734-2.942-2.106-2.106a1.532 1.532 0 01-2.287-.947zM10 13a3 3 0 100-6 3 3 0 000 6z" clipRule="evenodd" />
+              </svg>
+            </div>
+            {t("policyEditor.title")}
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsOpen(!isOpen)}
+            className={isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}
+          >
+            {isOpen ? t("common.collapse") : t("common.edit")}
+          </Button>
+        </div>
+        <CardDescription className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+          {t("policyEditor.currentVersion", { version: policy.version })}
+        </CardDescription>
+      </CardHeader>
+
+      {isOpen && (
+        <>
+          <CardContent className="p-4 space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2 space-y-1">
+                <label className={labelClass}>{t("policyEditor.version")}</label>
+                <Input className={inputClass} value={draft.version} onChange={e => setDraft({ ...draft, version: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t("policyEditor.weights")}</label>
+                <Input className={inputClass} value={draft.weights} onChange={e => setDraft({ ...draft, weights: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t("policyEditor.totalCap")}</label>
+                <Input className={inputClass} type="number" value={draft.totalCap} onChange={e => setDraft({ ...draft, totalCap: e.target.value })} />
+              </div>
+              <div className="col-span-2 flex items-center justify-between">
+                <label className={labelClass}>{t("policyEditor.totalCapRule")}</label>
+                <SegmentedControl
+                  options={TOTAL_CAP_RULES.map(r => [r, t(`totalCapRule.${r}`)] as const)}
+                  value={draft.totalCapRule}
+                  onChange={totalCapRule => setDraft({ ...draft, totalCapRule })}
+                  isDarkMode={isDarkMode}
+                />
+              </div>
+            </div>
+
+            {/* 岗位列表 */}
+            <div className="space-y-2">
+              <div className={`grid grid-cols-[1fr_4.5rem_3.5rem_1fr_1fr_2rem_2rem] gap-2 ${labelClass}`}>
+                <span>{t("common.role")}</span><span>{t("policyEditor.code")}</span><span>{t("policyEditor.cap")}</span>
+                <span>{t("policyEditor.tiers")}</span><span>{t("policyEditor.aliases")}</span><span></span><span></span>
+              </div>
+              {draft.roles.map((r, idx) => (
+                <div key={idx} className="grid grid-cols-[1fr_4.5rem_3.5rem_1fr_1fr_2rem_2rem] gap-2 items-center">
+                  <div className="flex items-center">
+                    <div className={`w-2 h-2 rounded-full mr-2 flex-shrink-0 ${r.color}`}></div>
+                    <Input className={inputClass} value={r.name} onChange={e => updateRole(idx, { name: e.target.value })} />
+                  </div>
+                  <Input className={inputClass} value={r.code} onChange={e => updateRole(idx, { code: e.target.value })} />
+                  <Input className={inputClass} type="number" value={r.cap} onChange={e => updateRole(idx, { cap: e.target.value })} />
+                  <Input className={inputClass} value={r.tiers} onChange={e => updateRole(idx, { tiers: e.target.value })} />
+                  <Input className={inputClass} value={r.aliases} onChange={e => updateRole(idx, { aliases: e.target.value })} />
+                  <Button variant="ghost" size="sm" className="h-8 px-2" disabled={idx === 0} onClick={() => moveRoleUp(idx)} title={t("editor.moveUp")}>↑</Button>
+                  <Button variant="ghost" size="sm" className="h-8 px-2 text-red-500" onClick={() => removeRole(idx)} title={t("policyEditor.removeRole")}>✕</Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addRole}
+                className={isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}
+              >
+                {t("policyEditor.addRole")}
+              </Button>
+              <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{t("policyEditor.priorityHint")}</p>
+            </div>
+
+            {/* 合计封顶组 */}
+            <div className="space-y-2">
+              <span className={labelClass}>{t("policyEditor.capGroups")}</span>
+              {draft.groups.map((g, idx) => (
+                <div key={idx} className={`p-3 rounded-xl space-y-2 ${isDarkMode ? 'bg-gray-700/50' : 'bg-blue-50'}`}>
+                  <div className="grid grid-cols-[1fr_5rem_2rem] gap-2 items-center">
+                    <Input className={inputClass} value={g.name} placeholder={t("policyEditor.groupNamePlaceholder")} onChange={e => updateGroup(idx, { name: e.target.value })} />
+                    <Input className={inputClass} type="number" value={g.cap} title={t("policyEditor.groupCap")} onChange={e => updateGroup(idx, { cap: e.target.value })} />
+                    <Button variant="ghost" size="sm" className="h-8 px-2 text-red-500" onClick={() => removeGroup(idx)} title={t("policyEditor.removeGroup")}>✕</Button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {draft.roles.filter(r => r.code.trim()).map(r => (
+                      <label key={r.code} className={`flex items-center text-xs ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+                        <input type="checkbox" className="mr-1" checked={g.roles.includes(r.code.trim())} onChange={() => toggleGroupRole(idx, r.code.trim())} />
+                        {r.name || r.code}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addGroup}
+                className={isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}
+              >
+                {t("policyEditor.addGroup")}
+              </Button>
+              <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{t("policyEditor.groupHint")}</p>
+            </div>
+
+            {error && (
+              <div className={`p-3 rounded-xl border text-xs ${isDarkMode ? 'bg-red-900/20 border-red-800 text-red-400' : 'bg-red-50 border-red-200 text-red-600'}`}>
+                {error}
+              </div>
+            )}
+          </CardContent>
+          <CardFooter className={`border-t ${isDarkMode ? 'border-gray-700 bg-gray-800/30' : 'border-gray-200 bg-gray-50/50'} p-4 gap-2 flex-wrap`}>
+            <Button size="sm" onClick={handleApply} className={`${isDarkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white`}>
+              {t("policyEditor.apply")}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => apply(DEFAULT_POLICY)}
+              className={isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}
+            >
+              {t("policyEditor.reset")}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              className={isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}
+            >
+              {t("policyEditor.importJson")}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              className={isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}
+            >
+              {t("policyEditor.exportJson")}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = "";
+              }}
+            />
+          </CardFooter>
+        </>
+      )}
+    </Card>
+  );
+}
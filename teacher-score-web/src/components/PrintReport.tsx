@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ymToIndex, type CalculationResult } from "@/lib/engine";
+import { groupName, roleName } from "@/lib/policy";
+import { t, type MessageKey } from "@/lib/i18n";
+import { calcMethodLabel } from "@/lib/report";
+import { academicYearLabel, summarizeByAcademicYear } from "@/lib/academicYear";
+import { formatMeta } from "@/lib/tabular";
+
+interface PrintReportProps {
+  result: CalculationResult;
+  /** 预填的教师姓名（档案名或批量名单中的教师） */
+  teacherName: string;
+  onClose: () => void;
+  isDarkMode: boolean;
+}
+
+interface ReportHeader { teacherName: string; employeeId: string; school: string; evaluationDate: string; }
+
+const HEADER_LABELS: [keyof ReportHeader, MessageKey][] = [
+  ["teacherName", "report.teacherName"], ["employeeId", "report.employeeId"], ["school", "report.school"], ["evaluationDate", "report.evaluationDate"],
+];
+
+// 报告按纸面排版，始终使用浅色样式，不随深色模式切换
+export function PrintReport({ result, teacherName, onClose, isDarkMode }: PrintReportProps) {
+  const [header, setHeader] = useState<ReportHeader>({
+    teacherName,
+    employeeId: "",
+    school: "",
+    evaluationDate: new Date().toISOString().split('T')[0],
+  });
+
+  const { policy, entries, options } = result;
+  const roles = policy.roles.map(r => r.code).filter(role => entries.some(e => e.role === role) || result.roleSummary.some(r => r.role === role && r.score > 0));
+  const years = summarizeByAcademicYear(result);
+  const hasMeta = entries.some(e => e.meta);
+
+  const thClass = "border border-gray-400 px-2 py-1 font-medium bg-gray-100";
+  const tdClass = "border border-gray-400 px-2 py-1";
+  const nameOf = (role: string) => roleName(policy, role);
+  const cappedLabel = (capped: boolean) => capped ? t("common.capped") : t("common.notCapped");
+
+  return (
+    <div className="print-report fixed inset-0 z-[60] overflow-auto bg-gray-100">
+      {/* 工具栏：填写表头信息，不打印 */}
+      <div className={`no-print sticky top-0 border-b ${isDarkMode ? 'bg-gray-900 border-gray-700' : 'bg-white border-gray-200'}`}>
+        <div className="max-w-4xl mx-auto px-6 py-3 flex flex-wrap items-end gap-3">
+          {HEADER_LABELS.map(([field, label]) => (
+            <label key={field} className={`text-xs space-y-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+              <span>{t(label)}</span>
+              <Input
+                type={field === "evaluationDate" ? "date" : "text"}
+                className={`h-8 w-36 text-xs ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`}
+                value={header[field]}
+                onChange={e => setHeader({ ...header, [field]: e.target.value })}
+              />
+            </label>
+          ))}
+          <div className="ml-auto flex gap-2">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className={isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}
+            >
+              {t("report.back")}
+            </Button>
+            <Button onClick={() => window.print()} className={`${isDarkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white`}>
+              {t("report.print")}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* 报告正文 */}
+      <div className="report-page max-w-4xl mx-auto my-6 bg-white text-gray-900 shadow-lg p-10 space-y-6 text-sm">
+        <h1 className="text-xl font-bold text-center">{t("report.heading")}</h1>
+
+        <table className="w-full border-collapse">
+          <tbody>
+            <tr>
+              <th className={thClass}>{t("report.teacherName")}</th><td className={tdClass}>{header.teacherName}</td>
+              <th className={thClass}>{t("report.employeeId")}</th><td className={tdClass}>{header.employeeId}</td>
+            </tr>
+            <tr>
+              <th className={thClass}>{t("report.school")}</th><td className={tdClass}>{header.school}</td>
+              <th className={thClass}>{t("report.evaluationDate")}</th><td className={tdClass}>{header.evaluationDate}</td>
+            </tr>
+            <tr>
+              <th className={thClass}>{t("common.policy")}</th><td className={tdClass}>{policy.version}</td>
+              <th className={thClass}>{t("common.proration")}</th><td className={tdClass}>{calcMethodLabel(options)}</td>
+            </tr>
+          </tbody>
+        </table>
+
+        <section className="space-y-2">
+          <h2 className="font-bold">{t("report.entriesSection")}</h2>
+          <table className="w-full border-collapse text-center">
+            <thead>
+              <tr>
+                <th className={thClass}>{t("report.index")}</th><th className={thClass}>{t("common.role")}</th><th className={thClass}>{t("common.startDate")}</th>
+                <th className={thClass}>{t("common.endDate")}</th><th className={thClass}>{t("report.monthSpan")}</th>
+                {hasMeta && <th className={thClass}>{t("common.meta")}</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((e, idx) => (
+                <tr key={idx}>
+                  <td className={tdClass}>{idx + 1}</td>
+                  <td className={tdClass}>{nameOf(e.role)}</td>
+                  <td className={tdClass}>{e.start}</td>
+                  <td className={tdClass}>{e.end}</td>
+                  <td className={tdClass}>{ymToIndex(e.end) - ymToIndex(e.start) + 1}</td>
+                  {hasMeta && <td className={`${tdClass} text-left`}>{formatMeta(e.meta)}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section className="space-y-2">
+          <h2 className="font-bold">{t("report.summarySection")}</h2>
+          <table className="w-full border-collapse text-center">
+            <thead>
+              <tr><th className={thClass}>{t("common.role")}</th><th className={thClass}>{t("export.score")}</th><th className={thClass}>{t("export.cap")}</th><th className={thClass}>{t("export.status")}</th></tr>
+            </thead>
+            <tbody>
+              {result.roleSummary.filter(r => roles.includes(r.role)).map(r => (
+                <tr key={r.role}>
+                  <td className={tdClass}>{nameOf(r.role)}</td>
+                  <td className={tdClass}>{r.score.toFixed(4)}</td>
+                  <td className={tdClass}>{r.cap}</td>
+                  <td className={tdClass}>{cappedLabel(r.capped)}</td>
+                </tr>
+              ))}
+              {result.groupSummary.map(g => (
+                <tr key={`group-${g.group}`}>
+                  <td className={tdClass}>{t("app.capGroup", { name: groupName(policy, policy.capGroups[g.group]) })}</td>
+                  <td className={tdClass}>{g.used.toFixed(4)}</td>
+                  <td className={tdClass}>{g.cap}</td>
+                  <td className={tdClass}>{g.capped ? t("app.groupCappedAt", { ym: g.reachedAt ?? "" }) : cappedLabel(false)}</td>
+                </tr>
+              ))}
+              <tr className="font-bold">
+                <td className={tdClass}>{t("common.total")}</td>
+                <td className={tdClass}>{result.totalScore.toFixed(4)}</td>
+                <td className={tdClass}>{policy.totalCap}</td>
+                <td className={tdClass}>{cappedLabel(result.totalCapReachedAt !== null)}</td>
+              </tr>
+            </tbody>
+          </table>
+          {result.totalCapReachedAt && (
+            <p className="text-xs text-gray-600">
+              {t("report.totalCapNote", { raw: result.rawTotal.toFixed(4), ym: result.totalCapReachedAt, cap: policy.totalCap, rule: t(`totalCapRule.${policy.totalCapRule}`) })}
+            </p>
+          )}
+        </section>
+
+        {/* 签字栏放在正文末尾，附录另起一页 */}
+        <div className="grid grid-cols-2 gap-12 pt-10">
+          {[t("report.reviewerSignature"), t("report.teacherSignature")].map(label => (
+            <div key={label} className="space-y-6">
+              <div className="flex items-end">
+                <span className="w-36 whitespace-nowrap">{t("report.fieldLabel", { label })}</span>
+                <span className="flex-1 border-b border-gray-700"></span>
+              </div>
+              <div className="flex items-end">
+                <span className="w-36 whitespace-nowrap">{t("report.fieldLabel", { label: t("report.date") })}</span>
+                <span className="flex-1 border-b border-gray-700"></span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <section className="space-y-2 report-appendix">
+          <h2 className="font-bold">{t("report.appendix")}</h2>
+          <table className="w-full border-collapse text-center text-xs">
+            <thead>
+              <tr>
+                <th className={thClass}>{t("report.academicYear")}</th>
+                <th className={thClass}>{t("report.monthsServed")}</th>
+                {roles.map(role => <th key={role} className={thClass}>{nameOf(role)}</th>)}
+                <th className={thClass}>{t("report.yearTotal")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {years.map(y => (
+                <tr key={y.year}>
+                  <td className={tdClass}>{academicYearLabel(y.year)}</td>
+                  <td className={tdClass}>{y.months}</td>
+                  {roles.map(role => <td key={role} className={tdClass}>{y.roleGains[role] ? y.roleGains[role].toFixed(4) : "—"}</td>)}
+                  <td className={tdClass}>{y.total.toFixed(4)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { deleteProfile, listProfiles, saveProfile, type TeacherProfile } from "@/lib/storage";
+import { getLang, t } from "@/lib/i18n";
+
+interface ProfilePanelProps {
+  profileName: string;
+  onProfileNameChange: (name: string) => void;
+  /** 单人模式的岗位记录，保存为档案内容 */
+  csvText: string;
+  onOpen: (profile: TeacherProfile) => void;
+  /** 最近一次自动保存草稿的时间 */
+  draftSavedAt: string | null;
+  isDarkMode: boolean;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString(getLang(), { hour12: false });
+}
+
+export function ProfilePanel({ profileName, onProfileNameChange, csvText, onOpen, draftSavedAt, isDarkMode }: ProfilePanelProps) {
+  const [profiles, setProfiles] = useState<TeacherProfile[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setProfiles(await listProfiles());
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    listProfiles().then(setProfiles, (e: Error) => setError(e.message));
+  }, []);
+
+  const handleSave = async () => {
+    try {
+      const profile = await saveProfile(profileName, csvText);
+      onProfileNameChange(profile.name);
+      await refresh();
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const handleDelete = async (profile: TeacherProfile) => {
+    if (!window.confirm(t("profile.confirmDelete", { name: profile.name }))) return;
+    try {
+      await deleteProfile(profile.id);
+      await refresh();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const inputClass = `h-8 text-xs ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`;
+  const outlineClass = isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100';
+
+  return (
+    <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gray-800/50 border-gray-700 backdrop-blur-sm' : 'bg-white/70 border-gray-200 backdrop-blur-sm'}`}>
+      <CardHeader className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <CardTitle className={`flex items-center text-base ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          <div className={`p-1.5 rounded-lg mr-2 ${isDarkMode ? 'bg-green-600' : 'bg-green-500'}`}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z" clipRule="evenodd" />
+            </svg>
+          </div>
+          {t("profile.title")}
+        </CardTitle>
+        <CardDescription className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+          {t("profile.description")}{draftSavedAt && t("profile.draftSaved", { time: formatTime(draftSavedAt) })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex gap-2">
+          <Input className={inputClass} placeholder={t("profile.namePlaceholder")} value={profileName} onChange={e => onProfileNameChange(e.target.value)} />
+          <Button variant="outline" size="sm" onClick={handleSave} className={outlineClass}>{t("profile.save")}</Button>
+        </div>
+
+        {profiles.length > 0 ? (
+          <ul className="space-y-1">
+            {profiles.map(p => (
+              <li key={p.id} className={`flex items-center justify-between p-2 rounded-lg text-xs ${isDarkMode ? 'bg-gray-700/50 text-gray-200' : 'bg-gray-50 text-gray-700'}`}>
+                <div>
+                  <div className="font-medium">{p.name}</div>
+                  <div className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+                    {t("profile.summary", { count: p.csvText.split(/\r?\n/).filter(l => l.trim()).length, time: formatTime(p.updatedAt) })}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="outline" size="sm" className={`h-7 ${outlineClass}`} onClick={() => onOpen(p)}>{t("profile.open")}</Button>
+                  <Button variant="ghost" size="sm" className="h-7 px-2 text-red-500" onClick={() => handleDelete(p)} title={t("common.delete")}>✕</Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{t("profile.empty")}</p>
+        )}
+
+        {error && (
+          <div className={`p-3 rounded-xl border text-xs ${isDarkMode ? 'bg-red-900/20 border-red-800 text-red-400' : 'bg-red-50 border-red-200 text-red-600'}`}>
+            {error}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
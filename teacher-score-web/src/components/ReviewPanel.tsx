@@ -0,0 +1,371 @@
+import { Fragment, useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SegmentedControl } from "@/components/SegmentedControl";
+import { openEndDate, type CalcOptions, type CalculationResult } from "@/lib/engine";
+import { rowsToCsv } from "@/lib/entryRows";
+import { applyMerges, findMerges } from "@/lib/normalize";
+import { roleName, type ScoringPolicy } from "@/lib/policy";
+import {
+  approvedEntries, approvedRows, DOCUMENT_ACCEPT, statusCounts, validateDraft,
+  type DraftErrors, type ReviewDecision, type ReviewFields, type ReviewRow, type ReviewStatus, type Submission, type SubmissionDraft,
+} from "@/lib/review";
+import { createLocalReviewBackend } from "@/lib/reviewBackend";
+import { createTaskRunner, type TaskRunner } from "@/lib/taskRunner";
+import { getLang, t, type MessageKey } from "@/lib/i18n";
+
+interface ReviewPanelProps {
+  policy: ScoringPolicy;
+  options: CalcOptions;
+  /** 把已通过的记录和正式计算的结果载入主界面，csvText 为单人模式的输入 */
+  onLoad: (teacher: string, csvText: string, result: CalculationResult) => void;
+  isDarkMode: boolean;
+}
+
+type View = "submit" | "review";
+
+const STATUS_LABELS: Record<ReviewStatus, MessageKey> = { pending: "review.statusPending", approved: "review.statusApproved", rejected: "review.statusRejected" };
+
+const ACTION_LABELS: Record<ReviewRow["log"][number]["action"], MessageKey> = {
+  submitted: "review.actionSubmitted", approved: "review.actionApproved", rejected: "review.actionRejected", edited: "review.actionEdited",
+};
+
+const emptyDraft = (policy: ScoringPolicy): SubmissionDraft => ({ role: policy.roles[0]?.code ?? "", start: "", end: "", docNumber: "", file: null });
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString(getLang(), { hour12: false });
+}
+
+/** 教师提交附聘任文件的任职记录，审核人逐行通过、驳回或修改；只有通过的行计入正式计算 */
+export function ReviewPanel({ policy, options, onLoad, isDarkMode }: ReviewPanelProps) {
+  const [view, setView] = useState<View>("submit");
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // 提交
+  const [teacher, setTeacher] = useState("");
+  const [drafts, setDrafts] = useState<SubmissionDraft[]>(() => [emptyDraft(policy)]);
+  const [showErrors, setShowErrors] = useState(false);
+
+  // 审核
+  const [reviewer, setReviewer] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<{ rowId: string; fields: ReviewFields } | null>(null);
+  const [official, setOfficial] = useState<{ submissionId: string; updatedAt: string; result: CalculationResult } | null>(null);
+
+  // 后端按调用时的规则校验，规则在界面上改动后无需重建
+  const policyRef = useRef(policy);
+  useEffect(() => { policyRef.current = policy; }, [policy]);
+  const [backend] = useState(() => createLocalReviewBackend(() => policyRef.current));
+  const runnerRef = useRef<TaskRunner | null>(null);
+
+  useEffect(() => {
+    const runner = createTaskRunner();
+    runnerRef.current = runner;
+    return () => runner.dispose();
+  }, []);
+
+  useEffect(() => {
+    backend.listSubmissions().then(setSubmissions, (e: Error) => setError(e.message));
+  }, [backend]);
+
+  const selected = submissions.find(s => s.id === selectedId) ?? submissions[0] ?? null;
+  // 提交被审核改动后，之前的正式计算结果不再有效
+  const officialResult = official && selected && official.submissionId === selected.id && official.updatedAt === selected.updatedAt ? official.result : null;
+
+  const replaceSubmission = (updated: Submission) => {
+    setSubmissions(prev => [updated, ...prev.filter(s => s.id !== updated.id)]);
+  };
+
+  const attempt = async (run: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await run();
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+    setBusy(false);
+  };
+
+  // ----- 提交 -----
+
+  const draftErrors: DraftErrors[] = drafts.map(d => validateDraft(d, policy));
+  const updateDraft = (idx: number, patch: Partial<SubmissionDraft>) => setDrafts(drafts.map((d, i) => i === idx ? { ...d, ...patch } : d));
+
+  const handleSubmit = () => attempt(async () => {
+    setShowErrors(true);
+    setNotice(null);
+    const submission = await backend.submit(teacher, drafts);
+    replaceSubmission(submission);
+    setNotice(t("review.submitted", { count: drafts.length, teacher: submission.teacher }));
+    setDrafts([emptyDraft(policy)]);
+    setShowErrors(false);
+  });
+
+  // ----- 审核 -----
+
+  const handleReview = (row: ReviewRow, decision: ReviewDecision) => attempt(async () => {
+    if (!selected) return;
+    replaceSubmission(await backend.review(selected.id, row.id, decision, reviewer));
+    setComments(prev => ({ ...prev, [row.id]: "" }));
+    setEditing(null);
+  });
+
+  const handleOpenDocument = (row: ReviewRow) => attempt(async () => {
+    const url = URL.createObjectURL(await backend.getDocument(row.document.id));
+    window.open(url, "_blank", "noopener");
+    // 新标签页读取完成前不能释放
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  });
+
+  const handleDelete = (submission: Submission) => attempt(async () => {
+    if (!window.confirm(t("review.confirmDelete", { teacher: submission.teacher }))) return;
+    await backend.deleteSubmission(submission.id);
+    setSubmissions(prev => prev.filter(s => s.id !== submission.id));
+  });
+
+  const handleOfficial = (submission: Submission) => attempt(async () => {
+    const runner = runnerRef.current;
+    if (!runner) return;
+    const entries = approvedEntries(submission, policy, openEndDate(options));
+    if (!entries.length) throw new Error(t("review.noApproved"));
+    const merged = applyMerges(entries, findMerges(entries, options.proration), () => true);
+    const teachers = await runner.run({ kind: "score", jobs: [{ teacher: submission.teacher, entries: merged }], policy, options });
+    if (teachers) setOfficial({ submissionId: submission.id, updatedAt: submission.updatedAt, result: teachers[0].result });
+  });
+
+  const inputClass = `h-8 text-xs ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`;
+  const cellClass = (invalid: boolean) => `h-8 w-full rounded-md border px-2 text-xs ${
+    invalid
+      ? (isDarkMode ? 'border-red-500 bg-red-900/20 text-red-200' : 'border-red-400 bg-red-50 text-red-700')
+      : (isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300')
+  }`;
+  const headerClass = `px-1 py-1 text-left font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const errorClass = isDarkMode ? 'text-red-400' : 'text-red-600';
+  const outlineClass = isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100';
+  const primaryClass = `${isDarkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white`;
+  const statusClass: Record<ReviewStatus, string> = {
+    pending: isDarkMode ? 'bg-amber-900/40 text-amber-300' : 'bg-amber-100 text-amber-700',
+    approved: isDarkMode ? 'bg-green-900/40 text-green-300' : 'bg-green-100 text-green-700',
+    rejected: isDarkMode ? 'bg-red-900/40 text-red-300' : 'bg-red-100 text-red-700',
+  };
+
+  const roleSelect = (value: string, onChange: (code: string) => void, invalid: boolean) => (
+    <select className={cellClass(invalid)} value={value} onChange={e => onChange(e.target.value)}>
+      {!policy.roles.some(r => r.code === value) && <option value={value}>{value || t("common.select")}</option>}
+      {policy.roles.map(r => <option key={r.code} value={r.code}>{roleName(policy, r.code)}</option>)}
+    </select>
+  );
+
+  const renderSubmit = () => (
+    <div className="space-y-3">
+      <Input className={inputClass} placeholder={t("review.teacherPlaceholder")} value={teacher} onChange={e => setTeacher(e.target.value)} />
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr>
+              <th className={headerClass}>{t("common.role")}</th>
+              <th className={headerClass}>{t("common.startDate")}</th>
+              <th className={headerClass}>{t("common.endDate")}</th>
+              <th className={headerClass}>{t("review.docNumber")}</th>
+              <th className={headerClass}>{t("review.document")}</th>
+              <th className="w-8"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {drafts.map((draft, idx) => {
+              const errors = showErrors ? draftErrors[idx] : {};
+              return (
+                <Fragment key={idx}>
+                  <tr className="align-top">
+                    <td className="p-1">{roleSelect(draft.role, role => updateDraft(idx, { role }), !!errors.role)}</td>
+                    <td className="p-1">
+                      <input className={cellClass(!!errors.start)} value={draft.start} placeholder={t("editor.startPlaceholder")} onChange={e => updateDraft(idx, { start: e.target.value })} />
+                    </td>
+                    <td className="p-1">
+                      <input className={cellClass(!!errors.end)} value={draft.end} placeholder={t("editor.endPlaceholder")} onChange={e => updateDraft(idx, { end: e.target.value })} />
+                    </td>
+                    <td className="p-1">
+                      <input className={cellClass(!!errors.docNumber)} value={draft.docNumber} placeholder={t("review.docNumberPlaceholder")} onChange={e => updateDraft(idx, { docNumber: e.target.value })} />
+                    </td>
+                    <td className="p-1">
+                      <label className={`${cellClass(!!errors.document)} flex items-center cursor-pointer truncate max-w-[160px]`} title={draft.file?.name}>
+                        {draft.file?.name ?? t("review.chooseDocument")}
+                        <input type="file" accept={DOCUMENT_ACCEPT} className="hidden" onChange={e => updateDraft(idx, { file: e.target.files?.[0] ?? null })} />
+                      </label>
+                    </td>
+                    <td className="p-1 text-right">
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-red-500" disabled={drafts.length === 1} onClick={() => setDrafts(drafts.filter((_, i) => i !== idx))} title={t("common.delete")}>✕</Button>
+                    </td>
+                  </tr>
+                  {Object.keys(errors).length > 0 && (
+                    <tr>
+                      <td colSpan={6} className={`px-1 pb-1 ${errorClass}`}>
+                        {t("editor.rowErrors", { line: idx + 1, errors: Object.values(errors).join(t("common.clauseSeparator")) })}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="outline" size="sm" onClick={() => setDrafts([...drafts, emptyDraft(policy)])} className={outlineClass}>
+          {t("editor.addRow")}
+        </Button>
+        <Button size="sm" disabled={busy} onClick={handleSubmit} className={primaryClass}>
+          {t("review.submit")}
+        </Button>
+      </div>
+      <p className={`text-xs ${mutedClass}`}>{t("review.submitHint")}</p>
+    </div>
+  );
+
+  const renderRow = (row: ReviewRow) => {
+    const comment = comments[row.id] ?? "";
+    const edit = editing?.rowId === row.id ? editing.fields : null;
+    const setEditField = (patch: Partial<ReviewFields>) => edit && setEditing({ rowId: row.id, fields: { ...edit, ...patch } });
+    return (
+      <div key={row.id} className={`p-3 rounded-xl space-y-2 ${isDarkMode ? 'bg-gray-700/50 text-gray-200' : 'bg-blue-50 text-gray-700'}`}>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`px-2 py-0.5 rounded-full font-medium ${statusClass[row.status]}`}>{t(STATUS_LABELS[row.status])}</span>
+          <span className="font-medium">{roleName(policy, row.role)}</span>
+          <span>{t("review.period", { start: row.start, end: row.end })}</span>
+          <span className={mutedClass}>{t("report.fieldLabel", { label: t("review.docNumber") })}{row.docNumber}</span>
+          <button className={`underline ${isDarkMode ? 'text-blue-300' : 'text-blue-600'}`} onClick={() => handleOpenDocument(row)} title={row.document.name}>
+            {t("review.viewDocument")}
+          </button>
+        </div>
+
+        {edit && (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {roleSelect(edit.role, role => setEditField({ role }), false)}
+            <input className={cellClass(false)} value={edit.start} onChange={e => setEditField({ start: e.target.value })} />
+            <input className={cellClass(false)} value={edit.end} onChange={e => setEditField({ end: e.target.value })} />
+            <input className={cellClass(false)} value={edit.docNumber} onChange={e => setEditField({ docNumber: e.target.value })} />
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Input className={`${inputClass} flex-1 min-w-[160px]`} placeholder={t("review.commentPlaceholder")} value={comment} onChange={e => setComments({ ...comments, [row.id]: e.target.value })} />
+          {edit ? (
+            <>
+              <Button size="sm" disabled={busy} className={primaryClass} onClick={() => handleReview(row, { action: "edit", comment, fields: edit })}>{t("review.saveEdit")}</Button>
+              <Button variant="outline" size="sm" className={outlineClass} onClick={() => setEditing(null)}>{t("common.cancel")}</Button>
+            </>
+          ) : (
+            <>
+              <Button size="sm" disabled={busy} className={primaryClass} onClick={() => handleReview(row, { action: "approve", comment })}>{t("review.approve")}</Button>
+              <Button variant="outline" size="sm" disabled={busy} className={outlineClass} onClick={() => handleReview(row, { action: "reject", comment })}>{t("review.reject")}</Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className={outlineClass}
+                onClick={() => setEditing({ rowId: row.id, fields: { role: row.role, start: row.start, end: row.end, docNumber: row.docNumber } })}
+              >
+                {t("common.edit")}
+              </Button>
+            </>
+          )}
+        </div>
+
+        <ul className={`space-y-0.5 ${mutedClass}`}>
+          {row.log.map((event, i) => (
+            <li key={i}>
+              {t("review.logLine", { time: formatTime(event.at), by: event.by, action: t(ACTION_LABELS[event.action]) })}
+              {event.before && t("review.editedFrom", { role: roleName(policy, event.before.role), start: event.before.start, end: event.before.end, docNumber: event.before.docNumber })}
+              {event.comment && t("review.commentSuffix", { comment: event.comment })}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  const renderReview = () => {
+    if (!selected) return <p className={`text-xs ${mutedClass}`}>{t("review.empty")}</p>;
+    const counts = statusCounts(selected);
+    return (
+      <div className="space-y-3 text-xs">
+        <div className="grid grid-cols-2 gap-2">
+          <select className={cellClass(false)} value={selected.id} onChange={e => setSelectedId(e.target.value)}>
+            {submissions.map(s => {
+              const c = statusCounts(s);
+              return <option key={s.id} value={s.id}>{t("review.submissionOption", { teacher: s.teacher, pending: c.pending, total: s.rows.length })}</option>;
+            })}
+          </select>
+          <Input className={inputClass} placeholder={t("review.reviewerPlaceholder")} value={reviewer} onChange={e => setReviewer(e.target.value)} />
+        </div>
+        <div className="flex items-center justify-between">
+          <span className={mutedClass}>
+            {t("review.counts", { approved: counts.approved, rejected: counts.rejected, pending: counts.pending, time: formatTime(selected.updatedAt) })}
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-red-500" onClick={() => handleDelete(selected)}>{t("common.delete")}</Button>
+        </div>
+
+        <div className="max-h-[420px] overflow-auto space-y-2">{selected.rows.map(renderRow)}</div>
+
+        <div className={`p-3 rounded-xl space-y-2 border border-dashed ${isDarkMode ? 'border-gray-600' : 'border-gray-300'}`}>
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">{t("review.officialTitle")}</span>
+            <Button variant="outline" size="sm" disabled={busy || !counts.approved} onClick={() => handleOfficial(selected)} className={outlineClass}>
+              {t("review.calculate")}
+            </Button>
+          </div>
+          <p className={mutedClass}>{t("review.officialHint", { count: counts.approved })}</p>
+          {officialResult && (
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{t("review.officialTotal", { score: officialResult.totalScore.toFixed(4) })}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                className={outlineClass}
+                onClick={() => onLoad(selected.teacher, rowsToCsv(approvedRows(selected), false), officialResult)}
+              >
+                {t("bundle.load")}
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gray-800/50 border-gray-700 backdrop-blur-sm' : 'bg-white/70 border-gray-200 backdrop-blur-sm'}`}>
+      <CardHeader className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <CardTitle className={`flex items-center text-base ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          <div className={`p-1.5 rounded-lg mr-2 ${isDarkMode ? 'bg-amber-600' : 'bg-amber-500'}`}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+              <path d="M9 2a1 1 0 000 2h2a1 1 0 100-2H9z" />
+              <path fillRule="evenodd" d="M4 5a2 2 0 012-2 3 3 0 003 3h2a3 3 0 003-3 2 2 0 012 2v11a2 2 0 01-2 2H6a2 2 0 01-2-2V5zm9.707 5.707a1 1 0 00-1.414-1.414L9 12.586l-1.293-1.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+            </svg>
+          </div>
+          {t("review.title")}
+        </CardTitle>
+        <CardDescription className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+          {t("review.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 space-y-3">
+        <SegmentedControl
+          options={[["submit", t("review.viewSubmit")], ["review", t("review.viewReview")]] as const}
+          value={view}
+          onChange={setView}
+          isDarkMode={isDarkMode}
+        />
+        {view === "submit" ? renderSubmit() : renderReview()}
+        {notice && <div className={`text-xs ${isDarkMode ? 'text-green-400' : 'text-green-600'}`}>{notice}</div>}
+        {error && <div className={`text-xs ${errorClass}`}>{error}</div>}
+      </CardContent>
+    </Card>
+  );
+}
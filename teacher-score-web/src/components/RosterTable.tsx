@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { roleName, type ScoringPolicy } from "@/lib/policy";
+import { t } from "@/lib/i18n";
+
+/** roleScores 以岗位代码为键 */
+export interface RosterRow { teacher: string; totalScore: number; roleScores: Record<string, number>; }
+
+// 排序键：教师、总分或某个岗位代码
+type SortKey = { column: "teacher" } | { column: "total" } | { column: "role"; role: string };
+
+interface RosterTableProps {
+  rows: RosterRow[];
+  /** 计算这批结果时使用的规则，决定岗位列与总封顶分 */
+  policy: ScoringPolicy;
+  selected: string | null;
+  onSelect: (teacher: string) => void;
+  onExport: () => void;
+  isDarkMode: boolean;
+}
+
+function sortValue(row: RosterRow, key: SortKey): number | string {
+  if (key.column === "teacher") return row.teacher;
+  if (key.column === "total") return row.totalScore;
+  return row.roleScores[key.role] ?? 0;
+}
+
+export function RosterTable({ rows, policy, selected, onSelect, onExport, isDarkMode }: RosterTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>({ column: "total" });
+  const [descending, setDescending] = useState(true);
+  const { roles, totalCap } = policy;
+
+  // 排名始终按总分计算，与当前排序列无关
+  const ranks = new Map([...rows].sort((a, b) => b.totalScore - a.totalScore).map((r, idx) => [r.teacher, idx + 1]));
+
+  const sorted = [...rows].sort((a, b) => {
+    const va = sortValue(a, sortKey);
+    const vb = sortValue(b, sortKey);
+    const cmp = typeof va === "string" ? va.localeCompare(vb as string, "zh-CN") : va - (vb as number);
+    return descending ? -cmp : cmp;
+  });
+
+  const isSortedBy = (key: SortKey) =>
+    key.column === sortKey.column && (key.column !== "role" || (sortKey.column === "role" && key.role === sortKey.role));
+
+  const toggleSort = (key: SortKey) => {
+    if (isSortedBy(key)) setDescending(!descending);
+    else {
+      setSortKey(key);
+      setDescending(key.column !== "teacher");
+    }
+  };
+
+  const headerCell = (key: SortKey, label: string, align = "text-right") => (
+    <th
+      key={key.column === "role" ? `role:${key.role}` : key.column}
+      className={`px-2 py-2 font-medium cursor-pointer select-none whitespace-nowrap ${align} ${isDarkMode ? 'text-gray-300 hover:text-white' : 'text-gray-600 hover:text-gray-900'}`}
+      onClick={() => toggleSort(key)}
+    >
+      {label}{isSortedBy(key) ? (descending ? ' ↓' : ' ↑') : ''}
+    </th>
+  );
+
+  return (
+    <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gray-800/50 border-gray-700 backdrop-blur-sm' : 'bg-white/70 border-gray-200 backdrop-blur-sm'}`}>
+      <CardHeader className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <div className="flex items-center justify-between">
+          <CardTitle className={`flex items-center text-base ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+            <div className={`p-1.5 rounded-lg mr-2 ${isDarkMode ? 'bg-cyan-600' : 'bg-cyan-500'}`}>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M9 6a3 3 0 11-6 0 3 3 0 016 0zM17 6a3 3 0 11-6 0 3 3 0 016 0zM12.93 17c.046-.327.07-.66.07-1a6.97 6.97 0 00-1.5-4.33A5 5 0 0119 16v1h-6.07zM6 11a5 5 0 015 5v1H1v-1a5 5 0 015-5z" />
+              </svg>
+            </div>
+            {t("roster.title")}
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onExport}
+            className={isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}
+          >
+            {t("roster.export")}
+          </Button>
+        </div>
+        <CardDescription className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+          {t("roster.description", { count: rows.length })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <ScrollArea className="h-[300px] lg:h-[360px]">
+          <table className="w-full text-xs">
+            <thead className={`sticky top-0 ${isDarkMode ? 'bg-gray-800' : 'bg-gray-50'}`}>
+              <tr>
+                <th className={`px-2 py-2 font-medium text-right ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>#</th>
+                {headerCell({ column: "teacher" }, t("common.teacher"), "text-left")}
+                {headerCell({ column: "total" }, t("common.total"))}
+                {roles.map(r => headerCell({ column: "role", role: r.code }, roleName(policy, r.code)))}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(row => (
+                <tr
+                  key={row.teacher}
+                  onClick={() => onSelect(row.teacher)}
+                  className={`cursor-pointer transition-colors border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-100'} ${
+                    row.teacher === selected
+                      ? (isDarkMode ? 'bg-blue-900/40' : 'bg-blue-50')
+                      : (isDarkMode ? 'hover:bg-gray-700/50' : 'hover:bg-gray-50')
+                  }`}
+                >
+                  <td className={`px-2 py-2 text-right ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{ranks.get(row.teacher)}</td>
+                  <td className={`px-2 py-2 font-medium whitespace-nowrap ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{row.teacher}</td>
+                  <td className={`px-2 py-2 text-right font-bold ${row.totalScore >= totalCap ? (isDarkMode ? 'text-green-400' : 'text-green-600') : (isDarkMode ? 'text-blue-400' : 'text-blue-600')}`}>
+                    {row.totalScore.toFixed(4)}
+                  </td>
+                  {roles.map(r => (
+                    <td key={r.code} className={`px-2 py-2 text-right ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                      {row.roleScores[r.code] ? row.roleScores[r.code].toFixed(2) : '–'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+interface SegmentedControlProps<T extends string> {
+  options: readonly (readonly [T, string])[];
+  value: T;
+  onChange: (value: T) => void;
+  isDarkMode: boolean;
+}
+
+export function SegmentedControl<T extends string>({ options, value, onChange, isDarkMode }: SegmentedControlProps<T>) {
+  return (
+    <div className={`inline-flex self-start p-1 rounded-lg ${isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+      {options.map(([optionValue, label]) => (
+        <button
+          key={optionValue}
+          onClick={() => onChange(optionValue)}
+          className={`px-3 py-1 text-xs font-medium rounded-md transition-all duration-200 ${
+            value === optionValue
+              ? (isDarkMode ? 'bg-gray-900 text-white shadow' : 'bg-white text-gray-900 shadow')
+              : (isDarkMode ? 'text-gray-400' : 'text-gray-500')
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { indexToYM, ymToIndex, type CalculationResult, type TraceReason } from "@/lib/engine";
+import { findRole, ROLE_COLOR_HEX, roleName } from "@/lib/policy";
+import { t } from "@/lib/i18n";
+import { formatMeta } from "@/lib/tabular";
+
+interface TimelineChartProps {
+  result: CalculationResult;
+  isDarkMode: boolean;
+}
+
+// ----- 布局常量（SVG 坐标，按 viewBox 等比缩放） -----
+const WIDTH = 760;
+const LABEL_WIDTH = 88;
+const LANE_HEIGHT = 16;
+const LANE_GAP = 6;
+const AXIS_HEIGHT = 18;
+const CHART_HEIGHT = 160;
+
+const CAP_HIT: TraceReason[] = ["cap_limited", "combo_limited", "total_limited"];
+const CAPPED: TraceReason[] = ["role_capped", "combo_capped", "total_capped"];
+
+type MonthMark = "credited" | "capHit" | "capped" | null;
+
+export function TimelineChart({ result, isDarkMode }: TimelineChartProps) {
+  const { policy, entries, monthDetails } = result;
+  if (!entries.length) return null;
+
+  const firstIdx = Math.min(...entries.map(e => ymToIndex(e.start)));
+  const lastIdx = Math.max(...entries.map(e => ymToIndex(e.end)));
+  const months = lastIdx - firstIdx + 1;
+  const plotWidth = WIDTH - LABEL_WIDTH - 8;
+  const colWidth = plotWidth / months;
+  const x = (idx: number) => LABEL_WIDTH + (idx - firstIdx) * colWidth;
+  const hex = (role: string) => ROLE_COLOR_HEX[findRole(policy, role)?.color ?? ""] ?? "#9ca3af";
+  const nameOf = (role: string) => roleName(policy, role);
+
+  const lanes = policy.roles.filter(r => entries.some(e => e.role === r.code)).map(r => r.code);
+  const detailByIdx = new Map(monthDetails.map(m => [ymToIndex(m.ym), m]));
+
+  // 每条泳道逐月的状态：实际计分、当月触顶、此前已封顶
+  const markOf = (role: string, idx: number): MonthMark => {
+    const trace = detailByIdx.get(idx)?.trace.find(t => t.role === role);
+    if (!trace) return null;
+    if (CAP_HIT.includes(trace.reason)) return "capHit";
+    if (CAPPED.includes(trace.reason)) return "capped";
+    return trace.gain > 0 ? "credited" : null;
+  };
+
+  // 年份刻度：跨度较长时隔年标注
+  const yearStep = months > 240 ? 5 : months > 96 ? 2 : 1;
+  const firstYear = Math.floor(firstIdx / 12);
+  const yearTicks: number[] = [];
+  for (let y = Math.ceil(firstIdx / 12); y * 12 <= lastIdx; y++) {
+    if ((y - firstYear) % yearStep === 0) yearTicks.push(y);
+  }
+
+  // 累计得分：按岗位顺序逐层堆叠
+  const stackRoles = policy.roles.map(r => r.code).filter(role => monthDetails.some(m => m.allocations.some(a => a.role === role && a.gain > 0)));
+  const cumulative: Record<string, number[]> = Object.fromEntries(stackRoles.map(role => [role, []]));
+  const running: Record<string, number> = Object.fromEntries(stackRoles.map(role => [role, 0]));
+  for (let idx = firstIdx; idx <= lastIdx; idx++) {
+    detailByIdx.get(idx)?.allocations.forEach(a => {
+      if (a.role in running) running[a.role] += a.gain;
+    });
+    stackRoles.forEach(role => cumulative[role].push(running[role]));
+  }
+  const totals = Array.from({ length: months }, (_, i) => stackRoles.reduce((s, role) => s + cumulative[role][i], 0));
+  const yMax = Math.max(policy.totalCap, ...totals) * 1.1;
+  const yStep = yMax > 40 ? 10 : 5;
+  const y = (score: number) => CHART_HEIGHT - (score / yMax) * CHART_HEIGHT;
+  const xAt = (i: number) => LABEL_WIDTH + (i + 1) * colWidth;
+
+  const areaPath = (k: number) => {
+    const layer = (i: number, upTo: number) => stackRoles.slice(0, upTo).reduce((s, role) => s + cumulative[role][i], 0);
+    const upper = Array.from({ length: months }, (_, i) => `${xAt(i)},${y(layer(i, k + 1))}`);
+    const lower = Array.from({ length: months }, (_, i) => `${xAt(i)},${y(layer(i, k))}`).reverse();
+    return `M${LABEL_WIDTH},${y(0)} L${upper.join(" L")} L${lower.join(" L")} Z`;
+  };
+  const totalLine = `M${LABEL_WIDTH},${y(0)} L${totals.map((t, i) => `${xAt(i)},${y(t)}`).join(" L")}`;
+
+  const lanesHeight = lanes.length * (LANE_HEIGHT + LANE_GAP);
+  const textClass = isDarkMode ? 'fill-gray-300' : 'fill-gray-600';
+  const gridClass = isDarkMode ? 'stroke-gray-700' : 'stroke-gray-200';
+  const capLineClass = isDarkMode ? 'stroke-green-400' : 'stroke-green-600';
+
+  return (
+    <Card className={`transition-all duration-300 shadow-xl hover:shadow-2xl ${isDarkMode ? 'bg-gray-800/50 border-gray-700 backdrop-blur-sm' : 'bg-white/70 border-gray-200 backdrop-blur-sm'}`}>
+      <CardHeader className={`border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <CardTitle className={`flex items-center text-base ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          <div className={`p-1.5 rounded-lg mr-2 ${isDarkMode ? 'bg-indigo-600' : 'bg-indigo-500'}`}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" viewBox="0 0 20 20" fill="currentColor">
+              <path d="M3 4a1 1 0 011-1h8a1 1 0 110 2H4a1 1 0 01-1-1zm3 5a1 1 0 011-1h9a1 1 0 110 2H7a1 1 0 01-1-1zm-2 5a1 1 0 011-1h6a1 1 0 110 2H5a1 1 0 01-1-1z" />
+            </svg>
+          </div>
+          {t("timeline.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        {/* 时间轴：每个岗位一条泳道 */}
+        <svg viewBox={`0 0 ${WIDTH} ${lanesHeight + AXIS_HEIGHT}`} className="w-full h-auto text-[10px]">
+          {yearTicks.map(year => (
+            <g key={year}>
+              <line x1={x(year * 12)} x2={x(year * 12)} y1={0} y2={lanesHeight} className={gridClass} />
+              <text x={x(year * 12)} y={lanesHeight + 12} textAnchor="middle" className={textClass}>{year}</text>
+            </g>
+          ))}
+          {lanes.map((role, laneIdx) => {
+            const top = laneIdx * (LANE_HEIGHT + LANE_GAP);
+            const color = hex(role);
+            return (
+              <g key={role}>
+                <text x={0} y={top + LANE_HEIGHT - 4} className={textClass}>{nameOf(role)}</text>
+                {/* 任职时段 */}
+                {entries.filter(e => e.role === role).map((e, i) => (
+                  <rect key={i} x={x(ymToIndex(e.start))} y={top} width={(ymToIndex(e.end) - ymToIndex(e.start) + 1) * colWidth} height={LANE_HEIGHT} rx={3} fill={color} fillOpacity={0.2} stroke={color} strokeOpacity={0.5}>
+                    <title>{[t("timeline.period", { role: nameOf(role), start: e.start, end: e.end }), formatMeta(e.meta)].filter(Boolean).join("\n")}</title>
+                  </rect>
+                ))}
+                {/* 逐月计分与封顶 */}
+                {Array.from({ length: months }, (_, i) => firstIdx + i).map(idx => {
+                  const mark = markOf(role, idx);
+                  if (!mark) return null;
+                  const ym = indexToYM(idx);
+                  if (mark === "capHit") {
+                    const cx = x(idx) + colWidth / 2;
+                    return (
+                      <path key={idx} d={`M${cx},${top + 1} L${cx + 5},${top + LANE_HEIGHT / 2} L${cx},${top + LANE_HEIGHT - 1} L${cx - 5},${top + LANE_HEIGHT / 2} Z`} fill={color} className={isDarkMode ? 'stroke-white' : 'stroke-gray-900'}>
+                        <title>{t("timeline.capHit", { ym, role: nameOf(role) })}</title>
+                      </path>
+                    );
+                  }
+                  return (
+                    <rect key={idx} x={x(idx)} y={top + 4} width={colWidth} height={LANE_HEIGHT - 8} fill={mark === "credited" ? color : '#9ca3af'} fillOpacity={mark === "credited" ? 0.9 : 0.6}>
+                      <title>{t(mark === "credited" ? "timeline.credited" : "timeline.capped", { ym, role: nameOf(role) })}</title>
+                    </rect>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </svg>
+
+        {/* 累计得分：按岗位堆叠 */}
+        <svg viewBox={`0 0 ${WIDTH} ${CHART_HEIGHT + AXIS_HEIGHT}`} className="w-full h-auto text-[10px]">
+          {Array.from({ length: Math.floor(yMax / yStep) + 1 }, (_, i) => i * yStep).map(score => (
+            <g key={score}>
+              <line x1={LABEL_WIDTH} x2={WIDTH - 8} y1={y(score)} y2={y(score)} className={gridClass} />
+              <text x={LABEL_WIDTH - 6} y={y(score) + 3} textAnchor="end" className={textClass}>{score}</text>
+            </g>
+          ))}
+          {yearTicks.map(year => (
+            <text key={year} x={x(year * 12)} y={CHART_HEIGHT + 12} textAnchor="middle" className={textClass}>{year}</text>
+          ))}
+          {stackRoles.map((role, k) => (
+            <path key={role} d={areaPath(k)} fill={hex(role)} fillOpacity={0.55}>
+              <title>{t("timeline.cumulative", { role: nameOf(role), score: cumulative[role][months - 1].toFixed(4) })}</title>
+            </path>
+          ))}
+          <path d={totalLine} fill="none" strokeWidth={1.5} className={isDarkMode ? 'stroke-white' : 'stroke-gray-900'} />
+          <line x1={LABEL_WIDTH} x2={WIDTH - 8} y1={y(policy.totalCap)} y2={y(policy.totalCap)} strokeDasharray="4 3" strokeWidth={1.5} className={capLineClass} />
+          <text x={WIDTH - 10} y={y(policy.totalCap) - 4} textAnchor="end" className={isDarkMode ? 'fill-green-400' : 'fill-green-600'}>
+            {t("timeline.totalCap", { cap: policy.totalCap })}
+          </text>
+        </svg>
+
+        {/* 图例 */}
+        <div className={`flex flex-wrap gap-x-4 gap-y-1 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {lanes.map(role => (
+            <span key={role} className="flex items-center">
+              <span className="w-2.5 h-2.5 rounded-sm mr-1" style={{ backgroundColor: hex(role) }}></span>{nameOf(role)}
+            </span>
+          ))}
+          <span className="flex items-center"><span className="w-2.5 h-2.5 rounded-sm mr-1 bg-gray-400/60"></span>{t("timeline.legendCapped")}</span>
+          <span className="flex items-center">{t("timeline.legendCapHit")}</span>
+          <span className="flex items-center">{t("timeline.legendPeriod")}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+
+interface VirtualListProps {
+  count: number;
+  /** 稳定的键，高度按键缓存，筛选或折叠后已量过的行不必重新估计 */
+  itemKey: (index: number) => string;
+  /** 尚未渲染过的行的估计高度（像素），渲染后按实际高度修正 */
+  estimateHeight: (index: number) => number;
+  renderItem: (index: number) => ReactNode;
+  className?: string;
+  /** 可视区上下额外渲染的像素，快速滚动时不至于露白 */
+  overscan?: number;
+}
+
+/** 只渲染可视区附近的行，行高不定时边渲染边量，适合上百条的明细列表 */
+export function VirtualList({ count, itemKey, estimateHeight, renderItem, className, overscan = 400 }: VirtualListProps) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [measured, setMeasured] = useState<Record<string, number>>({});
+  const containerRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => () => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+  }, []);
+
+  // 行的挂载发生在 effect 之前，观察器在第一次用到时创建
+  const observeItem = (el: HTMLDivElement | null) => {
+    if (!el) return;
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        setMeasured(prev => {
+          let next = prev;
+          entries.forEach(entry => {
+            const target = entry.target as HTMLElement;
+            const key = target.dataset.key ?? "";
+            if (prev[key] !== target.offsetHeight) {
+              if (next === prev) next = { ...prev };
+              next[key] = target.offsetHeight;
+            }
+          });
+          return next;
+        });
+      });
+    }
+    const observer = observerRef.current;
+    observer.observe(el);
+    return () => observer.unobserve(el);
+  };
+
+  const offsets: number[] = [];
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    offsets.push(total);
+    total += measured[itemKey(i)] ?? estimateHeight(i);
+  }
+
+  let first = 0;
+  while (first < count - 1 && offsets[first + 1] <= scrollTop - overscan) first++;
+  let last = first;
+  while (last < count - 1 && offsets[last + 1] < scrollTop + viewportHeight + overscan) last++;
+
+  return (
+    <div ref={containerRef} className={`overflow-y-auto ${className ?? ""}`} onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+      <div className="relative" style={{ height: total }}>
+        <div className="absolute inset-x-0" style={{ top: count ? offsets[first] : 0 }}>
+          {count > 0 && Array.from({ length: last - first + 1 }, (_, i) => {
+            const index = first + i;
+            const key = itemKey(index);
+            return <div key={key} data-key={key} ref={observeItem}>{renderItem(index)}</div>;
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
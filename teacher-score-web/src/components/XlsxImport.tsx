@@ -0,0 +1,146 @@
+import { useState, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { MAX_WORKBOOK_SIZE, sheetToCsv, WORKBOOK_TIMEOUT_MS, type SheetData } from "@/lib/spreadsheet";
+import { createTaskRunner } from "@/lib/taskRunner";
+import { guessMapping } from "@/lib/tabular";
+import { joinList, t, type MessageKey } from "@/lib/i18n";
+
+interface XlsxImportProps {
+  withTeacher: boolean;
+  onImport: (csvText: string) => void;
+  isDarkMode: boolean;
+}
+
+type Field = "teacher" | "role" | "start" | "end";
+
+const FIELD_LABELS: Record<Field, MessageKey> = { teacher: "common.teacher", role: "common.role", start: "common.startDate", end: "common.endDate" };
+
+export function XlsxImport({ withTeacher, onImport, isDarkMode }: XlsxImportProps) {
+  const [sheets, setSheets] = useState<SheetData[]|null>(null);
+  const [sheetIdx, setSheetIdx] = useState(0);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<Record<Field, number>>({ teacher: -1, role: 0, start: 1, end: 2 });
+  const [error, setError] = useState<string|null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fields: Field[] = withTeacher ? ["teacher", "role", "start", "end"] : ["role", "start", "end"];
+  const sheet = sheets?.[sheetIdx];
+  const columnCount = sheet ? Math.max(0, ...sheet.rows.map(r => r.length)) : 0;
+  const columnLabel = (col: number) => {
+    const header = hasHeader ? sheet?.rows[0]?.[col] : "";
+    return header ? t("xlsx.columnWithHeader", { index: col + 1, header }) : t("xlsx.column", { index: col + 1 });
+  };
+
+  const selectSheet = (data: SheetData[], idx: number) => {
+    setSheetIdx(idx);
+    const guessed = guessMapping(data[idx]?.rows[0] ?? []);
+    const found = guessed.role >= 0 && guessed.start >= 0 && guessed.end >= 0;
+    setHasHeader(found);
+    setMapping(found ? guessed : { teacher: withTeacher ? 0 : -1, role: withTeacher ? 1 : 0, start: withTeacher ? 2 : 1, end: withTeacher ? 3 : 2 });
+  };
+
+  // 每个文件单独起一个 Worker 解析，用完即终止，超时也直接终止
+  const readWorkbook = async (file: File): Promise<SheetData[]> => {
+    if (file.size > MAX_WORKBOOK_SIZE) throw new Error(t("xlsx.tooLarge", { limit: MAX_WORKBOOK_SIZE / 1024 / 1024 }));
+    const runner = createTaskRunner();
+    const timer = setTimeout(() => runner.dispose(), WORKBOOK_TIMEOUT_MS);
+    try {
+      const data = await runner.run({ kind: "workbook", data: await file.arrayBuffer() });
+      if (!data) throw new Error(t("xlsx.timeout", { seconds: WORKBOOK_TIMEOUT_MS / 1000 }));
+      return data;
+    } finally {
+      clearTimeout(timer);
+      runner.dispose();
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const data = await readWorkbook(file);
+      if (!data.some(s => s.rows.length)) throw new Error(t("xlsx.empty"));
+      setSheets(data);
+      selectSheet(data, Math.max(0, data.findIndex(s => s.rows.length)));
+      setError(null);
+    } catch (e) {
+      setSheets(null);
+      setError(t("xlsx.readFailed", { message: (e as Error).message }));
+    }
+  };
+
+  const handleImport = () => {
+    if (!sheet) return;
+    const missing = fields.filter(f => mapping[f] < 0);
+    if (missing.length) {
+      setError(t("xlsx.missingColumns", { fields: joinList(missing.map(f => t(FIELD_LABELS[f]))) }));
+      return;
+    }
+    onImport(sheetToCsv(sheet.rows, { ...mapping, teacher: withTeacher ? mapping.teacher : undefined }, hasHeader));
+    setSheets(null);
+    setError(null);
+  };
+
+  const selectClass = `h-8 w-full rounded-md border px-2 text-xs ${isDarkMode ? 'bg-gray-700 text-white border-gray-600' : 'bg-white text-gray-900 border-gray-300'}`;
+  const labelClass = `text-xs font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`;
+
+  return (
+    <div className="space-y-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => fileInputRef.current?.click()}
+        className={isDarkMode ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}
+      >
+        {t("xlsx.import")}
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".xlsx,.xls,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = "";
+        }}
+      />
+
+      {sheets && sheet && (
+        <div className={`p-3 rounded-xl space-y-3 ${isDarkMode ? 'bg-gray-700/50' : 'bg-blue-50'}`}>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className={labelClass}>{t("xlsx.sheet")}</label>
+              <select className={selectClass} value={sheetIdx} onChange={e => selectSheet(sheets, Number(e.target.value))}>
+                {sheets.map((s, idx) => <option key={s.name} value={idx}>{t("xlsx.sheetOption", { name: s.name, rows: s.rows.length })}</option>)}
+              </select>
+            </div>
+            <label className={`flex items-end pb-2 text-xs ${isDarkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+              <input type="checkbox" className="mr-1" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} />
+              {t("xlsx.hasHeader")}
+            </label>
+            {fields.map(field => (
+              <div key={field} className="space-y-1">
+                <label className={labelClass}>{t(FIELD_LABELS[field])}</label>
+                <select className={selectClass} value={mapping[field]} onChange={e => setMapping({ ...mapping, [field]: Number(e.target.value) })}>
+                  <option value={-1}>{t("common.select")}</option>
+                  {Array.from({ length: columnCount }, (_, col) => <option key={col} value={col}>{columnLabel(col)}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleImport} className={`${isDarkMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'} text-white`}>
+              {t("xlsx.importRows", { count: sheet.rows.length - (hasHeader ? 1 : 0) })}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setSheets(null)} className={isDarkMode ? 'text-gray-300' : 'text-gray-600'}>
+              {t("common.cancel")}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className={`text-xs ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>{error}</p>
+      )}
+    </div>
+  );
+}
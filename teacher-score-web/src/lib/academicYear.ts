@@ -0,0 +1,80 @@
+import type { CalculationResult, MonthDetail, RoleTrace, TraceReason } from "./engine";
+import { t } from "./i18n";
+
+// ----- 学年（9 月至次年 8 月）汇总 -----
+
+/** 学年以开始年份标识，如 2006-09 至 2007-08 为 2006 学年 */
+export function academicYearOf(ym: string): number {
+  const [y, m] = ym.split("-").map(Number);
+  return m >= 9 ? y : y - 1;
+}
+
+export function academicYearLabel(year: number): string {
+  return t("academicYear.label", { from: year, to: year + 1 });
+}
+
+export interface AcademicYearSummary {
+  year: number;
+  /** 该学年内有在岗记录的月数 */
+  months: number;
+  roleGains: Record<string, number>;
+  total: number;
+}
+
+export function summarizeByAcademicYear(result: CalculationResult): AcademicYearSummary[] {
+  return summarizeMonths(result.monthDetails);
+}
+
+export function summarizeMonths(details: MonthDetail[]): AcademicYearSummary[] {
+  const byYear = new Map<number, AcademicYearSummary>();
+  details.forEach(m => {
+    const year = academicYearOf(m.ym);
+    const summary = byYear.get(year) ?? { year, months: 0, roleGains: {}, total: 0 };
+    summary.months += 1;
+    m.allocations.forEach(a => {
+      summary.roleGains[a.role] = (summary.roleGains[a.role] ?? 0) + a.gain;
+      summary.total += a.gain;
+    });
+    byYear.set(year, summary);
+  });
+  return [...byYear.values()].sort((a, b) => a.year - b.year);
+}
+
+// ----- 逐月明细的筛选与按学年分组 -----
+
+/** 被岗位封顶、合计封顶或总分封顶截断或停止计分 */
+const CAP_REASONS: TraceReason[] = ["cap_limited", "combo_limited", "role_capped", "combo_capped", "total_limited", "total_capped"];
+
+/** 当月得分为 0（含排在权重阶梯之外）或触及封顶 */
+export function isZeroOrCapEvent(trace: RoleTrace): boolean {
+  return trace.gain === 0 || CAP_REASONS.includes(trace.reason);
+}
+
+/** role 为 null 时不限岗位；学年范围两端为 null 时不限；zeroOrCapOnly 只保留有 isZeroOrCapEvent 的月份 */
+export interface MonthFilter { role: string | null; fromYear: number | null; toYear: number | null; zeroOrCapOnly: boolean; }
+
+export const NO_MONTH_FILTER: MonthFilter = { role: null, fromYear: null, toYear: null, zeroOrCapOnly: false };
+
+/** 按岗位筛选时，只看该岗位在岗的月份，「得分为 0 或触及封顶」也只看该岗位 */
+export function filterMonths(details: MonthDetail[], filter: MonthFilter): MonthDetail[] {
+  return details.filter(m => {
+    const year = academicYearOf(m.ym);
+    if (filter.fromYear !== null && year < filter.fromYear) return false;
+    if (filter.toYear !== null && year > filter.toYear) return false;
+    const traces = filter.role === null ? m.trace : m.trace.filter(tr => tr.role === filter.role);
+    if (!traces.length) return false;
+    return !filter.zeroOrCapOnly || traces.some(isZeroOrCapEvent);
+  });
+}
+
+/** 按学年分组，组内与组间都按时间先后 */
+export function groupByAcademicYear(details: MonthDetail[]): { year: number; details: MonthDetail[] }[] {
+  const groups: { year: number; details: MonthDetail[] }[] = [];
+  [...details].sort((a, b) => a.ym.localeCompare(b.ym)).forEach(m => {
+    const year = academicYearOf(m.ym);
+    const last = groups[groups.length - 1];
+    if (last?.year === year) last.details.push(m);
+    else groups.push({ year, details: [m] });
+  });
+  return groups;
+}
@@ -0,0 +1,120 @@
+import { PRORATION_MODES, type CalcOptions, type CalculationResult, type RoleEntry } from "./engine";
+import { isIsoDate } from "./dates";
+import { t } from "./i18n";
+import { ORDERING_STRATEGIES } from "./ordering";
+import { findRole, parsePolicy, type ScoringPolicy } from "./policy";
+
+// ----- JSON 存档：完整保存输入、规则与结果，日后可重新计算核对 -----
+
+export const BUNDLE_FORMAT = "teacher-score-bundle";
+export const BUNDLE_SCHEMA_VERSION = 1;
+
+export interface ResultBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  /** 教师姓名或工号，单人未命名时为空 */
+  teacher: string;
+  entries: RoleEntry[];
+  /** 计算时使用的全部规则常量（封顶分、基准分档位、权重、合计封顶） */
+  policy: ScoringPolicy;
+  options: CalcOptions;
+  /** 未经格式化的完整结果，数值保留全部精度 */
+  result: CalculationResult;
+  /** teacher、entries、policy、options、result 按键名排序后 JSON 的 SHA-256（十六进制） */
+  hash: string;
+}
+
+/** 存档结果与重新计算结果不一致的字段，path 形如 monthDetails[3].allocations[0].gain */
+export interface BundleMismatch { path: string; archived: string; recalculated: string; }
+
+// 键名排序后序列化，同样的内容总得到同样的文本
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).filter(k => record[k] !== undefined).sort();
+    return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalJson(record[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+async function contentHash(bundle: Pick<ResultBundle, "teacher" | "entries" | "policy" | "options" | "result">): Promise<string> {
+  const { teacher, entries, policy, options, result } = bundle;
+  const text = canonicalJson({ teacher, entries, policy, options, result });
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function createBundle(result: CalculationResult, teacher: string): Promise<ResultBundle> {
+  const content = { teacher, entries: result.entries, policy: result.policy, options: result.options, result };
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...content,
+    hash: await contentHash(content),
+  };
+}
+
+// 岗位须在存档的规则中，日期须为 YYYY-MM-DD 且不颠倒，否则无法重新计算
+function isEntry(value: unknown, policy: ScoringPolicy): value is RoleEntry {
+  const e = value as RoleEntry;
+  return !!e && typeof e.role === "string" && !!findRole(policy, e.role)
+    && isIsoDate(e.start) && isIsoDate(e.end) && e.start <= e.end;
+}
+
+/** 读取存档并校验格式；hashMatches 为 false 表示内容在导出后被改动过 */
+export async function readBundle(text: string): Promise<{ bundle: ResultBundle; hashMatches: boolean }> {
+  let raw: Partial<ResultBundle>;
+  try {
+    raw = JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch {
+    throw new Error(t("bundle.notJson"));
+  }
+  if (raw?.format !== BUNDLE_FORMAT) throw new Error(t("bundle.notBundle"));
+  if (raw.schemaVersion !== BUNDLE_SCHEMA_VERSION) throw new Error(t("bundle.unsupportedVersion", { version: String(raw.schemaVersion) }));
+  const policy = parsePolicy(raw.policy);
+  if (!Array.isArray(raw.entries) || !raw.entries.every(e => isEntry(e, policy))) throw new Error(t("bundle.invalidField", { field: "entries" }));
+  if (!raw.options || !PRORATION_MODES.includes(raw.options.proration)
+    || (raw.options.ordering !== undefined && !ORDERING_STRATEGIES.includes(raw.options.ordering))
+    || (raw.options.cutoff !== undefined && !isIsoDate(raw.options.cutoff))) {
+    throw new Error(t("bundle.invalidField", { field: "options" }));
+  }
+  if (!raw.result || typeof raw.result !== "object") throw new Error(t("bundle.invalidField", { field: "result" }));
+  if (typeof raw.hash !== "string") throw new Error(t("bundle.invalidField", { field: "hash" }));
+
+  const bundle: ResultBundle = {
+    format: BUNDLE_FORMAT,
+    schemaVersion: raw.schemaVersion,
+    exportedAt: String(raw.exportedAt ?? ""),
+    teacher: String(raw.teacher ?? ""),
+    entries: raw.entries,
+    policy,
+    options: raw.options,
+    result: raw.result,
+    hash: raw.hash,
+  };
+  // 哈希按存档中的原始内容计算，规则经 parsePolicy 补全的默认值不影响核对
+  const hashMatches = await contentHash({ ...bundle, policy: raw.policy as ScoringPolicy }) === raw.hash;
+  return { bundle, hashMatches };
+}
+
+/** 逐字段比较存档结果与重新计算的结果，数值要求完全相同 */
+export function compareResults(archived: CalculationResult, recalculated: CalculationResult): BundleMismatch[] {
+  const mismatches: BundleMismatch[] = [];
+  const walk = (a: unknown, b: unknown, path: string) => {
+    if (Array.isArray(a) && Array.isArray(b)) {
+      for (let i = 0; i < Math.max(a.length, b.length); i++) walk(a[i], b[i], `${path}[${i}]`);
+    } else if (a && b && typeof a === "object" && typeof b === "object" && !Array.isArray(a) && !Array.isArray(b)) {
+      const ra = a as Record<string, unknown>;
+      const rb = b as Record<string, unknown>;
+      [...new Set([...Object.keys(ra), ...Object.keys(rb)])].forEach(k => walk(ra[k], rb[k], path ? `${path}.${k}` : k));
+    } else if (canonicalJson(a) !== canonicalJson(b)) {
+      const show = (value: unknown) => value === undefined ? "—" : canonicalJson(value);
+      mismatches.push({ path, archived: show(a), recalculated: show(b) });
+    }
+  };
+  walk(archived, recalculated, "");
+  return mismatches;
+}
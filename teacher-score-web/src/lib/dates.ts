@@ -0,0 +1,34 @@
+// ----- 日期写法：人事材料里的各种写法统一成 YYYY-MM-DD -----
+
+/** 结束日期写这些词表示仍在任，计算时取评审截止日期（未设置时为当天） */
+const OPEN_END_WORDS = ["至今", "今", "现在", "目前", "在任", "present", "now", "current", "ongoing"];
+
+export function isOpenEnd(text: string): boolean {
+  return OPEN_END_WORDS.includes(text.trim().toLowerCase());
+}
+
+/** 已是规范的 YYYY-MM-DD 写法（如保存的截止日期） */
+export function isIsoDate(text: unknown): text is string {
+  return typeof text === "string" && normalizeDate(text, "end") === text;
+}
+
+/** 本地时区的当天日期 */
+export function today(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * 接受 2006-09-01、2006/9/1、2006.9.1、2006年9月1日，以及只写到月份的 2006-09、2006.09、2006年9月。
+ * 只写到月份时，开始日期取当月 1 日，结束日期取当月最后一天；无法识别或日期不存在时返回 null。
+ */
+export function normalizeDate(text: string, edge: "start" | "end"): string | null {
+  const parts = text.trim().replace(/日$/, "").split(/\s*[-/.年月]\s*/).filter(Boolean);
+  if (parts.length < 2 || parts.length > 3 || !/^\d{4}$/.test(parts[0]) || !parts.slice(1).every(p => /^\d{1,2}$/.test(p))) return null;
+  const [year, month] = parts.map(Number);
+  if (month < 1 || month > 12) return null;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const day = parts[2] !== undefined ? Number(parts[2]) : edge === "start" ? 1 : lastDay;
+  if (day < 1 || day > lastDay) return null;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
@@ -0,0 +1,112 @@
+import { ymToIndex, type CalculationResult, type MonthAllocation, type RoleEntry } from "./engine";
+
+// ----- 两次计算的差异：任职记录更正前后，得分具体变在哪里 -----
+
+/** changed 为同一岗位、时段有交叠的记录改了起止日期 */
+export type EntryChange = "unchanged" | "changed" | "added" | "removed";
+
+export interface EntryDiff { change: EntryChange; before: RoleEntry | null; after: RoleEntry | null; }
+
+export interface RoleDelta {
+  role: string;
+  before: number;
+  after: number;
+  delta: number;
+  beforeCapped: boolean;
+  afterCapped: boolean;
+}
+
+/** 分配有变化的月份；某一侧没有该月时，该侧的分配为空 */
+export interface MonthDelta { ym: string; before: MonthAllocation[]; after: MonthAllocation[]; delta: number; }
+
+export interface ResultDiff {
+  entries: EntryDiff[];
+  /** 两边有得分的岗位，岗位顺序以修改后的规则为准 */
+  roles: RoleDelta[];
+  totalBefore: number;
+  totalAfter: number;
+  totalDelta: number;
+  totalCapBefore: string | null;
+  totalCapAfter: string | null;
+  months: MonthDelta[];
+}
+
+const EPSILON = 1e-9;
+
+const sameEntry = (a: RoleEntry, b: RoleEntry) => a.role === b.role && a.start === b.start && a.end === b.end;
+
+const overlaps = (a: RoleEntry, b: RoleEntry) =>
+  a.role === b.role && ymToIndex(a.start) <= ymToIndex(b.end) && ymToIndex(b.start) <= ymToIndex(a.end);
+
+// 先配对完全相同的记录，再把同一岗位、时段交叠的记录视为改了日期，其余为新增或删除
+function diffEntries(before: RoleEntry[], after: RoleEntry[]): EntryDiff[] {
+  const restBefore = [...before];
+  const pairs: EntryDiff[] = [];
+  const unpaired: RoleEntry[] = [];
+  after.forEach(entry => {
+    const idx = restBefore.findIndex(b => sameEntry(b, entry));
+    if (idx < 0) unpaired.push(entry);
+    else pairs.push({ change: "unchanged", before: restBefore.splice(idx, 1)[0], after: entry });
+  });
+  unpaired.forEach(entry => {
+    const idx = restBefore.findIndex(b => overlaps(b, entry));
+    if (idx < 0) pairs.push({ change: "added", before: null, after: entry });
+    else pairs.push({ change: "changed", before: restBefore.splice(idx, 1)[0], after: entry });
+  });
+  restBefore.forEach(entry => pairs.push({ change: "removed", before: entry, after: null }));
+
+  const keyOf = (d: EntryDiff) => (d.after ?? d.before)!;
+  return pairs.sort((a, b) => keyOf(a).start.localeCompare(keyOf(b).start) || keyOf(a).role.localeCompare(keyOf(b).role));
+}
+
+function sameAllocations(a: MonthAllocation[], b: MonthAllocation[]): boolean {
+  return a.length === b.length && a.every((x, i) =>
+    x.role === b[i].role && Math.abs(x.weight - b[i].weight) < EPSILON && Math.abs(x.gain - b[i].gain) < EPSILON);
+}
+
+const gainOf = (allocations: MonthAllocation[]) => allocations.reduce((s, a) => s + a.gain, 0);
+
+export function diffResults(before: CalculationResult, after: CalculationResult): ResultDiff {
+  const codes = [...new Set([...after.policy.roles.map(r => r.code), ...before.policy.roles.map(r => r.code)])];
+  const roles = codes.flatMap(role => {
+    const b = before.roleSummary.find(r => r.role === role);
+    const a = after.roleSummary.find(r => r.role === role);
+    if (!(b?.rawScore || a?.rawScore)) return [];
+    const delta = (a?.score ?? 0) - (b?.score ?? 0);
+    return [{
+      role,
+      before: b?.score ?? 0,
+      after: a?.score ?? 0,
+      delta: Math.abs(delta) < EPSILON ? 0 : delta,
+      beforeCapped: b?.capped ?? false,
+      afterCapped: a?.capped ?? false,
+    }];
+  });
+
+  const beforeMonths = new Map(before.monthDetails.map(m => [m.ym, m.allocations]));
+  const afterMonths = new Map(after.monthDetails.map(m => [m.ym, m.allocations]));
+  const yms = [...new Set([...beforeMonths.keys(), ...afterMonths.keys()])].sort();
+  const months = yms.flatMap(ym => {
+    const b = beforeMonths.get(ym) ?? [];
+    const a = afterMonths.get(ym) ?? [];
+    return sameAllocations(b, a) ? [] : [{ ym, before: b, after: a, delta: gainOf(a) - gainOf(b) }];
+  });
+
+  const totalDelta = after.totalScore - before.totalScore;
+  return {
+    entries: diffEntries(before.entries, after.entries),
+    roles,
+    totalBefore: before.totalScore,
+    totalAfter: after.totalScore,
+    totalDelta: Math.abs(totalDelta) < EPSILON ? 0 : totalDelta,
+    totalCapBefore: before.totalCapReachedAt,
+    totalCapAfter: after.totalCapReachedAt,
+    months,
+  };
+}
+
+/** 两次计算的结果完全一致 */
+export function isUnchanged(diff: ResultDiff): boolean {
+  return diff.totalDelta === 0 && diff.months.length === 0 && diff.roles.every(r => r.delta === 0)
+    && diff.entries.every(e => e.change === "unchanged");
+}
@@ -0,0 +1,421 @@
+import { isOpenEnd, normalizeDate, today } from "./dates";
+import { t } from "./i18n";
+import { greedyRank, planRank, priorityRank, searchBestPlan, type OrderingStrategy, type RankFn, type ScheduledMonth } from "./ordering";
+import { baselineFor, resolveRole, tierIndexFor, type ScoringPolicy, type TotalCapRule } from "./policy";
+import { cellsToFields, detectLayout, metaOf, tableRows } from "./tabular";
+
+// ----- 计分引擎（不依赖浏览器，供界面与命令行共用） -----
+export function ymToIndex(dateStr: string): number {
+  const [y, m] = dateStr.split("-").map(Number);
+  return y * 12 + (m - 1);
+}
+
+export function indexToYM(index: number): string {
+  const y = Math.floor(index / 12);
+  const m = (index % 12) + 1;
+  return `${y}-${String(m).padStart(2, "0")}`;
+}
+
+export function daysInMonth(index: number): number {
+  return new Date(Date.UTC(Math.floor(index / 12), (index % 12) + 1, 0)).getUTCDate();
+}
+
+/**
+ * 某月在岗的各岗位及当月在岗比例。同一岗位有几段任职落在同一个月时合为一项，只占一个位次：
+ * 整月计算时记为 1，按天折算时按各段覆盖天数的并集折算，重叠的天数不重复计。
+ */
+function servingRoles(entries: RoleEntry[], index: number, proration: ProrationMode): { role: string; fraction: number }[] {
+  const days = new Map<string, [number, number][]>();
+  entries.filter(e => index >= ymToIndex(e.start) && index <= ymToIndex(e.end)).forEach(e => {
+    const firstDay = ymToIndex(e.start) === index ? Number(e.start.slice(8, 10)) : 1;
+    const lastDay = ymToIndex(e.end) === index ? Number(e.end.slice(8, 10)) : daysInMonth(index);
+    days.set(e.role, [...days.get(e.role) ?? [], [firstDay, lastDay]]);
+  });
+  return [...days].map(([role, ranges]) => {
+    if (proration === "month") return { role, fraction: 1 };
+    let covered = 0;
+    let reached = 0;
+    ranges.sort((a, b) => a[0] - b[0]).forEach(([first, last]) => {
+      covered += Math.max(0, last - Math.max(first - 1, reached));
+      reached = Math.max(reached, last);
+    });
+    return { role, fraction: covered / daysInMonth(index) };
+  });
+}
+
+/** month：开始、结束月份均按整月计；day：首末月按实际在岗天数折算 */
+export type ProrationMode = "month" | "day";
+
+/**
+ * ordering 为每月候选岗位的排序方式，缺省（含早期保存的结果）按 greedy；
+ * cutoff 为评审截止日期（YYYY-MM-DD），晚于该日开始的任职不计，跨过该日的任职截到当天。
+ */
+export interface CalcOptions { proration: ProrationMode; ordering?: OrderingStrategy; cutoff?: string; }
+
+export const DEFAULT_OPTIONS: CalcOptions = { proration: "month" };
+
+export const PRORATION_MODES: ProrationMode[] = ["month", "day"];
+
+export function orderingOf(options: CalcOptions): OrderingStrategy {
+  return options.ordering ?? "greedy";
+}
+
+/** 结束日期写「至今」时取的日期：有截止日期取截止日期，否则取当天 */
+export function openEndDate(options: CalcOptions): string {
+  return options.cutoff ?? today();
+}
+
+/** role 为岗位代码，录入时的名称或别名在解析时换成代码 */
+/** meta 为导入时起止日期等字段之外的附加列（如任职文号、备注），不参与计分 */
+export interface RoleEntry { role: string; start: string; end: string; meta?: Record<string, string>; }
+/** cappedGroup 为使岗位封顶的合计封顶组（policy.capGroups 的下标） */
+interface RoleState { score: number; monthsServed: number; tier: number; capped: boolean; cappedBy: "role" | "combo" | null; cappedGroup: number | null; }
+export interface MonthAllocation { role: string; weight: number; gain: number; }
+
+/**
+ * 每个在岗岗位当月的计分原因：
+ * credited 正常计分；cap_limited / combo_limited 得分被岗位封顶或合计封顶截断；
+ * role_capped / combo_capped 此前已封顶，当月不再计分；no_slot 排在权重阶梯之外；
+ * total_limited 当月总分触顶，只分得剩余分数；total_capped 总分已封顶，当月不再计分。
+ */
+export type TraceReason =
+  | "credited" | "cap_limited" | "combo_limited" | "role_capped" | "combo_capped" | "no_slot"
+  | "total_limited" | "total_capped";
+
+export interface RoleTrace {
+  role: string;
+  reason: TraceReason;
+  /** 截至当月（含）的任职月数，按天折算时可为小数 */
+  monthsServed: number;
+  /** 当月在岗天数占比，整月计算时为 1 */
+  fraction: number;
+  /** 当月适用的年基准分 */
+  baseline: number;
+  /** 当月是否刚进入更高的基准分档位 */
+  tierUpgraded: boolean;
+  /** 排序位次（从 1 起算），未参与排序时为 null */
+  slot: number | null;
+  weight: number;
+  /** 未经封顶截断的应得分 */
+  rawGain: number;
+  gain: number;
+  scoreBefore: number;
+  /**
+   * 起作用的合计封顶组（policy.capGroups 的下标）：已因合计封顶停止计分时为封顶的组，
+   * 否则为所属各组中剩余额度最少的组；不属于任何组时为 null
+   */
+  capGroup: number | null;
+  /** capGroup 当月计分前的合计得分 */
+  comboBefore: number | null;
+}
+
+export interface MonthDetail { ym: string; allocations: MonthAllocation[]; trace: RoleTrace[]; }
+/** role 为岗位代码；score 为总分封顶后的实得分，rawScore 为不考虑总分封顶时的得分 */
+export interface RoleSummary { role: string; score: number; rawScore: number; cap: number; capped: boolean; }
+/**
+ * group 为 policy.capGroups 的下标；used 为组内各岗位不考虑总分封顶时的得分之和。
+ * reachedAt 为合计达到封顶的年月；capped 只在总分封顶前达到时为 true（之后达到并未实际生效）。
+ */
+export interface GroupSummary { group: number; used: number; cap: number; capped: boolean; reachedAt: string | null; }
+export interface CalculationResult {
+  policy: ScoringPolicy;
+  options: CalcOptions;
+  /** 参与计分的任职记录，已按截止日期截断 */
+  entries: RoleEntry[];
+  roleSummary: RoleSummary[];
+  groupSummary: GroupSummary[];
+  /** 总分封顶后的总分 */
+  totalScore: number;
+  /** 不考虑总分封顶时累计的总分 */
+  rawTotal: number;
+  /** 总分达到封顶的年月，未达到时为 null */
+  totalCapReachedAt: string | null;
+  monthDetails: MonthDetail[];
+}
+export interface TeacherResult { teacher: string; result: CalculationResult; }
+
+function toEntry(roleText: string, [start, end]: [string, string], meta: Record<string, string> | undefined, policy: ScoringPolicy): RoleEntry {
+  const role = resolveRole(policy, roleText);
+  if (!role) throw new Error(t("engine.unknownRole", { role: roleText }));
+  if (end < start) throw new Error(t("engine.dateOrder", { role: roleText }));
+  return meta ? { role: role.code, start, end, meta } : { role: role.code, start, end };
+}
+
+// 日期按 normalizeDate 的各种写法识别，结束日期写「至今」时取 openEnd
+function parseDates(startText: string, endText: string, openEnd: string): [string, string] | null {
+  const start = normalizeDate(startText, "start");
+  const end = isOpenEnd(endText) ? openEnd : normalizeDate(endText, "end");
+  return start && end ? [start, end] : null;
+}
+
+// 写「至今」的任职在截止日期之后才开始时不计入，与写明结束日期、整段在截止日期之后的任职一样
+function startsAfterOpenEnd(endText: string, [start, end]: [string, string]): boolean {
+  return isOpenEnd(endText) && start > end;
+}
+
+/**
+ * 逗号、制表符、分号分隔均可，表头行自动跳过，各列含义按表头或内容识别（见 detectLayout）。
+ * openEnd 为结束日期写「至今」时取的日期，通常由 openEndDate(options) 给出。
+ */
+export function parseEntries(csvText: string, policy: ScoringPolicy, openEnd: string = today()): RoleEntry[] {
+  const layout = detectLayout(csvText, policy, false);
+  return tableRows(csvText, layout).flatMap(({ line, text, cells }) => {
+    const { role, start, end } = cellsToFields(cells, layout.mapping);
+    const dates = parseDates(start, end, openEnd);
+    if (!dates) throw new Error(t("engine.badLine", { line, text }));
+    if (startsAfterOpenEnd(end, dates)) return [];
+    return [toEntry(role, dates, metaOf(cells, layout.header, layout.mapping), policy)];
+  });
+}
+
+// 批量模式：每行另有一列教师工号或姓名，按教师分组，保持首次出现的顺序
+export function parseRoster(csvText: string, policy: ScoringPolicy, openEnd: string = today()): Map<string, RoleEntry[]> {
+  const roster = new Map<string, RoleEntry[]>();
+  const layout = detectLayout(csvText, policy, true);
+  tableRows(csvText, layout).forEach(({ line, text, cells }) => {
+    const { teacher, role, start, end } = cellsToFields(cells, layout.mapping);
+    const dates = parseDates(start, end, openEnd);
+    if (!teacher || !dates) throw new Error(t("engine.badLine", { line, text }));
+    if (startsAfterOpenEnd(end, dates)) {
+      roster.set(teacher, roster.get(teacher) ?? []);
+      return;
+    }
+    try {
+      const entry = toEntry(role, dates, metaOf(cells, layout.header, layout.mapping), policy);
+      roster.set(teacher, [...(roster.get(teacher) ?? []), entry]);
+    } catch (e) {
+      throw new Error(t("engine.rosterLine", { line, teacher, message: (e as Error).message }));
+    }
+  });
+  return roster;
+}
+
+export function calculate(csvText: string, policy: ScoringPolicy, options: CalcOptions = DEFAULT_OPTIONS): CalculationResult {
+  return scoreEntries(parseEntries(csvText, policy, openEndDate(options)), policy, options);
+}
+
+export function calculateRoster(csvText: string, policy: ScoringPolicy, options: CalcOptions = DEFAULT_OPTIONS): TeacherResult[] {
+  return [...parseRoster(csvText, policy, openEndDate(options))].map(([teacher, entries]) => ({ teacher, result: scoreEntries(entries, policy, options) }));
+}
+
+/** 总分触顶当月，把剩余分数 remaining 按规则分给当月各岗位（gains 已按排序位次排列） */
+function splitRemaining(gains: number[], remaining: number, rule: TotalCapRule): number[] {
+  if (rule === "proportional") {
+    const monthGain = gains.reduce((s, g) => s + g, 0);
+    return gains.map(g => g * remaining / monthGain);
+  }
+  let left = remaining;
+  return gains.map(g => {
+    const credit = Math.min(g, left);
+    left -= credit;
+    return credit;
+  });
+}
+
+/** 逐月在岗的候选岗位及其应得基准分；未封顶岗位的任职月数与排序无关，可预先算出 */
+function monthSchedule(entries: RoleEntry[], policy: ScoringPolicy, options: CalcOptions): ScheduledMonth[] {
+  const minYM = Math.min(...entries.map(e => ymToIndex(e.start)));
+  const maxYM = Math.max(...entries.map(e => ymToIndex(e.end)));
+  const roleInfo = Object.fromEntries(policy.roles.map(r => [r.code, r]));
+  const served: Record<string, number> = Object.fromEntries(policy.roles.map(r => [r.code, 0]));
+  const schedule: ScheduledMonth[] = [];
+  for (let ymIdx = minYM; ymIdx <= maxYM; ymIdx++) {
+    const candidates = servingRoles(entries, ymIdx, options.proration).map(({ role, fraction }) => {
+      const baseline = baselineFor(roleInfo[role], Math.floor(served[role] + 1e-9));
+      served[role] += fraction;
+      return { role, baselinePerMonth: baseline / 12 * fraction };
+    });
+    if (candidates.length) schedule.push({ ymIdx, candidates });
+  }
+  return schedule;
+}
+
+/**
+ * onProgress 在逐月计算时报告已处理的月数，供 Web Worker 回报进度。
+ * best 排序先搜索逐月顺序，再与贪心、固定优先级的结果比较，取总分最高者（相同时优先贪心）。
+ */
+export function scoreEntries(
+  entries: RoleEntry[], policy: ScoringPolicy, options: CalcOptions = DEFAULT_OPTIONS,
+  onProgress?: (monthsDone: number, monthsTotal: number) => void,
+): CalculationResult {
+  if (options.cutoff) entries = truncateAt(entries, options.cutoff);
+  switch (orderingOf(options)) {
+    case "greedy":
+      return runScoring(entries, policy, options, greedyRank, onProgress);
+    case "priority":
+      return runScoring(entries, policy, options, priorityRank(policy), onProgress);
+    case "best": {
+      const plan = searchBestPlan(monthSchedule(entries, policy, options), policy, onProgress);
+      return [greedyRank, planRank(plan), priorityRank(policy)]
+        .map(rank => runScoring(entries, policy, options, rank))
+        .reduce((best, result) => result.totalScore > best.totalScore + 1e-9 ? result : best);
+    }
+  }
+}
+
+/** 截止日期之后开始的任职去掉，跨过截止日期的截到当天 */
+function truncateAt(entries: RoleEntry[], cutoff: string): RoleEntry[] {
+  return entries.filter(e => e.start <= cutoff).map(e => e.end > cutoff ? { ...e, end: cutoff } : e);
+}
+
+/** 按给定的逐月排序计分（不截断截止日期之后的任职）；scoreEntries 按 options.ordering 选定排序后调用 */
+export function runScoring(
+  entries: RoleEntry[], policy: ScoringPolicy, options: CalcOptions, rank: RankFn,
+  onProgress?: (monthsDone: number, monthsTotal: number) => void,
+): CalculationResult {
+  const minYM = Math.min(...entries.map(e => ymToIndex(e.start)));
+  const maxYM = Math.max(...entries.map(e => ymToIndex(e.end)));
+  const monthsTotal = maxYM - minYM + 1;
+
+  const roleInfo = Object.fromEntries(policy.roles.map(r => [r.code, r]));
+  const roleState: Record<string, RoleState> = Object.fromEntries(policy.roles.map(r => [r.code, { score: 0, monthsServed: 0, tier: 0, capped: false, cappedBy: null, cappedGroup: null }]));
+  const groups = policy.capGroups;
+  const groupsOf: Record<string, number[]> = Object.fromEntries(policy.roles.map(r => [r.code, groups.flatMap((g, gi) => g.roles.includes(r.code) ? [gi] : [])]));
+  const groupScore = (gi: number) => groups[gi].roles.reduce((s, r) => s + roleState[r].score, 0);
+  // 所属各组中剩余额度最少的一组决定当月还能得多少分
+  const tightestGroup = (role: string) => groupsOf[role].reduce<number | null>(
+    (best, gi) => best === null || groups[gi].cap - groupScore(gi) < groups[best].cap - groupScore(best) ? gi : best, null);
+  const groupReachedAt: (string | null)[] = groups.map(() => null);
+  const monthDetails: MonthDetail[] = [];
+  // 总分封顶只截断实得分，roleState 继续按不封顶累计，用于给出原始总分
+  const credited: Record<string, number> = Object.fromEntries(policy.roles.map(r => [r.code, 0]));
+  let creditedTotal = 0;
+  let totalCapReachedAt: string | null = null;
+  let cappedAtTotal: Record<string, boolean> | null = null;
+
+  for (let i = 0; i < monthsTotal; i++) {
+    onProgress?.(i, monthsTotal);
+    const ymIdx = minYM + i;
+    const ymStr = indexToYM(ymIdx);
+    const serving = servingRoles(entries, ymIdx, options.proration);
+    if (!serving.length) continue;
+
+    const monthLog: MonthDetail = { ym: ymStr, allocations: [], trace: [] };
+
+    // 已封顶的岗位不参与排序，只记录原因
+    serving.filter(({ role }) => roleState[role].capped).forEach(({ role, fraction }) => {
+      const { monthsServed, score, cappedBy, cappedGroup } = roleState[role];
+      const group = cappedBy === "combo" ? cappedGroup : tightestGroup(role);
+      monthLog.trace.push({
+        role, reason: cappedBy === "combo" ? "combo_capped" : "role_capped",
+        monthsServed: +monthsServed.toFixed(4), fraction: +fraction.toFixed(4),
+        baseline: baselineFor(roleInfo[role], Math.floor(monthsServed + 1e-9)), tierUpgraded: false,
+        slot: null, weight: 0, rawGain: 0, gain: 0, scoreBefore: +score.toFixed(4),
+        capGroup: group, comboBefore: group === null ? null : +groupScore(group).toFixed(4),
+      });
+    });
+
+    const candidates = serving.filter(({ role }) => !roleState[role].capped).map(({ role, fraction }) => {
+      const info = roleInfo[role];
+      const state = roleState[role];
+      // 档位按此前累计的完整任职月数确定
+      const tier = tierIndexFor(info, Math.floor(state.monthsServed + 1e-9));
+      const tierUpgraded = tier > state.tier;
+      state.tier = tier;
+      state.monthsServed += fraction;
+      const baseline = info.tiers[tier].baseline;
+      // 折算后的当月应得基准分参与排序，避免零星几天的任职占用高权重位次
+      return { role, fraction, baseline, tierUpgraded, baselinePerMonth: baseline / 12 * fraction, remainingCap: info.cap - state.score + 1e-9 };
+    });
+
+    const ranked = rank(candidates, ymIdx);
+
+    const pending: { trace: RoleTrace; gain: number }[] = [];
+    ranked.forEach(({ role, fraction, baseline, tierUpgraded, baselinePerMonth }, w) => {
+      const scoreBefore = roleState[role].score;
+      const group = tightestGroup(role);
+      const base = {
+        role, monthsServed: +roleState[role].monthsServed.toFixed(4), fraction: +fraction.toFixed(4), baseline, tierUpgraded, slot: w + 1,
+        scoreBefore: +scoreBefore.toFixed(4), capGroup: group, comboBefore: group === null ? null : +groupScore(group).toFixed(4),
+      };
+
+      if (w >= policy.weights.length) {
+        monthLog.trace.push({ ...base, reason: "no_slot", weight: 0, rawGain: 0, gain: 0 });
+        return;
+      }
+
+      const weight = policy.weights[w];
+      const rawGain = baselinePerMonth * weight;
+      let gain = rawGain;
+      let reason: TraceReason = "credited";
+
+      if (group !== null) {
+        const remainingCombo = groups[group].cap - groupScore(group);
+        if (remainingCombo <= 0) { gain = 0; reason = "combo_capped"; }
+        else if (gain > remainingCombo) { gain = remainingCombo; reason = "combo_limited"; }
+      }
+
+      const allowable = Math.min(gain, roleInfo[role].cap - scoreBefore);
+      if (allowable < gain) reason = "cap_limited";
+      roleState[role].score += allowable;
+
+      groupsOf[role].filter(gi => groupScore(gi) >= groups[gi].cap - 1e-6).forEach(gi => {
+        if (groupReachedAt[gi] === null) groupReachedAt[gi] = ymStr;
+        groups[gi].roles.forEach(r => {
+          if (!roleState[r].capped) {
+            roleState[r].cappedBy = "combo";
+            roleState[r].cappedGroup = gi;
+          }
+          roleState[r].capped = true;
+        });
+      });
+
+      if (roleState[role].score >= roleInfo[role].cap - 1e-6) {
+        roleState[role].capped = true;
+        roleState[role].cappedBy = "role";
+      }
+
+      const trace: RoleTrace = { ...base, reason, weight, rawGain: +rawGain.toFixed(4), gain: +allowable.toFixed(4) };
+      monthLog.trace.push(trace);
+      pending.push({ trace, gain: allowable });
+    });
+
+    // ----- 总分封顶 -----
+    const alreadyCapped = totalCapReachedAt !== null;
+    let credits = pending.map(p => p.gain);
+    const monthGain = credits.reduce((s, g) => s + g, 0);
+    const remaining = policy.totalCap - creditedTotal;
+    if (alreadyCapped) {
+      credits = credits.map(() => 0);
+    } else if (monthGain > 0 && monthGain >= remaining - 1e-6) {
+      credits = splitRemaining(credits, remaining, policy.totalCapRule);
+      totalCapReachedAt = ymStr;
+    }
+    pending.forEach(({ trace, gain }, idx) => {
+      const credit = credits[idx];
+      if (credit < gain - 1e-9) {
+        trace.reason = alreadyCapped || credit <= 1e-9 ? "total_capped" : "total_limited";
+        trace.gain = +credit.toFixed(4);
+      }
+      credited[trace.role] += credit;
+      creditedTotal += credit;
+      if (!alreadyCapped) monthLog.allocations.push({ role: trace.role, weight: trace.weight, gain: +credit.toFixed(4) });
+    });
+    if (totalCapReachedAt === ymStr) {
+      cappedAtTotal = Object.fromEntries(policy.roles.map(r => [r.code, roleState[r.code].capped]));
+    }
+    monthDetails.push(monthLog);
+  }
+
+  const roleSummary: RoleSummary[] = policy.roles.map(r => ({
+    role: r.code,
+    score: +credited[r.code].toFixed(4),
+    rawScore: +roleState[r.code].score.toFixed(4),
+    cap: r.cap,
+    // 总分封顶后才达到的岗位封顶并未实际生效
+    capped: cappedAtTotal ? cappedAtTotal[r.code] : roleState[r.code].capped,
+  }));
+  const groupSummary: GroupSummary[] = groups.map((g, gi) => {
+    const reachedAt = groupReachedAt[gi];
+    return {
+      group: gi,
+      used: +groupScore(gi).toFixed(4),
+      cap: g.cap,
+      capped: reachedAt !== null && (totalCapReachedAt === null || reachedAt <= totalCapReachedAt),
+      reachedAt,
+    };
+  });
+  const totalScore = +roleSummary.reduce((s,r)=>s+r.score,0).toFixed(4);
+  const rawTotal = +roleSummary.reduce((s,r)=>s+r.rawScore,0).toFixed(4);
+  return { policy, options, entries, roleSummary, groupSummary, totalScore, rawTotal, totalCapReachedAt, monthDetails };
+}
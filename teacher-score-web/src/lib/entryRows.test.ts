@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { csvToRows, rowsToCsv, type EntryRow } from "./entryRows";
+import { DEFAULT_POLICY } from "./policy";
+import { parseEntries } from "./engine";
+
+const row = (role: string, start: string, end: string, meta?: Record<string, string>): EntryRow => ({ teacher: "", role, start, end, meta });
+
+describe("rowsToCsv / csvToRows", () => {
+  it("首行开始日期为空时，编辑器写出的 CSV 读回后各列不错位", () => {
+    const rows = [row("班主任", "", "2010-08-31"), row("班主任", "2012-09-01", "2014-08-31"), row("年级组长", "2015-09-01", "至今")];
+    const back = csvToRows(rowsToCsv(rows, false), DEFAULT_POLICY, false);
+    expect(back).toEqual(rows);
+  });
+
+  it("批量模式教师列在前，附加信息按表头列名保留", () => {
+    const rows = [
+      { ...row("班主任", "", "2010-08-31", { 备注: "代理" }), teacher: "张三" },
+      { ...row("副班主任", "2011-09-01", "2012-08-31"), teacher: "李四" },
+    ];
+    const text = rowsToCsv(rows, true);
+    expect(text.split("\n")[0]).toBe('"教师","岗位","开始日期","结束日期","备注"');
+    expect(csvToRows(text, DEFAULT_POLICY, true)).toEqual(rows);
+  });
+});
+
+describe("粘贴的表格", () => {
+  it("没有表头时按多数行猜测各列，首行开始日期为空也不错位", () => {
+    const text = "备注一\t班主任\t\t2010-08-31\n\t班主任\t2012-09-01\t2014-08-31\n\t年级组长\t2015-09-01\t2016-08-31";
+    const rows = csvToRows(text, DEFAULT_POLICY, false);
+    expect(rows.map(r => [r.role, r.start, r.end])).toEqual([
+      ["班主任", "", "2010-08-31"],
+      ["班主任", "2012-09-01", "2014-08-31"],
+      ["年级组长", "2015-09-01", "2016-08-31"],
+    ]);
+  });
+
+  it("开始日期为空的行在计算时按该行报错", () => {
+    expect(() => parseEntries('班主任,,2010-08-31\n班主任,2012-09-01,2014-08-31', DEFAULT_POLICY, "2024-09-01")).toThrow(/第 1 行/);
+  });
+});
@@ -0,0 +1,69 @@
+import { isOpenEnd, normalizeDate } from "./dates";
+import { t } from "./i18n";
+import { resolveRole, type ScoringPolicy } from "./policy";
+import { cellsToFields, detectLayout, metaColumns, metaOf, tableRows, type TableLayout } from "./tabular";
+
+// ----- 表格编辑器与 CSV 文本的双向转换 -----
+
+/** meta 为起止日期等字段之外的附加列（如任职文号、备注），键为列名 */
+export interface EntryRow { teacher: string; role: string; start: string; end: string; meta?: Record<string, string>; }
+
+export type EntryField = Exclude<keyof EntryRow, "meta">;
+
+export type RowErrors = Partial<Record<EntryField, string>>;
+
+/** 按识别出的（或用户调整过的）列映射取出各行，格式不对的行也保留，交给 validateRow 标出具体单元格 */
+export function layoutRows(text: string, layout: TableLayout): EntryRow[] {
+  return tableRows(text, layout).map(({ cells }) => ({ ...cellsToFields(cells, layout.mapping), meta: metaOf(cells, layout.header, layout.mapping) }));
+}
+
+/** 宽松拆分：自动识别分隔符、表头和各列含义 */
+export function csvToRows(text: string, policy: ScoringPolicy, withTeacher: boolean): EntryRow[] {
+  return layoutRows(text, detectLayout(text, policy, withTeacher));
+}
+
+/**
+ * 编辑器、导入和审核结果写出的 CSV：列顺序固定为（教师、）岗位、开始日期、结束日期，其后为附加信息。
+ * 首行总是写出表头，重新读入时按表头对应各列，不靠内容猜测（开始日期空着的行不会让整列错位）。
+ */
+export function rowsToCsv(rows: EntryRow[], withTeacher: boolean): string {
+  const quote = (cell: string) => `"${cell.replace(/"/g, '""')}"`;
+  const extra = metaColumns(rows);
+  const header = [t("common.role"), t("common.startDate"), t("common.endDate"), ...extra];
+  if (withTeacher) header.unshift(t("common.teacher"));
+  const lines = rows.map(r => {
+    const cells = [r.role, r.start, r.end, ...extra.map(col => r.meta?.[col] ?? "")];
+    if (withTeacher) cells.unshift(r.teacher);
+    return cells.map(quote).join(",");
+  });
+  return [header.map(quote).join(","), ...lines].join("\n");
+}
+
+export function validateRow(row: EntryRow, policy: ScoringPolicy, withTeacher: boolean): RowErrors {
+  const errors: RowErrors = {};
+  if (withTeacher && !row.teacher) errors.teacher = t("rows.missingTeacher");
+  if (!row.role) errors.role = t("rows.missingRole");
+  else if (!resolveRole(policy, row.role)) errors.role = t("engine.unknownRole", { role: row.role });
+  const start = normalizeDate(row.start, "start");
+  const end = normalizeDate(row.end, "end");
+  if (!start) errors.start = t("rows.invalidStart");
+  // 「至今」要到计算时才知道具体日期，这里不比较先后
+  if (!end && !isOpenEnd(row.end)) errors.end = t("rows.invalidEnd");
+  else if (start && end && end < start) errors.end = t("rows.endBeforeStart");
+  return errors;
+}
+
+/** 一个单元格的问题；row 为文本中非空行的行号（含表头，与计算报错一致）或数组中的序号，均从 1 起算 */
+export interface RowIssue { row: number; field: EntryField; message: string; }
+
+/** 逐行逐格检查，一次列出全部问题；没有问题时返回空数组 */
+export function rowIssues(rows: { row: number; entry: EntryRow }[], policy: ScoringPolicy, withTeacher: boolean): RowIssue[] {
+  return rows.flatMap(({ row, entry }) =>
+    (Object.entries(validateRow(entry, policy, withTeacher)) as [EntryField, string][]).map(([field, message]) => ({ row, field, message })));
+}
+
+/** 按 detectLayout 识别的各列检查粘贴的文本 */
+export function textIssues(text: string, policy: ScoringPolicy, withTeacher: boolean): RowIssue[] {
+  const layout = detectLayout(text, policy, withTeacher);
+  return rowIssues(tableRows(text, layout).map(({ line, cells }) => ({ row: line, entry: cellsToFields(cells, layout.mapping) })), policy, withTeacher);
+}
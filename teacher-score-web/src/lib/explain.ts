@@ -0,0 +1,57 @@
+import type { RoleTrace } from "./engine";
+import { t } from "./i18n";
+import { findRole, groupName, roleName, type ScoringPolicy } from "./policy";
+
+// ----- 计分依据的文字说明（随界面语言） -----
+
+function fmt(n: number): string {
+  return String(+n.toFixed(4));
+}
+
+export function explainTrace(trace: RoleTrace, policy: ScoringPolicy): string {
+  const { slot, weight, baseline, rawGain, gain } = trace;
+  const role = roleName(policy, trace.role);
+  const cap = findRole(policy, trace.role)?.cap ?? 0;
+  const group = trace.capGroup === null ? undefined : policy.capGroups[trace.capGroup];
+  const params = {
+    role, slot: slot ?? "", weight: Math.round(weight * 100), baseline: fmt(baseline), rawGain: fmt(rawGain), gain: fmt(gain), cap,
+    combo: group ? groupName(policy, group) : "", comboCap: group?.cap ?? 0,
+  };
+
+  let text: string;
+  switch (trace.reason) {
+    case "credited":
+      text = t("explain.credited", params);
+      break;
+    case "cap_limited":
+      text = t("explain.capLimited", params);
+      break;
+    case "combo_limited":
+      text = t("explain.comboLimited", params);
+      break;
+    case "role_capped":
+      text = t("explain.roleCapped", params);
+      break;
+    case "combo_capped":
+      text = t("explain.comboCapped", params);
+      break;
+    case "no_slot":
+      text = t("explain.noSlot", { ...params, levels: policy.weights.length });
+      break;
+    case "total_limited":
+      text = t("explain.totalLimited", { ...params, totalCap: policy.totalCap, rule: t(`totalCapRule.${policy.totalCapRule}`) });
+      break;
+    case "total_capped":
+      text = t("explain.totalCapped", { ...params, totalCap: policy.totalCap });
+      break;
+  }
+
+  if (trace.fraction < 1) text += t("explain.prorated", { percent: Math.round(trace.fraction * 100) });
+  if (trace.tierUpgraded) text += t("explain.tierUpgraded", { months: Math.floor(trace.monthsServed - trace.fraction + 1e-9), baseline: fmt(baseline) });
+  return text;
+}
+
+/** 是否值得在明细中单独提示：得分受限、未得分、按天折算或基准分档位变化 */
+export function isNotable(trace: RoleTrace): boolean {
+  return trace.reason !== "credited" || trace.fraction < 1 || trace.tierUpgraded;
+}
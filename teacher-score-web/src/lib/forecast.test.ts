@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { monthsNeeded } from "./forecast";
+import { DEFAULT_POLICY, type ScoringPolicy } from "./policy";
+
+describe("monthsNeeded", () => {
+  it("计划中已担任同一岗位的月份不重复计入", () => {
+    // 班主任年基准分 1：已计划担任 12 个月，再连续担任到满 24 个月才有 2 分
+    const planned = [{ role: "CLASS", start: "2024-07-01", end: "2025-06-30" }];
+    expect(monthsNeeded([], planned, "2024-06-30", "CLASS", 2, "role", DEFAULT_POLICY, { proration: "month" }))
+      .toEqual({ months: 24, until: "2026-06" });
+  });
+
+  it("计划中长期担任同一岗位时不需要再追加", () => {
+    const planned = [{ role: "CLASS", start: "2024-07-01", end: null }];
+    expect(monthsNeeded([], planned, "2024-06-30", "CLASS", 2, "role", DEFAULT_POLICY, { proration: "month" }))
+      .toEqual({ months: 0, until: null });
+  });
+
+  it("多任职反而使总分下降时改为逐月查找", () => {
+    // 按规则顺序排序，基准分低的 X 排在 Y 前面，把 Y 挤到低权重位次
+    const policy: ScoringPolicy = {
+      version: "test",
+      roles: [
+        { name: "X", code: "X", aliases: [], cap: 1, tiers: [{ fromMonth: 0, baseline: 1.2 }], color: "" },
+        { name: "Y", code: "Y", aliases: [], cap: 100, tiers: [{ fromMonth: 0, baseline: 12 }], color: "" },
+      ],
+      weights: [1, 0.1],
+      totalCap: 100,
+      totalCapRule: "ordered",
+      capGroups: [],
+    };
+    const history = [{ role: "Y", start: "2024-01-01", end: "2026-12-31" }];
+    expect(monthsNeeded(history, [], "2024-06-30", "X", 30, "total", policy, { proration: "month", ordering: "priority" }))
+      .toEqual({ months: 0, until: null });
+  });
+});
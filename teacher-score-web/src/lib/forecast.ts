@@ -0,0 +1,180 @@
+import { daysInMonth, indexToYM, scoreEntries, ymToIndex, type CalcOptions, type CalculationResult, type RoleEntry, type TraceReason } from "./engine";
+import { t } from "./i18n";
+import { findRole, type ScoringPolicy } from "./policy";
+
+// ----- 规划预测：按计划任职推算封顶时间，或反推还需任职的月数 -----
+
+/** 计划中的任职，role 为岗位代码，end 为 null 表示长期担任（推算到预测期末） */
+export interface PlannedEntry { role: string; start: string; end: string | null; }
+
+/** 预测期：从预测起点起最多推算 40 年 */
+export const FORECAST_HORIZON_MONTHS = 480;
+
+/** reachedAt 为达到封顶的年月，预测期内达不到时为 null；projected 表示该时间晚于预测起点 */
+/** capGroup 为因合计封顶停止计分时所在的组（policy.capGroups 的下标） */
+export interface RoleMilestone { role: string; cap: number; reachedAt: string | null; cappedBy: "role" | "combo" | null; capGroup: number | null; projected: boolean; }
+
+export interface ForecastResult {
+  asOf: string;
+  horizonEnd: string;
+  /** 截至预测起点当月的实得总分 */
+  currentTotal: number;
+  roleMilestones: RoleMilestone[];
+  totalReachedAt: string | null;
+  result: CalculationResult;
+}
+
+/** 目标口径：total 看总分，role 看所选岗位自身得分 */
+export type GoalScope = "total" | "role";
+
+export interface GoalAnswer { months: number; until: string | null; }
+
+// 岗位在当月有计分（含被封顶截断、被总分封顶截断）的原因，已封顶或排不上位次的不算
+const SCORED_REASONS: TraceReason[] = ["credited", "cap_limited", "combo_limited", "total_limited", "total_capped"];
+
+function monthEnd(index: number): string {
+  return `${indexToYM(index)}-${String(daysInMonth(index)).padStart(2, "0")}`;
+}
+
+function shiftDay(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// 追加的任职去掉已有同岗位任职覆盖的日期：计划中已长期担任该岗位时，追加的月份不应再算一遍
+function clipAgainst(period: RoleEntry, existing: RoleEntry[]): RoleEntry[] {
+  const pieces: RoleEntry[] = [];
+  let from = period.start;
+  existing
+    .filter(e => e.role === period.role && e.end >= period.start && e.start <= period.end)
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .forEach(e => {
+      if (e.start > from) pieces.push({ ...period, start: from, end: shiftDay(e.start, -1) });
+      if (e.end >= from) from = shiftDay(e.end, 1);
+    });
+  if (from <= period.end) pieces.push({ ...period, start: from });
+  return pieces;
+}
+
+function isDate(text: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(text) && !Number.isNaN(new Date(`${text}T00:00:00Z`).getTime());
+}
+
+/** 校验计划任职，并把长期任职的结束日期定为预测期末 */
+export function resolvePlanned(planned: PlannedEntry[], horizonEnd: string, policy: ScoringPolicy): RoleEntry[] {
+  return planned.map((p, idx) => {
+    const fail = (message: string) => new Error(t("forecast.plannedRow", { index: idx + 1, message }));
+    if (!findRole(policy, p.role)) throw fail(t("engine.unknownRole", { role: p.role }));
+    if (!isDate(p.start)) throw fail(t("rows.invalidStart"));
+    if (p.end !== null && !isDate(p.end)) throw fail(t("rows.invalidEnd"));
+    const end = p.end ?? horizonEnd;
+    if (end < p.start) throw fail(t("rows.endBeforeStart"));
+    return { role: p.role, start: p.start, end };
+  });
+}
+
+// 已有任职中的「至今」已按截止日期取定，推算时计划中的任职不再按截止日期截断
+function planningOptions({ proration, ordering }: CalcOptions): CalcOptions {
+  return { proration, ordering };
+}
+
+/**
+ * 封顶时间取自引擎的结果，不用四舍五入后的逐月得分累加：岗位封顶后不再计分，
+ * 达到岗位封顶的月份即最后一次计分的月份；合计封顶取所属各组中最早的 reachedAt。
+ * 与 roleSummary.capped 一致，总分封顶之后才达到的不算。
+ */
+function milestonesOf(result: CalculationResult, asOf: string): RoleMilestone[] {
+  const { policy, roleSummary, groupSummary, totalCapReachedAt } = result;
+  const asOfYM = asOf.slice(0, 7);
+  const lastScored: Record<string, string> = {};
+  result.monthDetails.forEach(m => m.trace.forEach(tr => {
+    if (SCORED_REASONS.includes(tr.reason)) lastScored[tr.role] = m.ym;
+  }));
+
+  return policy.roles.map(r => {
+    const rawScore = roleSummary.find(s => s.role === r.code)?.rawScore ?? 0;
+    const reached = [
+      ...(rawScore >= r.cap && lastScored[r.code] ? [{ ym: lastScored[r.code], cappedBy: "role" as const, capGroup: null }] : []),
+      ...groupSummary.flatMap(g => g.reachedAt !== null && policy.capGroups[g.group].roles.includes(r.code)
+        ? [{ ym: g.reachedAt, cappedBy: "combo" as const, capGroup: g.group }] : []),
+    ].filter(c => totalCapReachedAt === null || c.ym <= totalCapReachedAt);
+    // 取最早达到的封顶，同一个月都达到时按岗位封顶
+    const first = reached.reduce<(typeof reached)[number] | null>((best, c) => best === null || c.ym < best.ym ? c : best, null);
+    return first
+      ? { role: r.code, cap: r.cap, reachedAt: first.ym, cappedBy: first.cappedBy, capGroup: first.capGroup, projected: first.ym > asOfYM }
+      : { role: r.code, cap: r.cap, reachedAt: null, cappedBy: null, capGroup: null, projected: false };
+  });
+}
+
+export function forecast(history: RoleEntry[], planned: PlannedEntry[], asOf: string, policy: ScoringPolicy, options: CalcOptions): ForecastResult {
+  if (!isDate(asOf)) throw new Error(t("forecast.invalidAsOf"));
+  const horizonEnd = monthEnd(ymToIndex(asOf) + FORECAST_HORIZON_MONTHS);
+  const entries = [...history, ...resolvePlanned(planned, horizonEnd, policy)];
+  if (!entries.length) throw new Error(t("forecast.noEntries"));
+
+  const planning = planningOptions(options);
+  const result = scoreEntries(entries, policy, planning);
+  // 当前得分单独按截至预测起点的任职重算，与普通计算结果一致
+  const past = entries.filter(e => e.start <= asOf).map(e => ({ ...e, end: e.end < asOf ? e.end : asOf }));
+  return {
+    asOf,
+    horizonEnd,
+    currentTotal: past.length ? scoreEntries(past, policy, planning).totalScore : 0,
+    roleMilestones: milestonesOf(result, asOf),
+    totalReachedAt: result.totalCapReachedAt,
+    result,
+  };
+}
+
+/**
+ * 在已有任职与计划之外，从预测起点的下个月开始连续担任 role（与已有的同岗位任职重合的日期不重复计），
+ * 求达到目标分所需的最少月数；预测期内达不到时返回 null。
+ */
+export function monthsNeeded(
+  history: RoleEntry[], planned: PlannedEntry[], asOf: string, role: string, target: number, scope: GoalScope,
+  policy: ScoringPolicy, options: CalcOptions,
+): GoalAnswer | null {
+  if (!isDate(asOf)) throw new Error(t("forecast.invalidAsOf"));
+  const info = findRole(policy, role);
+  if (!info) throw new Error(t("engine.unknownRole", { role }));
+  const limit = scope === "total" ? policy.totalCap : info.cap;
+  if (!(target > 0) || target > limit) throw new Error(t("forecast.targetRange", { limit }));
+
+  const firstIdx = ymToIndex(asOf) + 1;
+  const horizonEnd = monthEnd(ymToIndex(asOf) + FORECAST_HORIZON_MONTHS);
+  const base = [...history, ...resolvePlanned(planned, horizonEnd, policy)];
+  const planning = planningOptions(options);
+  const scores = new Map<number, number>();
+  const scoreAt = (months: number) => {
+    if (!scores.has(months)) {
+      const extra = months ? clipAgainst({ role, start: `${indexToYM(firstIdx)}-01`, end: monthEnd(firstIdx + months - 1) }, base) : [];
+      const entries = [...base, ...extra];
+      const result = entries.length ? scoreEntries(entries, policy, planning) : null;
+      scores.set(months, !result ? 0 : scope === "total" ? result.totalScore : result.roleSummary.find(r => r.role === role)?.score ?? 0);
+    }
+    return scores.get(months)!;
+  };
+  const reached = (months: number) => scoreAt(months) >= target - 1e-4;
+
+  // 通常多任职一个月得分不会减少，按月数二分查找
+  let answer: number | null = null;
+  scoreAt(0);
+  if (reached(FORECAST_HORIZON_MONTHS)) {
+    let low = 0;
+    let high = FORECAST_HORIZON_MONTHS;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (reached(mid)) high = mid;
+      else low = mid + 1;
+    }
+    answer = low;
+  }
+  // 按规则顺序排序时，新担任的岗位可能把基准分更高的岗位挤到低权重位次，总分反而下降；
+  // 二分时算过的各点一旦不单调，改为逐月查找
+  const sampled = [...scores].sort((a, b) => a[0] - b[0]);
+  if (sampled.some(([, score], i) => i > 0 && score < sampled[i - 1][1] - 1e-9)) {
+    answer = Array.from({ length: FORECAST_HORIZON_MONTHS + 1 }, (_, months) => months).find(reached) ?? null;
+  }
+  return answer === null ? null : { months: answer, until: answer ? indexToYM(firstIdx + answer - 1) : null };
+}
@@ -0,0 +1,45 @@
+import { zhCN, type MessageKey } from "./locales/zh-CN";
+import { en, enRoleNames } from "./locales/en";
+
+// ----- 界面语言：文案按键取用，计分库、Worker 与命令行共用同一份文案 -----
+
+export type Lang = "zh-CN" | "en";
+
+export const LANGS: Lang[] = ["zh-CN", "en"];
+
+/** 语言名称始终用该语言自身书写 */
+export const LANG_LABELS: Record<Lang, string> = { "zh-CN": "中文", en: "English" };
+
+export type { MessageKey };
+
+const MESSAGES: Record<Lang, Record<MessageKey, string>> = { "zh-CN": zhCN, en };
+
+let current: Lang = "zh-CN";
+
+export function getLang(): Lang {
+  return current;
+}
+
+export function setLang(lang: Lang) {
+  current = lang;
+}
+
+export function isLang(value: unknown): value is Lang {
+  return LANGS.includes(value as Lang);
+}
+
+/** 取文案并替换 {name} 形式的占位符 */
+export function t(key: MessageKey, params?: Record<string, string | number>): string {
+  const text = MESSAGES[current][key];
+  return params ? text.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match) : text;
+}
+
+/** 内置岗位在当前语言下的名称，中文或未收录的代码返回 undefined，由调用方使用规则中的名称 */
+export function builtinRoleName(code: string): string | undefined {
+  return current === "en" ? enRoleNames[code] : undefined;
+}
+
+/** 列表用的分隔符：中文用顿号，英文用逗号 */
+export function joinList(items: string[]): string {
+  return items.join(t("common.listSeparator"));
+}
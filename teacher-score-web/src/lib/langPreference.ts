@@ -0,0 +1,24 @@
+import { isLang, type Lang } from "./i18n";
+
+// ----- 界面语言偏好：仅浏览器使用，命令行通过 --lang 指定 -----
+
+const STORAGE_KEY = "teacher-score-lang";
+
+/** 优先使用上次选择的语言；没有选过时只有英文浏览器默认英文，其余仍为中文 */
+export function preferredLang(): Lang {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLang(saved)) return saved;
+  } catch {
+    // 无法访问 localStorage 时按浏览器语言判断
+  }
+  return /^en/i.test(navigator.language) ? "en" : "zh-CN";
+}
+
+export function rememberLang(lang: Lang) {
+  try {
+    localStorage.setItem(STORAGE_KEY, lang);
+  } catch {
+    // 记不住也不影响当前切换
+  }
+}
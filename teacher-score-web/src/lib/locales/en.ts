@@ -0,0 +1,538 @@
+import type { MessageKey } from "./zh-CN";
+
+// ----- English messages -----
+
+/** 内置岗位代码的英文名称；自定义岗位没有译名时沿用规则中的名称 */
+export const enRoleNames: Record<string, string> = {
+  CLASS: "Homeroom",
+  VICE: "Vice homeroom",
+  GRADE: "Grade head",
+  SUBJECT: "Subject lead",
+  PREP: "Prep lead",
+  MID: "Middle mgmt",
+  DEPT: "Dept. director",
+};
+
+export const en: Record<MessageKey, string> = {
+  "common.teacher": "Teacher",
+  "common.role": "Role",
+  "common.startDate": "Start date",
+  "common.endDate": "End date",
+  "common.total": "Total",
+  "common.policy": "Policy",
+  "common.proration": "Proration",
+  "common.capped": "Capped",
+  "common.notCapped": "Not capped",
+  "common.select": "Select",
+  "common.delete": "Delete",
+  "common.cancel": "Cancel",
+  "common.edit": "Edit",
+  "common.collapse": "Collapse",
+  "common.meta": "Additional info",
+  "common.unknownError": "unknown error",
+  "common.listSeparator": ", ",
+  "common.clauseSeparator": "; ",
+
+  "proration.month": "Whole months",
+  "proration.day": "Prorated by day",
+  "totalCapRule.ordered": "filled in rank order",
+  "totalCapRule.proportional": "split proportionally",
+  "ordering.greedy": "Greedy",
+  "ordering.priority": "Fixed priority",
+  "ordering.best": "Best found",
+  "mergeKind.duplicate": "duplicate",
+  "mergeKind.overlap": "overlap",
+  "mergeKind.adjacent": "adjacent",
+  "academicYear.label": "AY {from}-{to}",
+
+  "engine.unknownRole": "Unknown role: {role}",
+  "engine.dateOrder": "End date is before start date: {role}",
+  "engine.badLine": "Line {line} is not valid CSV: {text}",
+  "engine.rosterLine": "Line {line} ({teacher}): {message}",
+
+  "rows.missingTeacher": "Enter a teacher",
+  "rows.missingRole": "Select a role",
+  "rows.invalidStart": "Unrecognised start date; use 2006-09-01, 2006/9/1, 2006.09 or 2006年9月",
+  "rows.invalidEnd": "Unrecognised end date; use a date or \"present\"",
+  "rows.endBeforeStart": "End date is before start date",
+
+  "policy.notObject": "Invalid policy file: expected a JSON object",
+  "policy.missingVersion": "The policy has no version name",
+  "policy.noRoles": "The policy needs at least one role",
+  "policy.missingRoleName": "Role #{index} has no name",
+  "policy.invalidCap": "Cap of role \"{role}\" must be positive",
+  "policy.noTiers": "Role \"{role}\" needs at least one baseline tier",
+  "policy.invalidTierMonth": "Tier start month of role \"{role}\" must be a non-negative integer",
+  "policy.invalidBaseline": "Baseline of role \"{role}\" must be non-negative",
+  "policy.firstTier": "The first tier of role \"{role}\" must start at month 0",
+  "policy.duplicateName": "Duplicate role name: {role}",
+  "policy.duplicateCode": "Duplicate role code: {code}",
+  "policy.nameConflict": "\"{role}\" conflicts with the name, code or an alias of role \"{other}\"",
+  "policy.aliasConflict": "Alias \"{alias}\" of role \"{role}\" conflicts with role \"{other}\"",
+  "policy.invalidWeights": "Weights must be a list of non-negative numbers",
+  "policy.invalidTotalCap": "Total cap must be positive",
+  "policy.unknownTotalCapRule": "Unknown total-cap allocation rule: {rule}",
+  "policy.groupIndex": "combined-cap group {index}",
+  "policy.unknownGroupRole": "Role in {group} does not exist: {role}",
+  "policy.invalidGroupCap": "The cap of {group} must be non-negative",
+
+  "explain.credited": "{role} ranked #{slot} this month, weight {weight}%, annual baseline {baseline}, scored {gain}",
+  "explain.capLimited": "{role} reached its cap of {cap} this month; score cut from {rawGain} to {gain}",
+  "explain.comboLimited": "{role} was limited by the combined cap \"{combo}\" of {comboCap} this month; score cut from {rawGain} to {gain}",
+  "explain.roleCapped": "{role} had already reached its cap of {cap}; scored 0 this month",
+  "explain.comboCapped": "The combined cap \"{combo}\" of {comboCap} had already been reached; {role} scored 0 this month",
+  "explain.noSlot": "{role} ranked #{slot} this month, beyond the {levels} weight levels; scored 0",
+  "explain.totalLimited": "The total reached the cap of {totalCap} this month, remainder {rule}; {role} cut from {rawGain} to {gain}",
+  "explain.totalCapped": "The total had already reached the cap of {totalCap}; {role} scored 0 this month",
+  "explain.prorated": " (prorated to {percent}% by days served)",
+  "explain.tierUpgraded": " (after {months} months in role, annual baseline raised to {baseline})",
+
+  "export.policy": "Policy",
+  "export.proration": "Proration",
+  "export.ordering": "Ordering",
+  "export.cutoff": "Cut-off date",
+  "export.item": "Item",
+  "export.value": "Value",
+  "export.teacher": "Teacher",
+  "export.rank": "Rank",
+  "export.role": "Role",
+  "export.roleCode": "Role code",
+  "export.score": "Score",
+  "export.rawScore": "Raw score",
+  "export.cap": "Cap",
+  "export.status": "Status",
+  "export.capGroup": "Combined-cap group",
+  "export.groupRoles": "Member roles",
+  "export.groupUsed": "Combined score",
+  "export.groupReachedAt": "Capped in",
+  "export.rawTotal": "Raw total",
+  "export.total": "Total",
+  "export.totalCap": "Total cap",
+  "export.totalCapMonth": "Total cap month",
+  "export.totalCapRule": "Cap allocation",
+  "export.month": "Month",
+  "export.allocations": "Allocations",
+  "export.startDate": "Start date",
+  "export.endDate": "End date",
+  "export.weight": "Weight",
+  "export.reason": "Reason code",
+  "export.monthsServed": "Months served",
+  "export.fraction": "Fraction served",
+  "export.baseline": "Annual baseline",
+  "export.slot": "Rank",
+  "export.rawGain": "Raw gain",
+  "export.scoreBefore": "Score before",
+  "export.comboBefore": "Combined before",
+  "export.explanation": "Explanation",
+  "export.sheetRoles": "Roles",
+  "export.sheetGroups": "Combined caps",
+  "export.sheetTotal": "Total",
+  "export.sheetEntries": "Entries",
+  "export.sheetAllocations": "Monthly allocations",
+  "export.sheetTrace": "Scoring trace",
+  "export.resultFileName": "teacher-score-result",
+  "export.rosterFileName": "teacher-score-ranking",
+  "export.bundleFileName": "teacher-score-archive",
+
+  "forecast.plannedRow": "Planned role #{index}: {message}",
+  "forecast.invalidAsOf": "Forecast start must be YYYY-MM-DD",
+  "forecast.noEntries": "Enter existing roles or add a planned role first",
+  "forecast.targetRange": "Target must be between 0 and {limit}",
+  "forecast.title": "Forecast",
+  "forecast.description": "Add planned roles on top of existing ones and project month by month with the same rules (up to {years} years)",
+  "forecast.asOf": "Forecast from",
+  "forecast.plannedRole": "Planned role",
+  "forecast.openEnded": "Ongoing",
+  "forecast.addPlanned": "+ Add planned role",
+  "forecast.running": "Forecasting...",
+  "forecast.run": "Run forecast",
+  "forecast.current": "{score} earned as of {asOf}",
+  "forecast.final": "End of forecast {score} / {cap}",
+  "forecast.totalProjected": "Total expected to reach the cap of {cap} in {ym}",
+  "forecast.totalReached": "Total reached the cap of {cap} in {ym}",
+  "forecast.totalNotReached": "Total will not reach the cap of {cap} within the forecast (until {end})",
+  "forecast.finalScore": "Final score",
+  "forecast.capTime": "Capped at",
+  "forecast.roleProjected": "Expected {ym}",
+  "forecast.roleReached": "Reached {ym}",
+  "forecast.byCombo": " (combined cap: {group})",
+  "forecast.roleNotReached": "Not within the forecast",
+  "forecast.goalTitle": "Goal: how many more months are needed",
+  "forecast.roleScore": "Role score",
+  "forecast.target": "Target",
+  "forecast.solving": "Solving...",
+  "forecast.solve": "Solve",
+  "forecast.goalTotalLabel": "the total",
+  "forecast.goalRoleLabel": "the {role} score",
+  "forecast.goalUnreachable": "Even serving as {role} for another {years} years beyond the plan, {label} cannot reach {target}",
+  "forecast.goalMet": "With current and planned roles, {label} already reaches {target}; no extra service needed",
+  "forecast.goalNeeded": "After {from}, {months} more consecutive months as {role} (until {until}) bring {label} to {target}",
+
+  "storage.unsupported": "This browser does not support local storage (IndexedDB)",
+  "storage.openFailed": "Cannot open local storage: {message}",
+  "storage.ioFailed": "Local storage read/write failed: {message}",
+  "storage.missingProfileName": "Enter a profile name",
+
+  "share.incomplete": "The link is incomplete; it may have been truncated when copied",
+  "share.unsupportedVersion": "Unsupported link version: {version}",
+  "share.corrupted": "The link data is corrupted and cannot be decompressed",
+  "share.checksum": "The link content does not match its checksum; it may have been modified or truncated",
+  "share.invalidJson": "The link data is not valid JSON",
+  "share.invalidData": "The link data is malformed",
+  "share.unknownMode": "Unknown input mode: {mode}",
+  "share.missingText": "The link contains no role entries",
+  "share.unknownProration": "Unknown proration: {proration}",
+  "share.unknownOrdering": "Unknown ordering: {ordering}",
+  "share.invalidCutoff": "Invalid cut-off date: {cutoff}",
+  "share.invalidMerges": "The merge settings in the link are malformed",
+
+  "worker.crashed": "Calculation worker failed: {message}",
+
+  "editor.moveUp": "Move up",
+  "editor.moveDown": "Move down",
+  "editor.rowErrors": "Row {line}: {errors}",
+  "editor.addRow": "+ Add entry",
+  "editor.errorCount": "{count} issue(s) to fix",
+  "editor.rowCount": "{count} entries",
+  "editor.startPlaceholder": "2006-09-01",
+  "editor.endPlaceholder": "date or present",
+  "editor.pickDate": "Pick a date",
+
+  "xlsx.columnWithHeader": "Column {index} ({header})",
+  "xlsx.column": "Column {index}",
+  "xlsx.empty": "The workbook contains no data",
+  "xlsx.readFailed": "Cannot read the Excel file: {message}",
+  "xlsx.tooLarge": "The file is larger than {limit} MB. Remove unrelated sheets or save it as CSV, then import again",
+  "xlsx.timeout": "Parsing did not finish within {seconds} seconds; the file may be damaged",
+  "xlsx.missingColumns": "Choose a column for: {fields}",
+  "xlsx.import": "Import Excel",
+  "xlsx.sheet": "Sheet",
+  "xlsx.sheetOption": "{name} ({rows} rows)",
+  "xlsx.hasHeader": "First row is a header",
+  "xlsx.importRows": "Import {count} rows",
+
+  "paste.title": "Column detection",
+  "paste.delimiterComma": "comma-separated",
+  "paste.delimiterTab": "tab-separated (copied from a spreadsheet)",
+  "paste.delimiterSemicolon": "semicolon-separated",
+  "paste.dataRows": "{count} data rows",
+  "paste.headerSkipped": "skipping {count} header rows",
+  "paste.metaColumns": "Other columns are kept as additional info: {columns}",
+  "paste.pendingHint": "Calculation still uses the detected columns until you apply the adjusted mapping below",
+  "paste.apply": "Rewrite in the standard format",
+
+  "roster.title": "Teacher ranking",
+  "roster.export": "Export ranking",
+  "roster.description": "{count} teachers. Click a header to sort, click a row for details",
+
+  "merge.title": "Found {count} duplicate, overlapping or adjacent periods of the same role",
+  "merge.description": "Periods of the same role within one month take a single weight rank either way, so merging does not change the score; it keeps the records and reports tidy. Review each item; only accepted ones are merged.",
+  "merge.item": "{role} ({kind})",
+  "merge.accept": "Merge",
+  "merge.keep": "Keep as is",
+
+  "policyEditor.jsonError": "JSON parse error: {message}",
+  "policyEditor.fileName": "scoring-policy_{version}.json",
+  "policyEditor.title": "Scoring policy",
+  "policyEditor.currentVersion": "Current version: {version}",
+  "policyEditor.version": "Version name",
+  "policyEditor.weights": "Weights",
+  "policyEditor.totalCap": "Total cap",
+  "policyEditor.totalCapRule": "Allocation in the month the total cap is hit",
+  "policyEditor.code": "Code",
+  "policyEditor.cap": "Cap",
+  "policyEditor.tiers": "Tiers (month:baseline)",
+  "policyEditor.aliases": "Aliases (comma-separated)",
+  "policyEditor.removeRole": "Remove role",
+  "policyEditor.addRole": "+ Add role",
+  "policyEditor.capGroups": "Combined-cap groups",
+  "policyEditor.groupNamePlaceholder": "Group name (blank: list member roles)",
+  "policyEditor.groupCap": "Combined cap",
+  "policyEditor.removeGroup": "Remove group",
+  "policyEditor.addGroup": "+ Add combined-cap group",
+  "policyEditor.groupHint": "The member roles together score at most the combined cap; a role can belong to several groups, and the one with the least room left applies",
+  "policyEditor.priorityHint": "The order of roles here is the order used by \"Fixed priority\"",
+  "policyEditor.apply": "Apply",
+  "policyEditor.reset": "Reset to default",
+  "policyEditor.importJson": "Import JSON",
+  "policyEditor.exportJson": "Export JSON",
+
+  "timeline.title": "Role timeline and cumulative score",
+  "timeline.period": "{role}: {start} ~ {end}",
+  "timeline.capHit": "{ym} {role} reached its cap",
+  "timeline.credited": "{ym} {role} scored",
+  "timeline.capped": "{ym} {role} capped, no score",
+  "timeline.cumulative": "{role} cumulative {score}",
+  "timeline.totalCap": "Cap {cap}",
+  "timeline.legendCapped": "Capped, no score",
+  "timeline.legendCapHit": "◆ Cap reached this month",
+  "timeline.legendPeriod": "Light band: period in role",
+
+  "profile.confirmDelete": "Delete profile \"{name}\"?",
+  "profile.title": "Teacher profiles",
+  "profile.description": "Profiles and drafts are stored in this browser",
+  "profile.draftSaved": "; draft autosaved at {time}",
+  "profile.namePlaceholder": "Teacher name or ID",
+  "profile.save": "Save profile",
+  "profile.summary": "{count} entries · {time}",
+  "profile.open": "Open",
+  "profile.empty": "No saved profiles yet",
+
+  "history.title": "Calculation history",
+  "history.description": "Every calculation is recorded; click one to compare it with the current result (read-only)",
+  "history.empty": "No calculations yet",
+  "history.past": "History ({time})",
+  "history.current": "Current",
+
+  "compare.title": "Ordering comparison",
+  "compare.description": "The same role entries scored with each ordering strategy, comparing totals and role scores",
+  "compare.run": "Compare",
+  "compare.running": "Comparing {percent}%",
+  "compare.current": " (current)",
+  "compare.delta": "{delta} vs current",
+
+  "diff.title": "Before/after comparison",
+  "diff.description": "Enter the corrected role entries on the left and compare them with the previous entries or a saved result to see exactly what changed",
+  "diff.sourceEntries": "Previous entries",
+  "diff.sourceSaved": "Saved result",
+  "diff.beforeHint": "Role entries before the correction, in the same format as on the left",
+  "diff.noHistory": "No saved results yet; run a calculation first",
+  "diff.run": "Compare",
+  "diff.running": "Comparing…",
+  "diff.export": "Export diff",
+  "diff.fileName": "score-diff",
+  "diff.noChange": "Both calculations give exactly the same result",
+  "diff.totalLine": "Total {before} → {after} ({delta})",
+  "diff.entriesSection": "Role entries",
+  "diff.rolesSection": "Role scores",
+  "diff.monthsSection": "Months with changed allocations ({count})",
+  "diff.change": "Change",
+  "diff.entry.unchanged": "Unchanged",
+  "diff.entry.changed": "Dates changed",
+  "diff.entry.added": "Added",
+  "diff.entry.removed": "Removed",
+  "diff.before": "Before",
+  "diff.after": "After",
+  "diff.delta": "Delta",
+  "diff.beforeStart": "Start before",
+  "diff.beforeEnd": "End before",
+  "diff.afterStart": "Start after",
+  "diff.afterEnd": "End after",
+  "diff.noAllocation": "none",
+
+  "bundle.title": "Archive check",
+  "bundle.description": "Load an exported JSON archive, recalculate it with its own rules and check that the result is reproduced exactly",
+  "bundle.import": "Choose archive file",
+  "bundle.verifying": "Checking…",
+  "bundle.summary": "{teacher}exported {time} · policy {version}",
+  "bundle.hashOk": "Content hash matches; the archive has not been altered since export",
+  "bundle.hashMismatch": "Content hash does not match; the archive was altered after export",
+  "bundle.reproduced": "The recalculated result matches the archive exactly",
+  "bundle.mismatchCount": "{count} field(s) differ between the archive and the recalculation",
+  "bundle.totalLine": "Archived total {archived}, recalculated {recalculated}",
+  "bundle.field": "Field",
+  "bundle.archived": "Archive",
+  "bundle.recalculated": "Recalculated",
+  "bundle.moreMismatches": "{count} more not shown",
+  "bundle.load": "Load into input",
+  "bundle.notJson": "The file is not valid JSON",
+  "bundle.notBundle": "The file is not a score archive",
+  "bundle.unsupportedVersion": "Unsupported archive version: {version}",
+  "bundle.invalidField": "The archive field {field} is missing or malformed",
+
+  "review.title": "Submission & review",
+  "review.description": "Teachers submit role entries with their appointment documents; a reviewer approves, rejects or edits each row, and only approved rows count in the official calculation",
+  "review.viewSubmit": "Teacher submission",
+  "review.viewReview": "Review",
+  "review.teacherPlaceholder": "Teacher name or ID",
+  "review.docNumber": "Document no.",
+  "review.docNumberPlaceholder": "e.g. Edu [2010] No. 12",
+  "review.document": "Appointment document",
+  "review.chooseDocument": "Choose a PDF or image",
+  "review.submit": "Submit for review",
+  "review.submitHint": "Repeated submissions for the same teacher are merged into one review; files are kept in this browser for now",
+  "review.submitted": "Submitted {count} rows for {teacher}, awaiting review",
+  "review.reviewerPlaceholder": "Reviewer name",
+  "review.submissionOption": "{teacher} ({pending} pending / {total} total)",
+  "review.counts": "{approved} approved · {rejected} rejected · {pending} pending · updated {time}",
+  "review.statusPending": "Pending",
+  "review.statusApproved": "Approved",
+  "review.statusRejected": "Rejected",
+  "review.period": "{start} to {end}",
+  "review.viewDocument": "View document",
+  "review.commentPlaceholder": "Review comment (required to reject or edit)",
+  "review.approve": "Approve",
+  "review.reject": "Reject",
+  "review.saveEdit": "Save edit and approve",
+  "review.actionSubmitted": "submitted",
+  "review.actionApproved": "approved",
+  "review.actionRejected": "rejected",
+  "review.actionEdited": "edited and approved",
+  "review.logLine": "{time} {by} {action}",
+  "review.editedFrom": " (was {role} {start} to {end}, document {docNumber})",
+  "review.commentSuffix": ": {comment}",
+  "review.officialTitle": "Official calculation",
+  "review.officialHint": "Counts only the {count} approved rows, using the current policy and proration",
+  "review.calculate": "Calculate",
+  "review.officialTotal": "Official score: {score}",
+  "review.empty": "Nothing has been submitted yet",
+  "review.confirmDelete": "Delete all submissions and documents of {teacher}?",
+  "review.missingTeacher": "Enter the teacher name or ID",
+  "review.noRows": "Fill in at least one row",
+  "review.missingDocNumber": "Enter the document number",
+  "review.missingDocument": "Attach the appointment document",
+  "review.unsupportedDocument": "{name} is not a PDF or image",
+  "review.documentTooLarge": "{name} is larger than {limit} MB",
+  "review.missingComment": "Enter a comment to reject or edit a row",
+  "review.missingReviewer": "Enter the reviewer name",
+  "review.submissionNotFound": "The submission was not found; it may have been deleted",
+  "review.documentNotFound": "The document was not found; it may have been deleted",
+  "review.noApproved": "No rows have been approved yet",
+  "review.badDates": "Unrecognized dates for {role}: {start} to {end}",
+
+  "report.teacherName": "Teacher name",
+  "report.employeeId": "Employee ID",
+  "report.school": "School",
+  "report.evaluationDate": "Evaluation date",
+  "report.back": "Back",
+  "report.print": "Print / Save as PDF",
+  "report.heading": "Teacher Management Role Score Evaluation Report",
+  "report.entriesSection": "1. Role history",
+  "report.index": "No.",
+  "report.monthSpan": "Months spanned",
+  "report.summarySection": "2. Score summary by role",
+  "report.totalCapNote": "Without the total cap the score would be {raw}; the total reached the cap of {cap} in {ym}, the remainder of that month was {rule}, and nothing was scored afterwards.",
+  "report.reviewerSignature": "Reviewer signature",
+  "report.teacherSignature": "Teacher signature",
+  "report.fieldLabel": "{label}:",
+  "report.date": "Date",
+  "report.appendix": "Appendix: scores by academic year",
+  "report.academicYear": "Academic year",
+  "report.monthsServed": "Months served",
+  "report.yearTotal": "Total",
+
+  "app.title": "Teacher Management Role Score Calculator",
+  "app.subtitle": "Management category score calculation",
+  "app.tailwindTest": "Tailwind CSS test - if you see a red background, styles are working!",
+  "app.lightMode": "🌞 Light mode",
+  "app.darkMode": "🌙 Dark mode",
+  "app.stepInput": "Input",
+  "app.stepCalc": "Calculate",
+  "app.stepResult": "Results",
+  "app.inputTitle": "Role entries",
+  "app.inputHintSingle": "One entry per line in the form \"role,start date,end date\"",
+  "app.inputHintRoster": "One entry per line in the form \"teacher,role,start date,end date\"",
+  "app.modeSingle": "Single teacher",
+  "app.modeRoster": "Roster",
+  "app.modePlan": "Forecast",
+  "app.modeDiff": "Correction diff",
+  "app.cutoff": "As of",
+  "app.cutoffHint": "Evaluation cut-off: later service is not counted, and \"present\" end dates resolve to this date; defaults to today",
+  "app.cutoffLabel": "as of {date}",
+  "app.roleTypes": "Supported roles",
+  "app.roleHint": "Entries may use the role name, code or an alias; hover to see them",
+  "app.inputData": "Role data",
+  "app.viewTable": "Table",
+  "app.viewText": "CSV text",
+  "app.placeholderSingle": "e.g. \"CLASS\",\"2006-09-01\",\"2010-08-31\"",
+  "app.placeholderRoster": "e.g. \"T001 Zhang\",\"CLASS\",\"2006-09-01\",\"2010-08-31\"",
+  "app.inputError": "Input error",
+  "app.calculating": "Calculating {percent}%",
+  "app.calculate": "Calculate",
+  "app.cancelHint": "Cancel this calculation",
+  "app.copyLinkHint": "Copy the current input and settings as a share link",
+  "app.linkCopied": "Copied",
+  "app.copyLink": "Copy link",
+  "app.shareInvalid": "Invalid share link: {message}",
+  "app.copyFailed": "Cannot copy the link: {message}",
+  "app.exportFailed": "Cannot export the workbook: {message}",
+  "app.rosterLabel": "Roster ({count} teachers)",
+  "app.unnamed": "Untitled",
+  "app.totalTitle": "Management category total",
+  "app.totalCapNote": "Raw total {raw} · cap reached in {ym}, remainder of that month {rule}, nothing scored afterwards",
+  "app.totalCapped": "✓ Cap reached",
+  "app.totalNotCapped": "⏳ Below cap",
+  "app.policyLine": "Policy: {version} · {proration}",
+  "app.exportCsv": "Export CSV",
+  "app.exportXlsx": "Export Excel",
+  "app.exportBundle": "Export JSON archive",
+  "app.printReport": "Print report",
+  "app.roleSummary": "Score by role",
+  "app.rawScore": " (raw {raw})",
+  "app.capGroup": "Combined cap: {name}",
+  "app.groupMembers": " ({roles})",
+  "app.groupCappedAt": "Capped {ym}",
+  "app.monthDetails": "Monthly weight allocation",
+  "app.monthDetailsHint": "Role weights and score gains for each month",
+  "app.waiting": "Waiting for results",
+  "app.waitingHint": "Enter role data on the left and click \"Calculate\"",
+
+  "monthDetails.allRoles": "All roles",
+  "monthDetails.fromYear": "From year",
+  "monthDetails.toYear": "To year",
+  "monthDetails.zeroOrCapOnly": "Only months with zero gain or cap events",
+  "monthDetails.expandAll": "Expand all",
+  "monthDetails.collapseAll": "Collapse all",
+  "monthDetails.summary": "Showing {shown} of {total} months in {years} academic years",
+  "monthDetails.monthsShown": "{shown} / {months} months shown",
+  "monthDetails.noMatch": "No months match the filters",
+
+  "cli.usage": `Usage: teacher-score calc <entries.csv | -> [options]
+       teacher-score verify <archive.json | ->
+       teacher-score serve [--port 8787] [--host 127.0.0.1] [options]
+       teacher-score openapi
+
+Options:
+  --format <json|csv|table|bundle>
+                             Output format, default table; bundle is a JSON archive that can be re-imported and verified
+  --roster                   Roster mode; the first column of each line is the teacher ID or name
+  --policy <policy.json>     Use an exported scoring policy instead of the built-in one
+  --proration <month|day>    Count first/last months whole or prorate by days served, default month
+  --ordering <greedy|priority|best>
+                             Monthly role ordering: greedy, policy role order, or the best total a search finds; default greedy
+  --cutoff <date>            Evaluation cut-off; later service is not counted and "present" end dates resolve to it; default today
+  --merge                    Merge duplicate, overlapping or adjacent periods of the same role (otherwise only reported on stderr)
+  --lang <zh-CN|en>          Output language, default zh-CN
+  --port <port>              Port for serve, default 8787
+  --host <address>           Address for serve, default 127.0.0.1; use 0.0.0.0 to accept other machines on the intranet
+  -h, --help                 Show this help
+
+Roles may be given by name, code (e.g. CLASS) or an alias from the policy. Dates may be written 2006-09-01, 2006/9/1, 2006.09 or 2006年9月, and end dates may be "present".
+verify recalculates an archive with its own rules and exits with code 1 if the result differs.
+serve starts the local HTTP scoring service (POST /score, POST /score/batch); --policy and the scoring options are the defaults for requests that omit them. openapi prints the OpenAPI description.`,
+  "cli.unknownCommand": "Unknown command: {command}",
+  "cli.missingFile": "Missing input file; use - to read from stdin",
+  "cli.unknownFormat": "Unsupported output format: {format}",
+  "cli.unknownProration": "Unsupported proration: {proration}",
+  "cli.unknownOrdering": "Unsupported ordering: {ordering}",
+  "cli.invalidCutoff": "Unrecognised cut-off date: {cutoff}",
+  "cli.invalidPort": "Invalid port: {port}",
+  "cli.serverListening": "Scoring service listening on {url} (default policy {version}); API description at {url}/openapi.json",
+  "cli.policyLoadFailed": "Cannot load scoring policy {path}: {message}",
+  "cli.mergeApplied": "Note: {teacher}{role} periods {kind} ({sources}), merged into {merged}",
+  "cli.mergeSkipped": "Note: {teacher}{role} periods {kind} ({sources}), not merged",
+  "cli.policyLine": "Policy: {version}",
+  "cli.prorationLine": "Proration: {proration}",
+  "cli.orderingLine": "Ordering: {ordering}",
+  "cli.cutoffLine": "Cut-off date: {cutoff}",
+  "cli.rawTotalLine": "Raw total: {raw}",
+  "cli.totalLine": "Total: {score} / {cap} (not capped)",
+  "cli.totalCappedLine": "Total: {score} / {cap} (cap reached in {ym}, remainder of that month {rule})",
+  "cli.error": "Error: {message}",
+  "cli.verifyMismatch": "  {path}: archived {archived}, recalculated {recalculated}",
+
+  "server.notFound": "No such endpoint: {path}",
+  "server.methodNotAllowed": "{method} is not allowed here; use {allowed}",
+  "server.unsupportedMediaType": "Unsupported request type {type}; use application/json or text/csv",
+  "server.payloadTooLarge": "The request body exceeds {limit} KB",
+  "server.invalidJson": "The request body is not a valid JSON object",
+  "server.invalidPolicy": "Invalid scoring policy: {message}",
+  "server.missingInput": "The request needs an entries array or csv text",
+  "server.fieldType": "Field {field} must be {type}",
+  "server.typeString": "a string",
+  "server.typeArray": "an array",
+  "server.typeObject": "an object",
+  "server.typeBoolean": "a boolean (true or false)",
+  "server.noEntries": "There are no role entries",
+  "server.validationFailed": "{count} input problem(s) to fix; {first}",
+};
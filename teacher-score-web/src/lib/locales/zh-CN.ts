@@ -0,0 +1,527 @@
+// ----- 中文文案（默认语言，键的集合以此为准） -----
+
+export const zhCN = {
+  "common.teacher": "教师",
+  "common.role": "岗位",
+  "common.startDate": "开始日期",
+  "common.endDate": "结束日期",
+  "common.total": "总分",
+  "common.policy": "计分规则",
+  "common.proration": "计分方式",
+  "common.capped": "已封顶",
+  "common.notCapped": "未封顶",
+  "common.select": "请选择",
+  "common.delete": "删除",
+  "common.cancel": "取消",
+  "common.edit": "编辑",
+  "common.collapse": "收起",
+  "common.meta": "附加信息",
+  "common.unknownError": "未知错误",
+  "common.listSeparator": "、",
+  "common.clauseSeparator": "；",
+
+  "proration.month": "整月计算",
+  "proration.day": "按天折算",
+  "totalCapRule.ordered": "按位次先后补足",
+  "totalCapRule.proportional": "按比例分摊",
+  "ordering.greedy": "贪心排序",
+  "ordering.priority": "固定优先级",
+  "ordering.best": "搜索较优",
+  "mergeKind.duplicate": "重复",
+  "mergeKind.overlap": "重叠",
+  "mergeKind.adjacent": "相邻",
+  "academicYear.label": "{from}-{to} 学年",
+
+  "engine.unknownRole": "未知岗位名称：{role}",
+  "engine.dateOrder": "日期顺序错误：{role}",
+  "engine.badLine": "第 {line} 行 CSV 格式有误：{text}",
+  "engine.rosterLine": "第 {line} 行（{teacher}）{message}",
+
+  "rows.missingTeacher": "请填写教师",
+  "rows.missingRole": "请选择岗位",
+  "rows.invalidStart": "无法识别开始日期，可写 2006-09-01、2006/9/1、2006.09 或 2006年9月",
+  "rows.invalidEnd": "无法识别结束日期，可写日期或「至今」",
+  "rows.endBeforeStart": "结束日期早于开始日期",
+
+  "policy.notObject": "规则文件格式有误：应为 JSON 对象",
+  "policy.missingVersion": "规则缺少版本名称",
+  "policy.noRoles": "规则至少需要一个岗位",
+  "policy.missingRoleName": "第 {index} 个岗位缺少名称",
+  "policy.invalidCap": "岗位「{role}」封顶分应为正数",
+  "policy.noTiers": "岗位「{role}」至少需要一个基准分档位",
+  "policy.invalidTierMonth": "岗位「{role}」档位起始月份应为非负整数",
+  "policy.invalidBaseline": "岗位「{role}」基准分应为非负数",
+  "policy.firstTier": "岗位「{role}」第一个档位应从第 0 个月开始",
+  "policy.duplicateName": "岗位名称重复：{role}",
+  "policy.duplicateCode": "岗位代码重复：{code}",
+  "policy.nameConflict": "「{role}」与岗位「{other}」的名称、代码或别名冲突",
+  "policy.aliasConflict": "岗位「{role}」的别名「{alias}」与岗位「{other}」冲突",
+  "policy.invalidWeights": "权重阶梯应为非负数列表",
+  "policy.invalidTotalCap": "总封顶分应为正数",
+  "policy.unknownTotalCapRule": "未知的总分封顶分配方式：{rule}",
+  "policy.groupIndex": "第 {index} 个合计封顶组",
+  "policy.unknownGroupRole": "{group}中的岗位不存在：{role}",
+  "policy.invalidGroupCap": "{group}的封顶分应为非负数",
+
+  "explain.credited": "该月{role}排第 {slot} 位，权重 {weight}%，年基准分 {baseline}，得分 {gain}",
+  "explain.capLimited": "该月{role}达到岗位封顶 {cap} 分，得分由 {rawGain} 截为 {gain}",
+  "explain.comboLimited": "该月{role}受合计封顶组「{combo}」{comboCap} 分上限限制，得分由 {rawGain} 截为 {gain}",
+  "explain.roleCapped": "该月{role}已达岗位封顶 {cap} 分，得分为0",
+  "explain.comboCapped": "该月{role}因合计封顶组「{combo}」已达{comboCap}分上限，得分为0",
+  "explain.noSlot": "该月{role}排第 {slot} 位，超出 {levels} 级权重阶梯，得分为0",
+  "explain.totalLimited": "该月总分达到 {totalCap} 分上限，剩余分数{rule}，{role}得分由 {rawGain} 截为 {gain}",
+  "explain.totalCapped": "该月总分已达 {totalCap} 分上限，{role}不再计分，得分为0",
+  "explain.prorated": "（当月在岗天数按 {percent}% 折算）",
+  "explain.tierUpgraded": "（任职满 {months} 个月，年基准分提高为 {baseline}）",
+
+  "export.policy": "计分规则",
+  "export.proration": "计分方式",
+  "export.ordering": "排序方式",
+  "export.cutoff": "截止日期",
+  "export.item": "项目",
+  "export.value": "数值",
+  "export.teacher": "教师",
+  "export.rank": "排名",
+  "export.role": "岗位",
+  "export.roleCode": "岗位代码",
+  "export.score": "得分",
+  "export.rawScore": "原始得分",
+  "export.cap": "封顶分",
+  "export.status": "状态",
+  "export.capGroup": "合计封顶组",
+  "export.groupRoles": "组内岗位",
+  "export.groupUsed": "合计得分",
+  "export.groupReachedAt": "封顶月份",
+  "export.rawTotal": "原始总分",
+  "export.total": "总分",
+  "export.totalCap": "总封顶分",
+  "export.totalCapMonth": "总分封顶月份",
+  "export.totalCapRule": "封顶分配方式",
+  "export.month": "年月",
+  "export.allocations": "分配详情",
+  "export.startDate": "开始日期",
+  "export.endDate": "结束日期",
+  "export.weight": "权重",
+  "export.reason": "原因代码",
+  "export.monthsServed": "任职月数",
+  "export.fraction": "在岗比例",
+  "export.baseline": "年基准分",
+  "export.slot": "位次",
+  "export.rawGain": "应得分",
+  "export.scoreBefore": "计分前得分",
+  "export.comboBefore": "计分前合计",
+  "export.explanation": "说明",
+  "export.sheetRoles": "岗位汇总",
+  "export.sheetGroups": "合计封顶组",
+  "export.sheetTotal": "总分",
+  "export.sheetEntries": "任职记录",
+  "export.sheetAllocations": "逐月分配",
+  "export.sheetTrace": "计分依据",
+  "export.resultFileName": "教师得分计算结果",
+  "export.rosterFileName": "教师得分排名",
+  "export.bundleFileName": "教师得分存档",
+
+  "forecast.plannedRow": "第 {index} 条计划任职：{message}",
+  "forecast.invalidAsOf": "预测起点应为 YYYY-MM-DD",
+  "forecast.noEntries": "请先录入已有任职或添加计划任职",
+  "forecast.targetRange": "目标分应在 0 到 {limit} 之间",
+  "forecast.title": "规划预测",
+  "forecast.description": "在已有任职之外添加计划任职，按同样的分配规则逐月推算（最长 {years} 年）",
+  "forecast.asOf": "预测起点",
+  "forecast.plannedRole": "计划岗位",
+  "forecast.openEnded": "长期",
+  "forecast.addPlanned": "+ 添加计划任职",
+  "forecast.running": "预测中...",
+  "forecast.run": "开始预测",
+  "forecast.current": "截至 {asOf} 已得 {score} 分",
+  "forecast.final": "预测期末 {score} / {cap}",
+  "forecast.totalProjected": "总分预计于 {ym} 达到 {cap} 分封顶",
+  "forecast.totalReached": "总分已于 {ym} 达到 {cap} 分封顶",
+  "forecast.totalNotReached": "预测期内（至 {end}）总分不会达到 {cap} 分封顶",
+  "forecast.finalScore": "预测期末得分",
+  "forecast.capTime": "封顶时间",
+  "forecast.roleProjected": "预计 {ym}",
+  "forecast.roleReached": "已于 {ym}",
+  "forecast.byCombo": "（合计封顶：{group}）",
+  "forecast.roleNotReached": "预测期内不会封顶",
+  "forecast.goalTitle": "目标测算：还需担任多少个月",
+  "forecast.roleScore": "岗位得分",
+  "forecast.target": "目标分",
+  "forecast.solving": "测算中...",
+  "forecast.solve": "测算",
+  "forecast.goalTotalLabel": "总分",
+  "forecast.goalRoleLabel": "{role}得分",
+  "forecast.goalUnreachable": "在计划任职之外连续担任{role} {years} 年仍达不到{label} {target} 分",
+  "forecast.goalMet": "按现有任职和计划，{label}已能达到 {target} 分，无需额外任职",
+  "forecast.goalNeeded": "{from} 之后还需连续担任{role} {months} 个月（至 {until}），{label}可达 {target} 分",
+
+  "storage.unsupported": "当前浏览器不支持本地存储（IndexedDB）",
+  "storage.openFailed": "无法打开本地存储：{message}",
+  "storage.ioFailed": "本地存储读写失败：{message}",
+  "storage.missingProfileName": "请填写档案名称",
+
+  "share.incomplete": "链接格式不完整，可能复制时被截断",
+  "share.unsupportedVersion": "不支持的链接版本：{version}",
+  "share.corrupted": "链接数据已损坏，无法解压",
+  "share.checksum": "链接内容与校验码不符，可能被修改或截断",
+  "share.invalidJson": "链接数据不是有效的 JSON",
+  "share.invalidData": "链接数据格式有误",
+  "share.unknownMode": "未知的输入模式：{mode}",
+  "share.missingText": "链接中缺少岗位记录",
+  "share.unknownProration": "未知的计分方式：{proration}",
+  "share.unknownOrdering": "未知的排序方式：{ordering}",
+  "share.invalidCutoff": "无效的截止日期：{cutoff}",
+  "share.invalidMerges": "链接中的合并设置格式有误",
+
+  "worker.crashed": "计算线程出错：{message}",
+
+  "editor.moveUp": "上移",
+  "editor.moveDown": "下移",
+  "editor.rowErrors": "第 {line} 行：{errors}",
+  "editor.addRow": "+ 添加记录",
+  "editor.errorCount": "{count} 处需要修正",
+  "editor.rowCount": "共 {count} 条记录",
+  "editor.startPlaceholder": "2006-09-01",
+  "editor.endPlaceholder": "日期或至今",
+  "editor.pickDate": "选择日期",
+
+  "xlsx.columnWithHeader": "第 {index} 列（{header}）",
+  "xlsx.column": "第 {index} 列",
+  "xlsx.empty": "工作簿中没有数据",
+  "xlsx.readFailed": "无法读取 Excel 文件：{message}",
+  "xlsx.tooLarge": "文件超过 {limit} MB，请删去无关的工作表或另存为 CSV 后再导入",
+  "xlsx.timeout": "解析超过 {seconds} 秒仍未完成，文件可能已损坏",
+  "xlsx.missingColumns": "请为以下字段选择列：{fields}",
+  "xlsx.import": "导入 Excel",
+  "xlsx.sheet": "工作表",
+  "xlsx.sheetOption": "{name}（{rows} 行）",
+  "xlsx.hasHeader": "首行为表头",
+  "xlsx.importRows": "导入 {count} 行",
+
+  "paste.title": "列识别",
+  "paste.delimiterComma": "逗号分隔",
+  "paste.delimiterTab": "制表符分隔（从表格复制）",
+  "paste.delimiterSemicolon": "分号分隔",
+  "paste.dataRows": "{count} 行数据",
+  "paste.headerSkipped": "跳过前 {count} 行表头",
+  "paste.metaColumns": "其余列作为附加信息保留：{columns}",
+  "paste.pendingHint": "计算仍按自动识别的列进行，点击下方按钮后按调整的列生效",
+  "paste.apply": "按此映射整理为标准格式",
+
+  "roster.title": "教师得分排名",
+  "roster.export": "导出排名",
+  "roster.description": "共 {count} 位教师，点击表头排序，点击行查看明细",
+
+  "merge.title": "检测到 {count} 处同一岗位的时段重复、重叠或相邻",
+  "merge.description": "同一岗位在同一个月的几段任职计分时只占一个权重位次，合并与否不影响得分；合并后任职记录和报告更简洁。请逐条确认，计算时只合并已接受的条目。",
+  "merge.item": "{role}（{kind}）",
+  "merge.accept": "合并",
+  "merge.keep": "保留原样",
+
+  "policyEditor.jsonError": "JSON 解析失败：{message}",
+  "policyEditor.fileName": "计分规则_{version}.json",
+  "policyEditor.title": "计分规则",
+  "policyEditor.currentVersion": "当前版本：{version}",
+  "policyEditor.version": "版本名称",
+  "policyEditor.weights": "权重阶梯",
+  "policyEditor.totalCap": "总封顶分",
+  "policyEditor.totalCapRule": "总分触顶当月的分配方式",
+  "policyEditor.code": "代码",
+  "policyEditor.cap": "封顶",
+  "policyEditor.tiers": "档位（起始月:基准分）",
+  "policyEditor.aliases": "别名（逗号分隔）",
+  "policyEditor.removeRole": "删除岗位",
+  "policyEditor.addRole": "+ 添加岗位",
+  "policyEditor.capGroups": "合计封顶组",
+  "policyEditor.groupNamePlaceholder": "组名（留空则按成员岗位显示）",
+  "policyEditor.groupCap": "合计封顶分",
+  "policyEditor.removeGroup": "删除该组",
+  "policyEditor.addGroup": "+ 添加合计封顶组",
+  "policyEditor.groupHint": "组内各岗位得分之和不超过合计封顶分；一个岗位可以同时属于多个组，以剩余额度最少的组为准",
+  "policyEditor.priorityHint": "岗位的先后即「固定优先级」排序时的顺序",
+  "policyEditor.apply": "应用规则",
+  "policyEditor.reset": "恢复默认",
+  "policyEditor.importJson": "导入 JSON",
+  "policyEditor.exportJson": "导出 JSON",
+
+  "timeline.title": "任职时间轴与累计得分",
+  "timeline.period": "{role}：{start} ~ {end}",
+  "timeline.capHit": "{ym} {role}达到封顶",
+  "timeline.credited": "{ym} {role}计分",
+  "timeline.capped": "{ym} {role}已封顶，不计分",
+  "timeline.cumulative": "{role}累计 {score} 分",
+  "timeline.totalCap": "{cap} 分封顶",
+  "timeline.legendCapped": "已封顶不计分",
+  "timeline.legendCapHit": "◆ 当月达到封顶",
+  "timeline.legendPeriod": "浅色底 任职时段",
+
+  "profile.confirmDelete": "确定删除档案「{name}」吗？",
+  "profile.title": "教师档案",
+  "profile.description": "档案与草稿保存在本机浏览器中",
+  "profile.draftSaved": "，草稿已于 {time} 自动保存",
+  "profile.namePlaceholder": "教师姓名或工号",
+  "profile.save": "保存档案",
+  "profile.summary": "{count} 条记录 · {time}",
+  "profile.open": "打开",
+  "profile.empty": "还没有保存的档案",
+
+  "history.title": "计算历史",
+  "history.description": "每次计算自动记录，点击查看并与本次结果对照（只读）",
+  "history.empty": "还没有计算记录",
+  "history.past": "历史（{time}）",
+  "history.current": "本次计算",
+
+  "compare.title": "排序方式对比",
+  "compare.description": "同一组任职记录分别按每种排序方式计算，对照总分与各岗位得分",
+  "compare.run": "开始对比",
+  "compare.running": "对比中 {percent}%",
+  "compare.current": "（当前）",
+  "compare.delta": "与当前相差 {delta}",
+
+  "diff.title": "更正前后对比",
+  "diff.description": "左侧填写更正后的任职记录，与更正前的记录或保存的计算结果对比，列出得分的具体变化",
+  "diff.sourceEntries": "更正前的记录",
+  "diff.sourceSaved": "保存的结果",
+  "diff.beforeHint": "更正前的任职记录，格式与左侧相同",
+  "diff.noHistory": "还没有保存的计算结果，计算一次后即可选用",
+  "diff.run": "开始对比",
+  "diff.running": "对比中…",
+  "diff.export": "导出差异",
+  "diff.fileName": "得分变化对比",
+  "diff.noChange": "两次计算的结果完全相同",
+  "diff.totalLine": "总分 {before} → {after}（{delta}）",
+  "diff.entriesSection": "任职记录",
+  "diff.rolesSection": "岗位得分",
+  "diff.monthsSection": "分配有变化的月份（{count} 个）",
+  "diff.change": "变化",
+  "diff.entry.unchanged": "未变",
+  "diff.entry.changed": "改期",
+  "diff.entry.added": "新增",
+  "diff.entry.removed": "删除",
+  "diff.before": "更正前",
+  "diff.after": "更正后",
+  "diff.delta": "分差",
+  "diff.beforeStart": "更正前开始",
+  "diff.beforeEnd": "更正前结束",
+  "diff.afterStart": "更正后开始",
+  "diff.afterEnd": "更正后结束",
+  "diff.noAllocation": "无",
+
+  "bundle.title": "存档核验",
+  "bundle.description": "载入导出的 JSON 存档，按其中的规则重新计算，核对结果能否原样复现",
+  "bundle.import": "选择存档文件",
+  "bundle.verifying": "核验中…",
+  "bundle.summary": "{teacher}导出于 {time} · 规则 {version}",
+  "bundle.hashOk": "内容哈希一致，存档导出后未被改动",
+  "bundle.hashMismatch": "内容哈希不一致，存档导出后被改动过",
+  "bundle.reproduced": "重新计算的结果与存档完全一致",
+  "bundle.mismatchCount": "重新计算有 {count} 处与存档不一致",
+  "bundle.totalLine": "存档总分 {archived}，重新计算 {recalculated}",
+  "bundle.field": "字段",
+  "bundle.archived": "存档",
+  "bundle.recalculated": "重新计算",
+  "bundle.moreMismatches": "另有 {count} 处未列出",
+  "bundle.load": "载入到输入",
+  "bundle.notJson": "文件不是有效的 JSON",
+  "bundle.notBundle": "文件不是得分存档",
+  "bundle.unsupportedVersion": "不支持的存档版本：{version}",
+  "bundle.invalidField": "存档中的 {field} 缺失或格式不正确",
+
+  "review.title": "提交与审核",
+  "review.description": "教师逐条提交任职记录并附聘任文件，审核人逐条通过、驳回或修改，只有通过的记录计入正式计算",
+  "review.viewSubmit": "教师提交",
+  "review.viewReview": "审核",
+  "review.teacherPlaceholder": "教师姓名或工号",
+  "review.docNumber": "任职文号",
+  "review.docNumberPlaceholder": "如 教字〔2010〕12号",
+  "review.document": "聘任文件",
+  "review.chooseDocument": "选择 PDF 或图片",
+  "review.submit": "提交审核",
+  "review.submitHint": "同一教师多次提交会合并到同一份审核中；文件暂存于本机浏览器",
+  "review.submitted": "已为 {teacher} 提交 {count} 条记录，等待审核",
+  "review.reviewerPlaceholder": "审核人姓名",
+  "review.submissionOption": "{teacher}（待审 {pending} / 共 {total}）",
+  "review.counts": "已通过 {approved} · 已驳回 {rejected} · 待审 {pending} · 更新于 {time}",
+  "review.statusPending": "待审",
+  "review.statusApproved": "已通过",
+  "review.statusRejected": "已驳回",
+  "review.period": "{start} 至 {end}",
+  "review.viewDocument": "查看文件",
+  "review.commentPlaceholder": "审核意见（驳回或修改时必填）",
+  "review.approve": "通过",
+  "review.reject": "驳回",
+  "review.saveEdit": "保存修改并通过",
+  "review.actionSubmitted": "提交",
+  "review.actionApproved": "通过",
+  "review.actionRejected": "驳回",
+  "review.actionEdited": "修改并通过",
+  "review.logLine": "{time} {by} {action}",
+  "review.editedFrom": "（原为 {role} {start} 至 {end}，文号 {docNumber}）",
+  "review.commentSuffix": "：{comment}",
+  "review.officialTitle": "正式计算",
+  "review.officialHint": "只计入已通过的 {count} 条记录，按当前的计分规则与计分方式",
+  "review.calculate": "计算",
+  "review.officialTotal": "正式得分：{score}",
+  "review.empty": "还没有提交的记录",
+  "review.confirmDelete": "确定删除 {teacher} 的全部提交及附件？",
+  "review.missingTeacher": "请填写教师姓名或工号",
+  "review.noRows": "请至少填写一条记录",
+  "review.missingDocNumber": "请填写任职文号",
+  "review.missingDocument": "请附上聘任文件",
+  "review.unsupportedDocument": "{name} 不是 PDF 或图片",
+  "review.documentTooLarge": "{name} 超过 {limit} MB",
+  "review.missingComment": "驳回或修改时请填写审核意见",
+  "review.missingReviewer": "请填写审核人姓名",
+  "review.submissionNotFound": "找不到这份提交，可能已被删除",
+  "review.documentNotFound": "找不到附件，可能已被删除",
+  "review.noApproved": "还没有通过审核的记录",
+  "review.badDates": "{role} 的日期无法识别：{start} 至 {end}",
+
+  "report.teacherName": "教师姓名",
+  "report.employeeId": "工号",
+  "report.school": "学校",
+  "report.evaluationDate": "评审日期",
+  "report.back": "返回",
+  "report.print": "打印 / 存为 PDF",
+  "report.heading": "教师管理岗位得分评审报告",
+  "report.entriesSection": "一、岗位任职记录",
+  "report.index": "序号",
+  "report.monthSpan": "跨越月数",
+  "report.summarySection": "二、岗位得分汇总",
+  "report.totalCapNote": "不计总分封顶时累计 {raw} 分；总分于 {ym} 达到 {cap} 分封顶，当月剩余分数{rule}，此后不再计分。",
+  "report.reviewerSignature": "审核人签字",
+  "report.teacherSignature": "教师本人签字",
+  "report.fieldLabel": "{label}：",
+  "report.date": "日期",
+  "report.appendix": "附录：分学年得分明细",
+  "report.academicYear": "学年",
+  "report.monthsServed": "在岗月数",
+  "report.yearTotal": "合计",
+
+  "app.title": "教师管理岗位得分计算器",
+  "app.subtitle": "智能化管理类别得分计算系统",
+  "app.tailwindTest": "Tailwind CSS 测试 - 如果你看到红色背景，说明样式正在工作！",
+  "app.lightMode": "🌞 亮色模式",
+  "app.darkMode": "🌙 暗色模式",
+  "app.stepInput": "数据输入",
+  "app.stepCalc": "计算处理",
+  "app.stepResult": "结果展示",
+  "app.inputTitle": "岗位记录输入",
+  "app.inputHintSingle": "请按照\"岗位,开始日期,结束日期\"格式输入，每行一条记录",
+  "app.inputHintRoster": "请按照\"教师,岗位,开始日期,结束日期\"格式输入，每行一条记录",
+  "app.modeSingle": "单人计算",
+  "app.modeRoster": "批量名单",
+  "app.modePlan": "规划预测",
+  "app.modeDiff": "更正对比",
+  "app.cutoff": "截至",
+  "app.cutoffHint": "评审截止日期：之后的任职不计，结束日期写「至今」时取此日期；不填则取当天",
+  "app.cutoffLabel": "截至 {date}",
+  "app.roleTypes": "支持的岗位类型",
+  "app.roleHint": "录入时可填写岗位名称、代码或别名，鼠标悬停可查看",
+  "app.inputData": "岗位数据",
+  "app.viewTable": "表格编辑",
+  "app.viewText": "CSV 文本",
+  "app.placeholderSingle": "例如: \"班主任\",\"2006-09-01\",\"2010-08-31\"",
+  "app.placeholderRoster": "例如: \"T001 张老师\",\"班主任\",\"2006-09-01\",\"2010-08-31\"",
+  "app.inputError": "输入错误",
+  "app.calculating": "计算中 {percent}%",
+  "app.calculate": "开始计算",
+  "app.cancelHint": "取消本次计算",
+  "app.copyLinkHint": "把当前输入和设置复制为分享链接",
+  "app.linkCopied": "已复制",
+  "app.copyLink": "复制链接",
+  "app.shareInvalid": "分享链接无效：{message}",
+  "app.copyFailed": "无法复制链接：{message}",
+  "app.exportFailed": "无法导出 Excel：{message}",
+  "app.rosterLabel": "批量名单（{count} 人）",
+  "app.unnamed": "未命名",
+  "app.totalTitle": "管理类别总分",
+  "app.totalCapNote": "原始总分 {raw} · {ym} 达到封顶，当月剩余分数{rule}，此后不再计分",
+  "app.totalCapped": "✓ 已达封顶",
+  "app.totalNotCapped": "⏳ 未达封顶",
+  "app.policyLine": "计分规则：{version} · {proration}",
+  "app.exportCsv": "导出 CSV",
+  "app.exportXlsx": "导出 Excel",
+  "app.exportBundle": "导出 JSON 存档",
+  "app.printReport": "打印报告",
+  "app.roleSummary": "岗位得分汇总",
+  "app.rawScore": "（原始 {raw}）",
+  "app.capGroup": "合计封顶：{name}",
+  "app.groupMembers": "（{roles}）",
+  "app.groupCappedAt": "{ym} 封顶",
+  "app.monthDetails": "逐月权重分配明细",
+  "app.monthDetailsHint": "显示每月的岗位权重分配和得分增长详情",
+  "app.waiting": "等待计算结果",
+  "app.waitingHint": "请在左侧输入岗位数据并点击\"开始计算\"按钮",
+
+  "monthDetails.allRoles": "全部岗位",
+  "monthDetails.fromYear": "起始学年",
+  "monthDetails.toYear": "截止学年",
+  "monthDetails.zeroOrCapOnly": "只看得分为 0 或触及封顶的月份",
+  "monthDetails.expandAll": "全部展开",
+  "monthDetails.collapseAll": "全部收起",
+  "monthDetails.summary": "显示 {years} 个学年中的 {shown} 个月（共 {total} 个月）",
+  "monthDetails.monthsShown": "显示 {shown} / {months} 个月",
+  "monthDetails.noMatch": "没有符合筛选条件的月份",
+
+  "cli.usage": `用法：teacher-score calc <记录文件.csv | -> [选项]
+      teacher-score verify <存档.json | ->
+      teacher-score serve [--port 8787] [--host 127.0.0.1] [选项]
+      teacher-score openapi
+
+选项：
+  --format <json|csv|table|bundle>
+                             输出格式，默认 table；bundle 为可重新导入核验的 JSON 存档
+  --roster                   批量名单模式，每行首列为教师工号或姓名
+  --policy <规则.json>       使用导出的计分规则，默认使用内置规则
+  --proration <month|day>    首末月整月计算或按在岗天数折算，默认 month
+  --ordering <greedy|priority|best>
+                             每月岗位的排序方式：贪心、按规则中岗位顺序或搜索总分较高的排序，默认 greedy
+  --cutoff <日期>            评审截止日期，之后的任职不计；结束日期写「至今」时取此日期，默认当天
+  --merge                    合并同一岗位重复、重叠或相邻的时段（否则仅在标准错误输出中提示）
+  --lang <zh-CN|en>          输出语言，默认 zh-CN
+  --port <端口>              serve 监听的端口，默认 8787
+  --host <地址>              serve 监听的地址，默认 127.0.0.1；供校内网其他机器访问时用 0.0.0.0
+  -h, --help                 显示帮助
+
+岗位可填写名称、代码（如 CLASS）或规则中的别名；日期可写 2006-09-01、2006/9/1、2006.09 或 2006年9月，结束日期可写「至今」。
+verify 按存档中的规则重新计算，结果与存档不一致时退出码为 1。
+serve 启动本地 HTTP 计分服务（POST /score、POST /score/batch），--policy 与计分选项为请求未指定时的默认值；openapi 输出接口的 OpenAPI 描述。`,
+  "cli.unknownCommand": "未知命令：{command}",
+  "cli.missingFile": "缺少输入文件路径，使用 - 从标准输入读取",
+  "cli.unknownFormat": "不支持的输出格式：{format}",
+  "cli.unknownProration": "不支持的计分方式：{proration}",
+  "cli.unknownOrdering": "不支持的排序方式：{ordering}",
+  "cli.invalidCutoff": "无法识别的截止日期：{cutoff}",
+  "cli.invalidPort": "无效的端口：{port}",
+  "cli.serverListening": "计分服务已启动：{url}（默认规则 {version}），接口说明见 {url}/openapi.json",
+  "cli.policyLoadFailed": "无法加载计分规则 {path}：{message}",
+  "cli.mergeApplied": "提示：{teacher}{role}时段{kind}（{sources}），已合并为 {merged}",
+  "cli.mergeSkipped": "提示：{teacher}{role}时段{kind}（{sources}），未合并",
+  "cli.policyLine": "计分规则：{version}",
+  "cli.prorationLine": "计分方式：{proration}",
+  "cli.orderingLine": "排序方式：{ordering}",
+  "cli.cutoffLine": "截止日期：{cutoff}",
+  "cli.rawTotalLine": "原始总分：{raw}",
+  "cli.totalLine": "总分：{score} / {cap}（未封顶）",
+  "cli.totalCappedLine": "总分：{score} / {cap}（{ym} 达到封顶，当月剩余分数{rule}）",
+  "cli.error": "错误：{message}",
+  "cli.verifyMismatch": "  {path}：存档 {archived}，重新计算 {recalculated}",
+
+  "server.notFound": "没有这个接口：{path}",
+  "server.methodNotAllowed": "{method} 不适用于这个接口，请使用 {allowed}",
+  "server.unsupportedMediaType": "不支持的请求格式 {type}，请使用 application/json 或 text/csv",
+  "server.payloadTooLarge": "请求体超过 {limit} KB",
+  "server.invalidJson": "请求体不是有效的 JSON 对象",
+  "server.invalidPolicy": "计分规则有误：{message}",
+  "server.missingInput": "请求中须有 entries 数组或 csv 文本",
+  "server.fieldType": "字段 {field} 应为{type}",
+  "server.typeString": "字符串",
+  "server.typeArray": "数组",
+  "server.typeObject": "对象",
+  "server.typeBoolean": "布尔值（true 或 false）",
+  "server.noEntries": "没有任职记录",
+  "server.validationFailed": "有 {count} 处输入需要修正，{first}",
+};
+
+export type MessageKey = keyof typeof zhCN;
@@ -0,0 +1,95 @@
+import { ymToIndex, type ProrationMode, type RoleEntry } from "./engine";
+
+// ----- 同一岗位重复、重叠、相邻时段的检查与合并 -----
+
+/** duplicate 完全相同；overlap 时段重叠；adjacent 首尾相接（后一段紧接前一段的次日开始，整月计算时为下个月开始） */
+export type MergeKind = "duplicate" | "overlap" | "adjacent";
+
+export interface MergeSuggestion {
+  id: string;
+  /** 岗位代码 */
+  role: string;
+  kind: MergeKind;
+  sources: RoleEntry[];
+  merged: RoleEntry;
+}
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+// 整月计算时两段落在同一个月或相邻月份即可合为一段，按月比较；按天折算时按日期比较，中间未在岗的天数不能并入
+function sameOrBefore(start: string, end: string, proration: ProrationMode): boolean {
+  return proration === "month" ? ymToIndex(start) <= ymToIndex(end) : start <= end;
+}
+
+function touches(start: string, end: string, proration: ProrationMode): boolean {
+  return proration === "month" ? ymToIndex(start) <= ymToIndex(end) + 1 : start <= nextDay(end);
+}
+
+// 合并后的记录保留各来源的附加信息，同一列取值不同时都列出
+function mergeMeta(group: RoleEntry[]): Record<string, string> | undefined {
+  const values = new Map<string, string[]>();
+  group.forEach(e => Object.entries(e.meta ?? {}).forEach(([col, value]) => {
+    const list = values.get(col) ?? [];
+    if (!list.includes(value)) values.set(col, [...list, value]);
+  }));
+  return values.size ? Object.fromEntries([...values].map(([col, list]) => [col, list.join(" / ")])) : undefined;
+}
+
+/** proration 为计分方式：整月计算时落在同一个月或相邻月份的两段也视为重叠或相接 */
+export function findMerges(entries: RoleEntry[], proration: ProrationMode): MergeSuggestion[] {
+  const byRole = new Map<string, RoleEntry[]>();
+  entries.forEach(e => byRole.set(e.role, [...(byRole.get(e.role) ?? []), e]));
+
+  const suggestions: MergeSuggestion[] = [];
+  byRole.forEach((list, role) => {
+    const sorted = [...list].sort((a, b) => a.start.localeCompare(b.start) || a.end.localeCompare(b.end));
+    let group: RoleEntry[] = [];
+    let groupEnd = "";
+
+    const flush = () => {
+      if (group.length > 1) {
+        const meta = mergeMeta(group);
+        const merged: RoleEntry = meta ? { role, start: group[0].start, end: groupEnd, meta } : { role, start: group[0].start, end: groupEnd };
+        const isDuplicate = group.every(e => e.start === group[0].start && e.end === group[0].end);
+        const overlaps = group.some((e, i) => i > 0 && sameOrBefore(e.start, group.slice(0, i).reduce((m, p) => p.end > m ? p.end : m, ""), proration));
+        suggestions.push({
+          id: `${role}:${merged.start}:${merged.end}`,
+          role,
+          kind: isDuplicate ? "duplicate" : overlaps ? "overlap" : "adjacent",
+          sources: group,
+          merged,
+        });
+      }
+    };
+
+    sorted.forEach(e => {
+      if (group.length && touches(e.start, groupEnd, proration)) {
+        group.push(e);
+        if (e.end > groupEnd) groupEnd = e.end;
+      } else {
+        flush();
+        group = [e];
+        groupEnd = e.end;
+      }
+    });
+    flush();
+  });
+  return suggestions;
+}
+
+/** 用合并后的时段替换被接受的建议所涉及的原始记录，其余记录保持原样和原顺序 */
+export function applyMerges(entries: RoleEntry[], suggestions: MergeSuggestion[], isAccepted: (s: MergeSuggestion) => boolean): RoleEntry[] {
+  const replaced = new Map<RoleEntry, RoleEntry | null>();
+  suggestions.filter(isAccepted).forEach(s => {
+    s.sources.forEach((source, i) => replaced.set(source, i === 0 ? s.merged : null));
+  });
+  return entries.flatMap(e => {
+    if (!replaced.has(e)) return [e];
+    const merged = replaced.get(e);
+    return merged ? [merged] : [];
+  });
+}
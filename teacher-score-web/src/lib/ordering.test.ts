@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { indexToYM, runScoring, scoreEntries, ymToIndex, type CalcOptions, type RoleEntry } from "./engine";
+import { planRank } from "./ordering";
+import type { ScoringPolicy } from "./policy";
+
+// 岗位少、月份短的记录可以穷举逐月排序，用来核对搜索结果
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, idx) => permutations(items.filter((_, i) => i !== idx)).map(rest => [item, ...rest]));
+}
+
+function bruteForceTotal(entries: RoleEntry[], policy: ScoringPolicy, options: CalcOptions): number {
+  const first = Math.min(...entries.map(e => ymToIndex(e.start)));
+  const last = Math.max(...entries.map(e => ymToIndex(e.end)));
+  const months = Array.from({ length: last - first + 1 }, (_, i) => first + i).map(ymIdx => ({
+    ymIdx,
+    orders: permutations([...new Set(entries.filter(e => ymToIndex(e.start) <= ymIdx && ymIdx <= ymToIndex(e.end)).map(e => e.role))]),
+  }));
+  let best = 0;
+  const walk = (monthIdx: number, plan: Map<number, string[]>) => {
+    if (monthIdx === months.length) {
+      best = Math.max(best, runScoring(entries, policy, options, planRank(plan)).totalScore);
+      return;
+    }
+    months[monthIdx].orders.forEach(order => walk(monthIdx + 1, new Map(plan).set(months[monthIdx].ymIdx, order)));
+  };
+  walk(0, new Map());
+  return best;
+}
+
+// 固定种子的伪随机数，保证每次生成同样的用例
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let x = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    x = (x + Math.imul(x ^ (x >>> 7), 61 | x)) ^ x;
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomCase(seed: number): { entries: RoleEntry[]; policy: ScoringPolicy; options: CalcOptions } {
+  const next = random(seed);
+  const pick = <T>(items: T[]) => items[Math.floor(next() * items.length)];
+  const codes = ["A", "B", "C"];
+  const policy: ScoringPolicy = {
+    version: `case-${seed}`,
+    roles: codes.map(code => ({ name: code, code, aliases: [], cap: pick([0.5, 1, 1.5, 2]), tiers: [{ fromMonth: 0, baseline: pick([3, 6, 12, 18]) }], color: "" })),
+    weights: [1, 0.5],
+    totalCap: pick([1.5, 2.5, 10]),
+    totalCapRule: pick(["ordered", "proportional"] as const),
+    capGroups: next() < 0.5 ? [{ name: "", roles: ["A", "B"], cap: pick([0.75, 1.5]) }] : [],
+  };
+  const entries = codes.map(role => {
+    const start = ymToIndex("2020-01") + Math.floor(next() * 3);
+    const end = start + Math.floor(next() * 3);
+    return { role, start: `${indexToYM(start)}-01`, end: `${indexToYM(end)}-28` };
+  });
+  return { entries, policy, options: { proration: pick(["month", "day"] as const), ordering: "best" } };
+}
+
+describe("best 排序", () => {
+  const cases = Array.from({ length: 40 }, (_, i) => randomCase(i + 1));
+
+  it.each(cases.map((c, i) => [i + 1, c] as const))("用例 %i 与穷举逐月排序的最高总分一致", (_, { entries, policy, options }) => {
+    expect(scoreEntries(entries, policy, options).totalScore).toBeCloseTo(bruteForceTotal(entries, policy, options), 4);
+  });
+
+  it("不低于贪心排序，且至少有一个用例高于贪心", () => {
+    const gaps = cases.map(({ entries, policy, options }) =>
+      scoreEntries(entries, policy, options).totalScore - scoreEntries(entries, policy, { ...options, ordering: "greedy" }).totalScore);
+    expect(Math.min(...gaps)).toBeGreaterThanOrEqual(-1e-9);
+    expect(Math.max(...gaps)).toBeGreaterThan(1e-6);
+  });
+});
@@ -0,0 +1,150 @@
+import type { ScoringPolicy } from "./policy";
+
+// ----- 每月候选岗位的排序方式：位次决定权重，排序不同，最终得分也可能不同 -----
+
+/**
+ * greedy：当月应得基准分高者在前，相同时剩余封顶空间大者在前（原有算法）；
+ * priority：按计分规则中岗位的排列顺序，与基准分无关；
+ * best：在同样的封顶约束下逐月搜索总分较高的排序；搜索宽度有限，结果是找到的最好方案，不保证理论最优。
+ */
+export type OrderingStrategy = "greedy" | "priority" | "best";
+
+export const ORDERING_STRATEGIES: OrderingStrategy[] = ["greedy", "priority", "best"];
+
+/** 参与当月排序的岗位，baselinePerMonth 为折算后的当月应得基准分 */
+export interface RankCandidate { role: string; baselinePerMonth: number; remainingCap: number; }
+
+/** 返回排好序的新数组，ymIdx 为当月的月份序号 */
+export type RankFn = <T extends RankCandidate>(candidates: T[], ymIdx: number) => T[];
+
+export const greedyRank: RankFn = candidates =>
+  [...candidates].sort((a, b) => b.baselinePerMonth - a.baselinePerMonth || b.remainingCap - a.remainingCap);
+
+export function priorityRank(policy: ScoringPolicy): RankFn {
+  const order = new Map(policy.roles.map((r, idx) => [r.code, idx]));
+  return candidates => [...candidates].sort((a, b) => (order.get(a.role) ?? Infinity) - (order.get(b.role) ?? Infinity));
+}
+
+/** 按搜索得到的逐月顺序排序，计划中没有的月份或岗位退回贪心顺序 */
+export function planRank(plan: Map<number, string[]>): RankFn {
+  return (candidates, ymIdx) => {
+    const order = plan.get(ymIdx) ?? [];
+    const position = (role: string) => {
+      const idx = order.indexOf(role);
+      return idx < 0 ? Infinity : idx;
+    };
+    return greedyRank(candidates, ymIdx).sort((a, b) => position(a.role) - position(b.role));
+  };
+}
+
+// ----- 排序搜索 -----
+
+/** 某月在岗的候选岗位（不考虑封顶），由计分引擎按任职记录预先算出 */
+export interface ScheduledMonth { ymIdx: number; candidates: { role: string; baselinePerMonth: number }[]; }
+
+interface SearchState {
+  /** 按 policy.roles 下标排列的累计得分（不计总分封顶） */
+  scores: number[];
+  total: number;
+  capped: boolean[];
+  /** 与贪心顺序不同的月数，总分相同时取改动最少的方案 */
+  deviations: number;
+  parent: SearchState | null;
+  ymIdx: number;
+  order: string[];
+}
+
+/** 每月保留的状态数上限，超过时只保留累计得分高的 */
+const BEAM_WIDTH = 24;
+/** 候选岗位过多时只在贪心顺序的前几位之间调换 */
+const MAX_PERMUTED = 4;
+
+// 从 items 中取 k 个排列在前，其余保持原顺序接在后面；第一个结果即原顺序
+function orderings<T>(items: T[], k: number): T[][] {
+  const result: T[][] = [];
+  const walk = (prefix: T[], rest: T[]) => {
+    if (prefix.length === k) {
+      result.push([...prefix, ...rest]);
+      return;
+    }
+    rest.forEach((item, idx) => walk([...prefix, item], rest.filter((_, i) => i !== idx)));
+  };
+  walk([], items);
+  return result;
+}
+
+const sum = (values: number[]) => values.reduce((s, v) => s + v, 0);
+
+function dominates(a: SearchState, b: SearchState): boolean {
+  return a.deviations <= b.deviations && a.scores.every((s, i) => s >= b.scores[i] - 1e-9);
+}
+
+/**
+ * 在与计分引擎相同的权重、岗位封顶和合计封顶规则下，搜索逐月排序使封顶后的总分最高。
+ * 每月枚举候选岗位的排列，去掉各岗位得分都不占优的状态；状态过多时按累计得分截断，
+ * 因此是近似搜索，调用方应与贪心顺序的结果比较后取高者。
+ */
+export function searchBestPlan(
+  schedule: ScheduledMonth[], policy: ScoringPolicy,
+  onProgress?: (monthsDone: number, monthsTotal: number) => void,
+): Map<number, string[]> {
+  const roleIdx = new Map(policy.roles.map((r, idx) => [r.code, idx]));
+  const caps = policy.roles.map(r => r.cap);
+  const groups = policy.capGroups.map(g => ({ cap: g.cap, members: g.roles.map(code => roleIdx.get(code) ?? -1).filter(idx => idx >= 0) }));
+  const groupsOf = policy.roles.map((_, i) => groups.filter(g => g.members.includes(i)));
+  const groupScore = (scores: number[], g: { members: number[] }) => sum(g.members.map(j => scores[j]));
+
+  // 与计分引擎逐岗位的计分过程一致：先受所属各合计封顶组中最紧的额度限制，再受岗位封顶限制
+  const step = (state: SearchState, ordered: { role: string; baselinePerMonth: number }[]) => {
+    const scores = [...state.scores];
+    const capped = [...state.capped];
+    ordered.slice(0, policy.weights.length).forEach((c, w) => {
+      const i = roleIdx.get(c.role)!;
+      let gain = c.baselinePerMonth * policy.weights[w];
+      if (groupsOf[i].length) {
+        const remainingCombo = Math.min(...groupsOf[i].map(g => g.cap - groupScore(scores, g)));
+        gain = remainingCombo <= 0 ? 0 : Math.min(gain, remainingCombo);
+      }
+      scores[i] += Math.min(gain, caps[i] - scores[i]);
+      groupsOf[i].filter(g => groupScore(scores, g) >= g.cap - 1e-6).forEach(g => g.members.forEach(j => { capped[j] = true; }));
+      if (scores[i] >= caps[i] - 1e-6) capped[i] = true;
+    });
+    return { scores, total: sum(scores), capped };
+  };
+
+  const initial: SearchState = { scores: caps.map(() => 0), total: 0, capped: caps.map(() => false), deviations: 0, parent: null, ymIdx: -1, order: [] };
+  let states = [initial];
+
+  schedule.forEach(({ ymIdx, candidates }, monthIdx) => {
+    onProgress?.(monthIdx, schedule.length);
+    const next: SearchState[] = [];
+    states.forEach(state => {
+      const open = greedyRank(candidates.flatMap(c => {
+        const i = roleIdx.get(c.role)!;
+        return state.capped[i] ? [] : [{ ...c, remainingCap: caps[i] - state.scores[i] }];
+      }), ymIdx);
+      // 已达总封顶分的状态之后怎么排都不再影响总分，只沿贪心顺序延续
+      const pool = state.total >= policy.totalCap - 1e-9 ? [] : open.slice(0, MAX_PERMUTED);
+      orderings(pool, Math.min(pool.length, policy.weights.length)).forEach((ordered, idx) => {
+        const full = [...ordered, ...open.slice(pool.length)];
+        next.push({ ...step(state, full), deviations: state.deviations + (idx === 0 ? 0 : 1), parent: state, ymIdx, order: full.map(c => c.role) });
+      });
+    });
+
+    // 得分相同的状态按改动少者在前，后出现的会被前者占优而去掉
+    next.sort((a, b) => b.total - a.total || a.deviations - b.deviations);
+    const kept: SearchState[] = [];
+    for (const state of next) {
+      if (kept.length >= BEAM_WIDTH) break;
+      if (!kept.some(k => dominates(k, state))) kept.push(state);
+    }
+    states = kept;
+  });
+
+  const credited = (state: SearchState) => Math.min(policy.totalCap, state.total);
+  const best = states.reduce((a, b) => credited(b) > credited(a) + 1e-9 || (Math.abs(credited(b) - credited(a)) <= 1e-9 && b.deviations < a.deviations) ? b : a);
+
+  const plan = new Map<number, string[]>();
+  for (let s: SearchState | null = best; s?.parent; s = s.parent) plan.set(s.ymIdx, s.order);
+  return plan;
+}
@@ -0,0 +1,114 @@
+import { orderingOf, PRORATION_MODES, type CalcOptions, type ProrationMode } from "./engine";
+import { isIsoDate } from "./dates";
+import { t } from "./i18n";
+import { ORDERING_STRATEGIES, type OrderingStrategy } from "./ordering";
+import { DEFAULT_POLICY, parsePolicy, type ScoringPolicy } from "./policy";
+
+// ----- 分享链接：把输入和非默认设置压缩进 URL 片段（#share=...），不经过服务器 -----
+
+const PREFIX = "share=";
+const FORMAT_VERSION = 1;
+
+export type ShareMode = "single" | "roster" | "plan" | "diff";
+
+/** 只有与默认值不同的设置才写入链接 */
+export interface SharedState {
+  mode: ShareMode;
+  text: string;
+  proration?: ProrationMode;
+  ordering?: OrderingStrategy;
+  cutoff?: string;
+  policy?: ScoringPolicy;
+  /** 未接受的合并建议 */
+  rejectedMerges?: string[];
+}
+
+// FNV-1a 校验码，用来发现被改动或截断的链接
+function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export function buildSharedState(mode: ShareMode, text: string, options: CalcOptions, policy: ScoringPolicy, rejectedMerges: string[]): SharedState {
+  const state: SharedState = { mode, text };
+  if (options.proration !== "month") state.proration = options.proration;
+  if (orderingOf(options) !== "greedy") state.ordering = options.ordering;
+  if (options.cutoff) state.cutoff = options.cutoff;
+  if (JSON.stringify(policy) !== JSON.stringify(DEFAULT_POLICY)) state.policy = policy;
+  if (rejectedMerges.length) state.rejectedMerges = rejectedMerges;
+  return state;
+}
+
+/** 返回不含 # 的片段内容：share=版本.压缩数据.校验码 */
+export async function encodeShare(state: SharedState): Promise<string> {
+  const json = JSON.stringify(state);
+  const compressed = await transform(new TextEncoder().encode(json), new CompressionStream("deflate-raw"));
+  return `${PREFIX}${FORMAT_VERSION}.${toBase64Url(compressed)}.${checksum(json)}`;
+}
+
+export function isShareFragment(hash: string): boolean {
+  return hash.replace(/^#/, "").startsWith(PREFIX);
+}
+
+/** 解析分享链接片段，格式不对、数据损坏或被改动时按当前语言抛出提示 */
+export async function decodeShare(hash: string): Promise<SharedState> {
+  const parts = hash.replace(/^#/, "").slice(PREFIX.length).split(".");
+  if (parts.length !== 3 || !parts[1]) throw new Error(t("share.incomplete"));
+  const [version, data, sum] = parts;
+  if (Number(version) !== FORMAT_VERSION) throw new Error(t("share.unsupportedVersion", { version }));
+
+  let json: string;
+  try {
+    json = new TextDecoder().decode(await transform(fromBase64Url(data), new DecompressionStream("deflate-raw")));
+  } catch {
+    throw new Error(t("share.corrupted"));
+  }
+  if (checksum(json) !== sum) throw new Error(t("share.checksum"));
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(t("share.invalidJson"));
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error(t("share.invalidData"));
+  const raw = parsed as Record<string, unknown>;
+  if (!["single", "roster", "plan", "diff"].includes(raw.mode as string)) throw new Error(t("share.unknownMode", { mode: String(raw.mode) }));
+  if (typeof raw.text !== "string") throw new Error(t("share.missingText"));
+  if (raw.proration !== undefined && !PRORATION_MODES.includes(raw.proration as ProrationMode)) throw new Error(t("share.unknownProration", { proration: String(raw.proration) }));
+  if (raw.ordering !== undefined && !ORDERING_STRATEGIES.includes(raw.ordering as OrderingStrategy)) throw new Error(t("share.unknownOrdering", { ordering: String(raw.ordering) }));
+  if (raw.cutoff !== undefined && !isIsoDate(raw.cutoff)) throw new Error(t("share.invalidCutoff", { cutoff: String(raw.cutoff) }));
+  if (raw.rejectedMerges !== undefined && !(Array.isArray(raw.rejectedMerges) && raw.rejectedMerges.every(k => typeof k === "string"))) {
+    throw new Error(t("share.invalidMerges"));
+  }
+
+  return {
+    mode: raw.mode as ShareMode,
+    text: raw.text,
+    proration: raw.proration as ProrationMode | undefined,
+    ordering: raw.ordering as OrderingStrategy | undefined,
+    cutoff: raw.cutoff as string | undefined,
+    policy: raw.policy === undefined ? undefined : parsePolicy(raw.policy),
+    rejectedMerges: raw.rejectedMerges as string[] | undefined,
+  };
+}
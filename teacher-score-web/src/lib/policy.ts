@@ -0,0 +1,191 @@
+import { builtinRoleName, t } from "./i18n";
+
+// ----- 计分规则（可编辑、带版本） -----
+
+/** 基准分档位：任职满 fromMonth 个月后（从 0 起算），按 baseline 年基准分计分 */
+export interface BaselineTier { fromMonth: number; baseline: number; }
+
+/** 计分逻辑只认 code；name 为规则中的显示名称，aliases 为录入时可用的其他写法（如人事导出的称呼） */
+export interface RolePolicy {
+  name: string;
+  code: string;
+  aliases: string[];
+  cap: number;
+  tiers: BaselineTier[];
+  color: string;
+}
+
+/**
+ * 合计封顶组：roles（岗位代码）中各岗位得分之和不超过 cap，一个岗位可以同时属于多个组。
+ * name 为空时按成员岗位名称显示（见 groupName）。
+ */
+export interface CapGroup { name: string; roles: string[]; cap: number; }
+
+/**
+ * 总分触顶当月剩余分数的分配方式：
+ * ordered 按当月排序位次依次补足；proportional 按各岗位当月应得分等比例缩减。
+ */
+export type TotalCapRule = "ordered" | "proportional";
+
+export const TOTAL_CAP_RULES: TotalCapRule[] = ["ordered", "proportional"];
+
+export interface ScoringPolicy {
+  version: string;
+  roles: RolePolicy[];
+  weights: number[];
+  totalCap: number;
+  totalCapRule: TotalCapRule;
+  capGroups: CapGroup[];
+}
+
+// Tailwind 需要在源码中看到完整类名，自定义岗位从这里依次取色
+export const ROLE_COLORS = [
+  "bg-blue-500", "bg-indigo-500", "bg-purple-500", "bg-pink-500", "bg-green-500",
+  "bg-orange-500", "bg-teal-500", "bg-red-500", "bg-yellow-500", "bg-cyan-500",
+  "bg-lime-500", "bg-rose-500", "bg-sky-500", "bg-amber-500", "bg-emerald-500",
+];
+
+/** 图表（SVG）里用的色值，与 ROLE_COLORS 一一对应 */
+export const ROLE_COLOR_HEX: Record<string, string> = {
+  "bg-blue-500": "#3b82f6", "bg-indigo-500": "#6366f1", "bg-purple-500": "#a855f7", "bg-pink-500": "#ec4899", "bg-green-500": "#22c55e",
+  "bg-orange-500": "#f97316", "bg-teal-500": "#14b8a6", "bg-red-500": "#ef4444", "bg-yellow-500": "#eab308", "bg-cyan-500": "#06b6d4",
+  "bg-lime-500": "#84cc16", "bg-rose-500": "#f43f5e", "bg-sky-500": "#0ea5e9", "bg-amber-500": "#f59e0b", "bg-emerald-500": "#10b981",
+};
+
+export const DEFAULT_POLICY: ScoringPolicy = {
+  version: "2024 区标准",
+  roles: [
+    { name: "班主任", code: "CLASS", aliases: ["正班主任"], cap: 15, tiers: [{ fromMonth: 0, baseline: 1 }, { fromMonth: 72, baseline: 1.5 }], color: "bg-blue-500" },
+    { name: "副班主任", code: "VICE", aliases: ["副班"], cap: 15, tiers: [{ fromMonth: 0, baseline: 0.5 }, { fromMonth: 72, baseline: 0.75 }], color: "bg-indigo-500" },
+    { name: "年级组长", code: "GRADE", aliases: ["年级长", "级长"], cap: 15, tiers: [{ fromMonth: 0, baseline: 1 }, { fromMonth: 72, baseline: 1.5 }], color: "bg-purple-500" },
+    { name: "科组长", code: "SUBJECT", aliases: ["教研组长"], cap: 15, tiers: [{ fromMonth: 0, baseline: 1 }, { fromMonth: 72, baseline: 1.5 }], color: "bg-pink-500" },
+    { name: "备课组长", code: "PREP", aliases: [], cap: 8, tiers: [{ fromMonth: 0, baseline: 0.5 }], color: "bg-green-500" },
+    { name: "中层干部", code: "MID", aliases: ["中层"], cap: 20, tiers: [{ fromMonth: 0, baseline: 1.2 }, { fromMonth: 72, baseline: 1.5 }], color: "bg-orange-500" },
+    { name: "学科主任", code: "DEPT", aliases: [], cap: 15, tiers: [{ fromMonth: 0, baseline: 1 }, { fromMonth: 72, baseline: 1.5 }], color: "bg-teal-500" },
+  ],
+  weights: [1, 0.5, 0.25, 0.125, 0.0625],
+  totalCap: 30,
+  totalCapRule: "ordered",
+  capGroups: [{ name: "", roles: ["CLASS", "VICE"], cap: 15 }],
+};
+
+export function findRole(policy: ScoringPolicy, code: string): RolePolicy | undefined {
+  return policy.roles.find(r => r.code === code);
+}
+
+function sameToken(a: string, b: string): boolean {
+  return a.trim().toUpperCase() === b.trim().toUpperCase();
+}
+
+/** 按录入的写法找岗位：规则中的名称、岗位代码（不分大小写）或别名 */
+export function resolveRole(policy: ScoringPolicy, text: string): RolePolicy | undefined {
+  const token = text.trim();
+  if (!token) return undefined;
+  return policy.roles.find(r => r.name === token || sameToken(r.code, token) || r.aliases.includes(token));
+}
+
+/** 岗位的显示名称：内置岗位按代码取当前语言的名称，其余用规则中的名称；旧历史记录以名称标识岗位，也能找到 */
+export function roleName(policy: ScoringPolicy, key: string): string {
+  const role = findRole(policy, key) ?? policy.roles.find(r => r.name === key);
+  if (!role) return key;
+  return builtinRoleName(role.code) ?? role.name;
+}
+
+/** 第 monthsServed 个任职月（从 0 起算）所处的档位序号 */
+export function tierIndexFor(role: RolePolicy, monthsServed: number): number {
+  let index = 0;
+  role.tiers.forEach((tier, i) => {
+    if (monthsServed >= tier.fromMonth) index = i;
+  });
+  return index;
+}
+
+/** 合计封顶组的显示名称，未命名时为「班主任 + 副班主任」这样的成员列表 */
+export function groupName(policy: ScoringPolicy, group: CapGroup): string {
+  return group.name || group.roles.map(r => roleName(policy, r)).join(" + ");
+}
+
+/** 取第 monthsServed 个任职月（从 0 起算）适用的年基准分 */
+export function baselineFor(role: RolePolicy, monthsServed: number): number {
+  return role.tiers[tierIndexFor(role, monthsServed)]?.baseline ?? 0;
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+/** 校验并规范化外部来源（JSON 导入、编辑器）的规则，出错时按当前语言抛出提示 */
+export function parsePolicy(raw: unknown): ScoringPolicy {
+  if (!raw || typeof raw !== "object") throw new Error(t("policy.notObject"));
+  const obj = raw as Record<string, unknown>;
+
+  const version = typeof obj.version === "string" ? obj.version.trim() : "";
+  if (!version) throw new Error(t("policy.missingVersion"));
+
+  if (!Array.isArray(obj.roles) || !obj.roles.length) throw new Error(t("policy.noRoles"));
+  const roles: RolePolicy[] = obj.roles.map((r: Record<string, unknown>, idx: number) => {
+    const name = typeof r?.name === "string" ? r.name.trim() : "";
+    if (!name) throw new Error(t("policy.missingRoleName", { index: idx + 1 }));
+    // 旧版规则中自定义岗位可能没有代码，按位置补一个
+    const code = (typeof r.code === "string" ? r.code.trim() : "") || `ROLE${idx + 1}`;
+    const aliases = Array.isArray(r.aliases) ? r.aliases.filter((a): a is string => typeof a === "string").map(a => a.trim()).filter(Boolean) : [];
+    if (!isFiniteNumber(r.cap) || r.cap <= 0) throw new Error(t("policy.invalidCap", { role: name }));
+    if (!Array.isArray(r.tiers) || !r.tiers.length) throw new Error(t("policy.noTiers", { role: name }));
+    const tiers: BaselineTier[] = r.tiers.map((tier: Record<string, unknown>) => {
+      if (!isFiniteNumber(tier?.fromMonth) || tier.fromMonth < 0 || !Number.isInteger(tier.fromMonth)) throw new Error(t("policy.invalidTierMonth", { role: name }));
+      if (!isFiniteNumber(tier.baseline) || tier.baseline < 0) throw new Error(t("policy.invalidBaseline", { role: name }));
+      return { fromMonth: tier.fromMonth, baseline: tier.baseline };
+    }).sort((a: BaselineTier, b: BaselineTier) => a.fromMonth - b.fromMonth);
+    if (tiers[0].fromMonth !== 0) throw new Error(t("policy.firstTier", { role: name }));
+    const color = typeof r.color === "string" && ROLE_COLORS.includes(r.color) ? r.color : ROLE_COLORS[idx % ROLE_COLORS.length];
+    return { name, code, aliases: [...new Set(aliases)], cap: r.cap, tiers, color };
+  });
+
+  // 名称、代码和别名都用来识别录入的岗位，彼此不能指向不同岗位
+  const owners = new Map<string, RolePolicy>();
+  const claim = (token: string, role: RolePolicy, message: (other: RolePolicy) => string) => {
+    const key = token.toUpperCase();
+    const other = owners.get(key);
+    if (other && other !== role) throw new Error(message(other));
+    owners.set(key, role);
+  };
+  roles.forEach(r => {
+    if (roles.some(o => o !== r && o.name === r.name)) throw new Error(t("policy.duplicateName", { role: r.name }));
+    if (roles.some(o => o !== r && sameToken(o.code, r.code))) throw new Error(t("policy.duplicateCode", { code: r.code }));
+  });
+  roles.forEach(r => {
+    claim(r.name, r, other => t("policy.nameConflict", { role: r.name, other: other.name }));
+    claim(r.code, r, other => t("policy.nameConflict", { role: r.code, other: other.name }));
+  });
+  roles.forEach(r => r.aliases.forEach(alias => claim(alias, r, other => t("policy.aliasConflict", { alias, role: r.name, other: other.name }))));
+
+  if (!Array.isArray(obj.weights) || !obj.weights.length || !obj.weights.every(w => isFiniteNumber(w) && w >= 0)) {
+    throw new Error(t("policy.invalidWeights"));
+  }
+  const weights = obj.weights as number[];
+
+  if (!isFiniteNumber(obj.totalCap) || obj.totalCap <= 0) throw new Error(t("policy.invalidTotalCap"));
+  // 旧版规则文件没有该字段，按位次先后处理
+  const totalCapRule = obj.totalCapRule ?? "ordered";
+  if (!TOTAL_CAP_RULES.includes(totalCapRule as TotalCapRule)) throw new Error(t("policy.unknownTotalCapRule", { rule: String(totalCapRule) }));
+
+  const partial: ScoringPolicy = { version, roles, weights, totalCap: obj.totalCap, totalCapRule: totalCapRule as TotalCapRule, capGroups: [] };
+  // 旧版规则只有一个 comboCap，换成一个未命名的合计封顶组
+  const rawGroups: unknown[] = Array.isArray(obj.capGroups) ? obj.capGroups : obj.comboCap ? [obj.comboCap] : [];
+  const capGroups = rawGroups.map((raw, idx) => {
+    const g = (raw ?? {}) as Record<string, unknown>;
+    const name = typeof g.name === "string" ? g.name.trim() : "";
+    const label = name || t("policy.groupIndex", { index: idx + 1 });
+    // 旧版规则以岗位名称列出合计封顶岗位，统一换成代码
+    const members = (Array.isArray(g.roles) ? g.roles.filter((r): r is string => typeof r === "string") : []).map(r => {
+      const role = resolveRole(partial, r);
+      if (!role) throw new Error(t("policy.unknownGroupRole", { group: label, role: r }));
+      return role.code;
+    });
+    if (!isFiniteNumber(g.cap) || g.cap < 0) throw new Error(t("policy.invalidGroupCap", { group: label }));
+    return { name, roles: [...new Set(members)], cap: g.cap };
+  });
+
+  // 没有成员的组不起作用，直接去掉
+  return { ...partial, capGroups: capGroups.filter(g => g.roles.length) };
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { csvCell } from "./report";
+
+describe("csvCell", () => {
+  it("含逗号、引号或换行（包括 \\r）时加引号", () => {
+    expect(csvCell("张三")).toBe("张三");
+    expect(csvCell("张, 三")).toBe('"张, 三"');
+    expect(csvCell('教字"12"号')).toBe('"教字""12""号"');
+    expect(csvCell("代理\r")).toBe('"代理\r"');
+  });
+
+  it("以公式符号开头时加单引号，不被表格软件当成公式", () => {
+    expect(csvCell("=HYPERLINK(\"http://x\")")).toBe('"\'=HYPERLINK(""http://x"")"');
+    expect(csvCell("+1")).toBe("'+1");
+    expect(csvCell("-2")).toBe("'-2");
+    expect(csvCell("@SUM(A1)")).toBe("'@SUM(A1)");
+  });
+});
@@ -0,0 +1,117 @@
+import { t } from "./i18n";
+import { groupName, roleName, type ScoringPolicy } from "./policy";
+import { orderingOf, type CalcOptions, type CalculationResult, type MonthAllocation, type TeacherResult } from "./engine";
+import type { ResultDiff } from "./diff";
+import { metaColumns } from "./tabular";
+
+// ----- CSV 文本报表（网页导出与命令行输出共用，表头随界面语言） -----
+
+function cappedLabel(capped: boolean): string {
+  return capped ? t("common.capped") : t("common.notCapped");
+}
+
+/** 计分方式、排序方式与截止日期的简短说明，用于结果卡片、历史对照和打印报告 */
+export function calcMethodLabel(options: CalcOptions): string {
+  const label = `${t(`proration.${options.proration}`)} · ${t(`ordering.${orderingOf(options)}`)}`;
+  return options.cutoff ? `${label} · ${t("app.cutoffLabel", { date: options.cutoff })}` : label;
+}
+
+/** 带正负号的分差，没有变化时为 0 */
+export function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta.toFixed(4)}` : delta < 0 ? delta.toFixed(4) : "0";
+}
+
+// 教师姓名、岗位名称、规则版本和附加信息都可能是用户输入的任意文字：含逗号、引号或换行时加引号；
+// 以 = + - @ 开头的在 Excel 中会被当成公式执行，前面加单引号按文字显示
+export function csvCell(text: string): string {
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function allocationsText(policy: ScoringPolicy, allocations: MonthAllocation[]): string {
+  return allocations.map(a => `${roleName(policy, a.role)} ${Math.round(a.weight*100)}% → ${a.gain.toFixed(4)}`).join("; ");
+}
+
+/** 合计封顶组的使用情况（含表头），没有合计封顶组时只有表头；网页导出与命令行共用 */
+export function groupSummaryRows(result: CalculationResult): string[][] {
+  const { policy } = result;
+  return [
+    [t("export.capGroup"), t("export.groupRoles"), t("export.groupUsed"), t("export.cap"), t("export.status"), t("export.groupReachedAt")],
+    ...result.groupSummary.map(g => {
+      const group = policy.capGroups[g.group];
+      return [groupName(policy, group), group.roles.map(r => roleName(policy, r)).join(" + "), g.used.toFixed(4), String(g.cap), cappedLabel(g.capped), g.reachedAt ?? ""];
+    }),
+  ];
+}
+
+export function resultToCsv(result: CalculationResult): string {
+  const { policy } = result;
+  const { totalCap, totalCapRule, version } = policy;
+  let csvContent = `${t("export.policy")},${csvCell(version)}\n`;
+  csvContent += `${t("export.proration")},${t(`proration.${result.options.proration}`)}\n`;
+  csvContent += `${t("export.ordering")},${t(`ordering.${orderingOf(result.options)}`)}\n`;
+  csvContent += `${t("export.cutoff")},${result.options.cutoff ?? ""}\n\n`;
+  csvContent += [t("export.role"), t("export.score"), t("export.rawScore"), t("export.cap"), t("export.status")].join(",") + "\n";
+  result.roleSummary.forEach(r => {
+    csvContent += `${csvCell(roleName(policy, r.role))},${r.score.toFixed(4)},${r.rawScore.toFixed(4)},${r.cap},${cappedLabel(r.capped)}\n`;
+  });
+  if (result.groupSummary.length) {
+    csvContent += `\n${groupSummaryRows(result).map(row => row.map(csvCell).join(",")).join("\n")}\n`;
+  }
+
+  csvContent += `\n${t("export.rawTotal")},${result.rawTotal.toFixed(4)}\n`;
+  csvContent += `${t("export.total")},${result.totalScore.toFixed(4)},${totalCap},${cappedLabel(result.totalCapReachedAt !== null)}\n`;
+  csvContent += `${t("export.totalCapMonth")},${result.totalCapReachedAt ?? ""}\n`;
+  csvContent += `${t("export.totalCapRule")},${t(`totalCapRule.${totalCapRule}`)}\n\n`;
+
+  csvContent += `${t("export.month")},${t("export.allocations")}\n`;
+  result.monthDetails.forEach(m => {
+    csvContent += `${m.ym},${csvCell(allocationsText(policy, m.allocations))}\n`;
+  });
+
+  // 任职记录连同导入时的附加列（任职文号、备注等）
+  const extra = metaColumns(result.entries);
+  csvContent += `\n${[t("export.role"), t("export.startDate"), t("export.endDate"), ...extra.map(csvCell)].join(",")}\n`;
+  result.entries.forEach(e => {
+    csvContent += `${[csvCell(roleName(policy, e.role)), e.start, e.end, ...extra.map(col => csvCell(e.meta?.[col] ?? ""))].join(",")}\n`;
+  });
+  return csvContent;
+}
+
+export function rosterToCsv(teachers: TeacherResult[]): string {
+  if (!teachers.length) return "";
+  const { policy, options } = teachers[0].result;
+  const roles = policy.roles.map(r => r.code);
+  let csvContent = `${t("export.policy")},${csvCell(policy.version)}\n`;
+  csvContent += `${t("export.proration")},${t(`proration.${options.proration}`)}\n`;
+  csvContent += `${t("export.ordering")},${t(`ordering.${orderingOf(options)}`)}\n`;
+  csvContent += `${t("export.cutoff")},${options.cutoff ?? ""}\n\n`;
+  csvContent += [t("export.rank"), t("export.teacher"), t("export.total"), t("export.rawTotal"), t("export.totalCapMonth"), ...roles.map(role => csvCell(roleName(policy, role)))].join(",") + "\n";
+  [...teachers].sort((a, b) => b.result.totalScore - a.result.totalScore).forEach(({ teacher, result }, idx) => {
+    const scores = roles.map(role => (result.roleSummary.find(r => r.role === role)?.score ?? 0).toFixed(4));
+    csvContent += `${idx + 1},${csvCell(teacher)},${result.totalScore.toFixed(4)},${result.rawTotal.toFixed(4)},${result.totalCapReachedAt ?? ""},${scores.join(",")}\n`;
+  });
+  return csvContent;
+}
+
+/** policy 用于显示岗位名称，通常取修改后的规则 */
+export function diffToCsv(diff: ResultDiff, policy: ScoringPolicy): string {
+  const nameOf = (role: string) => roleName(policy, role);
+  let csvContent = [t("diff.change"), t("export.role"), t("diff.beforeStart"), t("diff.beforeEnd"), t("diff.afterStart"), t("diff.afterEnd")].join(",") + "\n";
+  diff.entries.forEach(({ change, before, after }) => {
+    csvContent += `${t(`diff.entry.${change}`)},${csvCell(nameOf((after ?? before)!.role))},${before?.start ?? ""},${before?.end ?? ""},${after?.start ?? ""},${after?.end ?? ""}\n`;
+  });
+
+  csvContent += `\n${[t("export.role"), t("diff.before"), t("diff.after"), t("diff.delta")].join(",")}\n`;
+  diff.roles.forEach(r => {
+    csvContent += `${csvCell(nameOf(r.role))},${r.before.toFixed(4)},${r.after.toFixed(4)},${formatDelta(r.delta)}\n`;
+  });
+  csvContent += `${t("export.total")},${diff.totalBefore.toFixed(4)},${diff.totalAfter.toFixed(4)},${formatDelta(diff.totalDelta)}\n`;
+  csvContent += `${t("export.totalCapMonth")},${diff.totalCapBefore ?? ""},${diff.totalCapAfter ?? ""}\n\n`;
+
+  csvContent += [t("export.month"), t("diff.before"), t("diff.after"), t("diff.delta")].join(",") + "\n";
+  diff.months.forEach(m => {
+    csvContent += `${m.ym},${csvCell(allocationsText(policy, m.before))},${csvCell(allocationsText(policy, m.after))},${formatDelta(m.delta)}\n`;
+  });
+  return csvContent;
+}
@@ -0,0 +1,134 @@
+import type { RoleEntry } from "./engine";
+import { isOpenEnd, normalizeDate } from "./dates";
+import { validateRow, type EntryRow, type RowErrors } from "./entryRows";
+import { t } from "./i18n";
+import { resolveRole, type ScoringPolicy } from "./policy";
+
+// ----- 任职记录的提交与审核：教师逐行提交并附聘任文件，审核通过的行才计入正式计算 -----
+
+export type ReviewStatus = "pending" | "approved" | "rejected";
+
+/** 附件只保存元数据，文件内容由存储后端按 id 单独保存 */
+export interface ReviewDocument { id: string; name: string; type: string; size: number; }
+
+/** 一行记录中可由审核人修改的内容；role 为岗位代码，end 可以写「至今」 */
+export interface ReviewFields { role: string; start: string; end: string; docNumber: string; }
+
+/** before 为审核人修改前的内容，仅 edited 有 */
+export interface ReviewEvent { action: "submitted" | "approved" | "rejected" | "edited"; at: string; by: string; comment: string; before?: ReviewFields; }
+
+/** comment 为最近一次审核意见，log 按时间顺序记录提交与每次审核 */
+export interface ReviewRow extends ReviewFields { id: string; document: ReviewDocument; status: ReviewStatus; comment: string; log: ReviewEvent[]; }
+
+/** 同一教师的多次提交合并为一份，按教师姓名或工号区分 */
+export interface Submission { id: string; teacher: string; createdAt: string; updatedAt: string; rows: ReviewRow[]; }
+
+/** 教师填写中的一行，file 为待上传的附件 */
+export interface SubmissionDraft extends ReviewFields { file: File | null; }
+
+/** 修改即视为通过修改后的内容；驳回和修改都要写明意见 */
+export type ReviewDecision =
+  | { action: "approve"; comment: string }
+  | { action: "reject"; comment: string }
+  | { action: "edit"; comment: string; fields: ReviewFields };
+
+export type DraftErrors = RowErrors & { docNumber?: string; document?: string };
+
+/**
+ * 提交与审核的存储后端。第一版为浏览器本地的模拟后端（createLocalReviewBackend），
+ * 接入学校服务器时按同样的接口实现即可，界面无需改动。
+ */
+export interface ReviewBackend {
+  listSubmissions(): Promise<Submission[]>;
+  /** 同一教师再次提交时追加到原有提交中，返回更新后的提交 */
+  submit(teacher: string, drafts: SubmissionDraft[]): Promise<Submission>;
+  review(submissionId: string, rowId: string, decision: ReviewDecision, reviewer: string): Promise<Submission>;
+  getDocument(documentId: string): Promise<Blob>;
+  deleteSubmission(submissionId: string): Promise<void>;
+}
+
+/** 附件大小上限（字节） */
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+export const DOCUMENT_ACCEPT = "application/pdf,image/*";
+
+export function isSupportedDocument(file: { type: string }): boolean {
+  return file.type === "application/pdf" || file.type.startsWith("image/");
+}
+
+export function validateFields(fields: ReviewFields, policy: ScoringPolicy): DraftErrors {
+  const errors: DraftErrors = validateRow({ teacher: "", ...fields }, policy, false);
+  if (!fields.docNumber.trim()) errors.docNumber = t("review.missingDocNumber");
+  return errors;
+}
+
+export function validateDraft(draft: SubmissionDraft, policy: ScoringPolicy): DraftErrors {
+  const errors = validateFields(draft, policy);
+  if (!draft.file) errors.document = t("review.missingDocument");
+  else if (!isSupportedDocument(draft.file)) errors.document = t("review.unsupportedDocument", { name: draft.file.name });
+  else if (draft.file.size > MAX_DOCUMENT_SIZE) errors.document = t("review.documentTooLarge", { name: draft.file.name, limit: MAX_DOCUMENT_SIZE / 1024 / 1024 });
+  return errors;
+}
+
+/** 已通过校验的内容统一写法：岗位存代码，日期存 YYYY-MM-DD，「至今」原样保留 */
+export function normalizeFields(fields: ReviewFields, policy: ScoringPolicy): ReviewFields {
+  return {
+    role: resolveRole(policy, fields.role)?.code ?? fields.role,
+    start: normalizeDate(fields.start, "start") ?? fields.start,
+    end: isOpenEnd(fields.end) ? fields.end.trim() : normalizeDate(fields.end, "end") ?? fields.end,
+    docNumber: fields.docNumber.trim(),
+  };
+}
+
+/** 第一行有问题时抛出错误，行号从 1 起算；供存储后端在保存前再次校验 */
+export function assertValid(errorsByRow: DraftErrors[]): void {
+  const idx = errorsByRow.findIndex(e => Object.keys(e).length > 0);
+  if (idx >= 0) throw new Error(t("editor.rowErrors", { line: idx + 1, errors: Object.values(errorsByRow[idx]).join(t("common.clauseSeparator")) }));
+}
+
+/** 按审核意见更新一行，返回新的行（不修改原对象） */
+export function applyDecision(row: ReviewRow, decision: ReviewDecision, reviewer: string, at: string): ReviewRow {
+  const comment = decision.comment.trim();
+  if (decision.action !== "approve" && !comment) throw new Error(t("review.missingComment"));
+  const by = reviewer.trim();
+  if (!by) throw new Error(t("review.missingReviewer"));
+  if (decision.action === "edit") {
+    const { role, start, end, docNumber } = row;
+    return {
+      ...row,
+      ...decision.fields,
+      status: "approved",
+      comment,
+      log: [...row.log, { action: "edited", at, by, comment, before: { role, start, end, docNumber } }],
+    };
+  }
+  const status: ReviewStatus = decision.action === "approve" ? "approved" : "rejected";
+  return { ...row, status, comment, log: [...row.log, { action: status, at, by, comment }] };
+}
+
+export function statusCounts(submission: Submission): Record<ReviewStatus, number> {
+  const counts: Record<ReviewStatus, number> = { pending: 0, approved: 0, rejected: 0 };
+  submission.rows.forEach(r => counts[r.status]++);
+  return counts;
+}
+
+/** 已通过的行，文号作为附加信息随记录保留，可直接载入表格编辑器 */
+export function approvedRows(submission: Submission): EntryRow[] {
+  const docLabel = t("review.docNumber");
+  return submission.rows
+    .filter(r => r.status === "approved")
+    .map(r => ({ teacher: submission.teacher, role: r.role, start: r.start, end: r.end, meta: { [docLabel]: r.docNumber } }));
+}
+
+/** 正式计算用的记录：只取已通过的行，结束日期写「至今」时取 openEnd，在 openEnd 之后才开始的不计入 */
+export function approvedEntries(submission: Submission, policy: ScoringPolicy, openEnd: string): RoleEntry[] {
+  return approvedRows(submission).flatMap(row => {
+    const role = resolveRole(policy, row.role);
+    if (!role) throw new Error(t("engine.unknownRole", { role: row.role }));
+    const start = normalizeDate(row.start, "start");
+    const end = isOpenEnd(row.end) ? openEnd : normalizeDate(row.end, "end");
+    if (!start || !end) throw new Error(t("review.badDates", { role: row.role, start: row.start, end: row.end }));
+    if (isOpenEnd(row.end) && start > end) return [];
+    return [{ role: role.code, start, end, meta: row.meta }];
+  });
+}
@@ -0,0 +1,77 @@
+import { t } from "./i18n";
+import type { ScoringPolicy } from "./policy";
+import {
+  applyDecision, assertValid, normalizeFields, validateDraft, validateFields,
+  type ReviewBackend, type ReviewDecision, type ReviewRow, type Submission, type SubmissionDraft,
+} from "./review";
+import * as storage from "./storage";
+
+// ----- 审核存储的本地模拟后端：提交与附件都存在本机 IndexedDB 中 -----
+
+/** policy 用于校验和统一岗位写法，取提交或审核时界面上的规则 */
+export function createLocalReviewBackend(getPolicy: () => ScoringPolicy): ReviewBackend {
+  const load = async (submissionId: string): Promise<Submission> => {
+    const submission = await storage.getSubmission(submissionId);
+    if (!submission) throw new Error(t("review.submissionNotFound"));
+    return submission;
+  };
+
+  return {
+    listSubmissions: storage.listSubmissions,
+
+    async submit(teacher: string, drafts: SubmissionDraft[]): Promise<Submission> {
+      const name = teacher.trim();
+      if (!name) throw new Error(t("review.missingTeacher"));
+      if (!drafts.length) throw new Error(t("review.noRows"));
+      const policy = getPolicy();
+      assertValid(drafts.map(d => validateDraft(d, policy)));
+
+      const now = new Date().toISOString();
+      const rows: ReviewRow[] = [];
+      const documents: storage.StoredDocument[] = [];
+      for (const draft of drafts) {
+        const file = draft.file as File;
+        const document = { id: storage.newId(), name: file.name, type: file.type, size: file.size };
+        documents.push({ id: document.id, blob: file });
+        rows.push({
+          id: storage.newId(),
+          ...normalizeFields(draft, policy),
+          document,
+          status: "pending",
+          comment: "",
+          log: [{ action: "submitted", at: now, by: name, comment: "" }],
+        });
+      }
+
+      const existing = (await storage.listSubmissions()).find(s => s.teacher === name);
+      const submission: Submission = existing
+        ? { ...existing, updatedAt: now, rows: [...existing.rows, ...rows] }
+        : { id: storage.newId(), teacher: name, createdAt: now, updatedAt: now, rows };
+      await storage.putSubmissionWithDocuments(submission, documents);
+      return submission;
+    },
+
+    async review(submissionId: string, rowId: string, decision: ReviewDecision, reviewer: string): Promise<Submission> {
+      const submission = await load(submissionId);
+      const policy = getPolicy();
+      let resolved = decision;
+      if (decision.action === "edit") {
+        assertValid([validateFields(decision.fields, policy)]);
+        resolved = { ...decision, fields: normalizeFields(decision.fields, policy) };
+      }
+      const now = new Date().toISOString();
+      const rows = submission.rows.map(r => r.id === rowId ? applyDecision(r, resolved, reviewer, now) : r);
+      const updated: Submission = { ...submission, updatedAt: now, rows };
+      await storage.putSubmission(updated);
+      return updated;
+    },
+
+    async getDocument(documentId: string): Promise<Blob> {
+      const document = await storage.getDocument(documentId);
+      if (!document) throw new Error(t("review.documentNotFound"));
+      return document.blob;
+    },
+
+    deleteSubmission: storage.deleteSubmission,
+  };
+}
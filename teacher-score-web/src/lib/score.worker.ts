@@ -0,0 +1,100 @@
+import { scoreEntries, type CalcOptions, type RoleEntry, type TeacherResult } from "./engine";
+import { forecast, monthsNeeded } from "./forecast";
+import { setLang } from "./i18n";
+import { ORDERING_STRATEGIES } from "./ordering";
+import type { ScoringPolicy } from "./policy";
+import type { ScoreJob, TaskResultMap, WorkerRequest, WorkerResponse } from "./workerProtocol";
+
+// ----- 计算 Worker：在后台线程运行计分引擎，避免大批量计算卡住页面；导入的 Excel 也在这里解析 -----
+
+const cancelled = new Set<number>();
+
+function post(message: WorkerResponse) {
+  self.postMessage(message);
+}
+
+// 让出线程，使排队中的取消消息得以处理
+function yieldToQueue(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+async function scoreJobs(id: number, jobs: ScoreJob[], policy: ScoringPolicy, options: CalcOptions): Promise<TeacherResult[] | null> {
+  const teachers: TeacherResult[] = [];
+  let reported = 0;
+  for (let i = 0; i < jobs.length; i++) {
+    await yieldToQueue();
+    if (cancelled.has(id)) return null;
+    const { teacher, entries } = jobs[i];
+    const result = scoreEntries(entries, policy, options, (monthsDone, monthsTotal) => {
+      const done = (i + monthsDone / monthsTotal) / jobs.length;
+      // 进度每增加 1% 才回报一次，避免消息过多
+      if (done - reported >= 0.01) {
+        reported = done;
+        post({ type: "progress", id, done });
+      }
+    });
+    teachers.push({ teacher, result });
+  }
+  post({ type: "progress", id, done: 1 });
+  return teachers;
+}
+
+// 同一组记录依次按每种排序方式计算，进度按方式平均分段
+async function compareOrderings(id: number, entries: RoleEntry[], policy: ScoringPolicy, options: CalcOptions): Promise<TaskResultMap["compare"] | null> {
+  const outcomes: TaskResultMap["compare"] = [];
+  for (let i = 0; i < ORDERING_STRATEGIES.length; i++) {
+    await yieldToQueue();
+    if (cancelled.has(id)) return null;
+    const ordering = ORDERING_STRATEGIES[i];
+    const result = scoreEntries(entries, policy, { ...options, ordering }, (monthsDone, monthsTotal) => {
+      if (monthsDone % 12 === 0) post({ type: "progress", id, done: (i + monthsDone / monthsTotal) / ORDERING_STRATEGIES.length });
+    });
+    outcomes.push({ ordering, result });
+  }
+  post({ type: "progress", id, done: 1 });
+  return outcomes;
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type === "cancel") {
+    cancelled.add(request.id);
+    return;
+  }
+
+  const { id, task } = request;
+  setLang(request.lang);
+  try {
+    switch (task.kind) {
+      case "score": {
+        const teachers = await scoreJobs(id, task.jobs, task.policy, task.options);
+        if (teachers) post({ type: "done", id, kind: "score", result: teachers });
+        break;
+      }
+      case "compare": {
+        const outcomes = await compareOrderings(id, task.entries, task.policy, task.options);
+        if (outcomes) post({ type: "done", id, kind: "compare", result: outcomes });
+        break;
+      }
+      case "forecast":
+        post({ type: "done", id, kind: "forecast", result: forecast(task.history, task.planned, task.asOf, task.policy, task.options) });
+        break;
+      case "goal":
+        post({
+          type: "done", id, kind: "goal",
+          result: { answer: monthsNeeded(task.history, task.planned, task.asOf, task.role, task.target, task.scope, task.policy, task.options) },
+        });
+        break;
+      case "workbook": {
+        // 解析库只在导入 Excel 时才载入
+        const { parseWorkbook } = await import("./spreadsheet");
+        post({ type: "done", id, kind: "workbook", result: await parseWorkbook(task.data) });
+        break;
+      }
+    }
+  } catch (e) {
+    post({ type: "error", id, message: (e as Error).message });
+  } finally {
+    cancelled.delete(id);
+  }
+};
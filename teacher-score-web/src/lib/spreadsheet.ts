@@ -0,0 +1,55 @@
+import { normalizeDate } from "./dates";
+import { rowsToCsv } from "./entryRows";
+import { cellsToFields, metaOf, type ColumnMapping } from "./tabular";
+
+// ----- Excel 读写：xlsx 体积较大，读写时才按需载入，不进入页面的主包 -----
+
+export interface SheetData { name: string; rows: string[][]; }
+
+/** 导入的工作簿大小上限（字节） */
+export const MAX_WORKBOOK_SIZE = 5 * 1024 * 1024;
+
+/** 解析超过这个时间（毫秒）即终止 Worker，按文件有误处理 */
+export const WORKBOOK_TIMEOUT_MS = 15000;
+
+export type CellValue = string | number;
+
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function cellToText(value: unknown): string {
+  if (value instanceof Date) return `${value.getFullYear()}-${pad2(value.getMonth() + 1)}-${pad2(value.getDate())}`;
+  return String(value ?? "").trim();
+}
+
+/**
+ * 只在 Worker 中调用：npm 上的 xlsx 0.18.5 对特制文件存在原型污染与正则回溯问题，
+ * 放在用后即弃的 Worker 中解析，影响不到页面，卡住时也能直接终止。
+ */
+export async function parseWorkbook(data: ArrayBuffer): Promise<SheetData[]> {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.read(data, { cellDates: true });
+  return workbook.SheetNames.map(name => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: true, defval: "" });
+    return { name, rows: rows.map(row => row.map(cellToText)).filter(row => row.some(Boolean)) };
+  });
+}
+
+/** 未映射到字段的列作为附加信息一并带入；文本日期与粘贴时一样识别，无法识别时原样保留，交给计算时报错 */
+export function sheetToCsv(rows: string[][], mapping: ColumnMapping, skipHeader: boolean): string {
+  const header = skipHeader ? rows[0] ?? [] : [];
+  return rowsToCsv(rows.slice(skipHeader ? 1 : 0).map(row => {
+    const fields = cellsToFields(row, mapping);
+    return { ...fields, start: normalizeDate(fields.start, "start") ?? fields.start, end: normalizeDate(fields.end, "end") ?? fields.end, meta: metaOf(row, header, mapping) };
+  }), mapping.teacher !== undefined);
+}
+
+export async function downloadWorkbook(sheets: { name: string; rows: CellValue[][] }[], filename: string): Promise<void> {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(({ name, rows }) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  });
+  XLSX.writeFile(workbook, filename);
+}
@@ -0,0 +1,188 @@
+import type { CalculationResult, TeacherResult } from "./engine";
+import { t } from "./i18n";
+import type { Submission } from "./review";
+
+// ----- 本地持久化（IndexedDB）：教师档案、输入草稿、计算历史、审核提交 -----
+
+const DB_NAME = "teacher-score";
+const DB_VERSION = 2;
+/** 历史记录只保留最近的若干条 */
+const HISTORY_LIMIT = 50;
+/** 历史记录合计大小上限（按 JSON 字符数估算），超出时从最早的记录删起，最新一条总是保留 */
+const HISTORY_MAX_SIZE = 20 * 1024 * 1024;
+
+export interface TeacherProfile { id: string; name: string; csvText: string; updatedAt: string; }
+
+export interface Draft { key: string; text: string; updatedAt: string; }
+
+/** 单人计算时 teachers 只有一项，teacher 为档案名称（未命名时为空）；结果不含逐月计分原因（trace） */
+export interface HistoryRecord { id: string; createdAt: string; label: string; teachers: TeacherResult[]; }
+
+/** 提交时附带的聘任文件，与提交记录分开保存，列出提交时不必读出文件内容 */
+export interface StoredDocument { id: string; blob: Blob; }
+
+type StoreName = "profiles" | "drafts" | "history" | "submissions" | "documents";
+
+const KEY_PATHS: Record<StoreName, string> = { profiles: "id", drafts: "key", history: "id", submissions: "id", documents: "id" };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error(t("storage.unsupported")));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        // 从旧版本升级时只补建缺少的存储
+        const db = req.result;
+        (Object.keys(KEY_PATHS) as StoreName[]).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: KEY_PATHS[name] });
+        });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(new Error(t("storage.openFailed", { message: req.error?.message ?? t("common.unknownError") })));
+    });
+    // 打开失败时允许下次重试
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function wrap<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(new Error(t("storage.ioFailed", { message: req.error?.message ?? t("common.unknownError") })));
+  });
+}
+
+// 请求成功后事务仍可能因配额不足等原因中止，写入以事务提交为准
+function complete(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const fail = () => reject(new Error(t("storage.ioFailed", { message: tx.error?.message ?? t("common.unknownError") })));
+    tx.oncomplete = () => resolve();
+    tx.onerror = fail;
+    tx.onabort = fail;
+  });
+}
+
+async function withStore<T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(name, mode);
+  const [result] = await Promise.all([wrap(run(tx.objectStore(name))), complete(tx)]);
+  return result;
+}
+
+/** 在同一个事务中写入多个存储，任何一处失败时全部不生效 */
+async function writeStores(names: StoreName[], run: (tx: IDBTransaction) => void): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(names, "readwrite");
+  run(tx);
+  await complete(tx);
+}
+
+export function newId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// ----- 教师档案 -----
+
+export async function listProfiles(): Promise<TeacherProfile[]> {
+  const profiles = await withStore<TeacherProfile[]>("profiles", "readonly", s => s.getAll());
+  return profiles.sort((a, b) => a.name.localeCompare(b.name, "zh-CN"));
+}
+
+/** 同名档案直接覆盖，便于反复保存同一位教师 */
+export async function saveProfile(name: string, csvText: string): Promise<TeacherProfile> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error(t("storage.missingProfileName"));
+  const existing = (await listProfiles()).find(p => p.name === trimmed);
+  const profile: TeacherProfile = { id: existing?.id ?? newId(), name: trimmed, csvText, updatedAt: new Date().toISOString() };
+  await withStore("profiles", "readwrite", s => s.put(profile));
+  return profile;
+}
+
+export async function deleteProfile(id: string): Promise<void> {
+  await withStore("profiles", "readwrite", s => s.delete(id));
+}
+
+// ----- 输入草稿 -----
+
+export async function loadDraft(key: string): Promise<Draft | undefined> {
+  return withStore<Draft | undefined>("drafts", "readonly", s => s.get(key));
+}
+
+export async function saveDraft(key: string, text: string): Promise<Draft> {
+  const draft: Draft = { key, text, updatedAt: new Date().toISOString() };
+  await withStore("drafts", "readwrite", s => s.put(draft));
+  return draft;
+}
+
+// ----- 计算历史 -----
+
+export async function listHistory(): Promise<HistoryRecord[]> {
+  const records = await withStore<HistoryRecord[]>("history", "readonly", s => s.getAll());
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// 历史只用于对照总分、岗位得分和逐月分配，逐月计分原因占了结果的大部分，不保存
+function withoutTrace(result: CalculationResult): CalculationResult {
+  return { ...result, monthDetails: result.monthDetails.map(m => ({ ...m, trace: [] })) };
+}
+
+export async function addHistory(label: string, teachers: TeacherResult[]): Promise<HistoryRecord> {
+  const record: HistoryRecord = {
+    id: newId(), createdAt: new Date().toISOString(), label,
+    teachers: teachers.map(({ teacher, result }) => ({ teacher, result: withoutTrace(result) })),
+  };
+  await withStore("history", "readwrite", s => s.put(record));
+  let size = 0;
+  const stale = (await listHistory()).filter((r, idx) => {
+    size += JSON.stringify(r).length;
+    return idx >= HISTORY_LIMIT || (idx > 0 && size > HISTORY_MAX_SIZE);
+  });
+  await Promise.all(stale.map(r => deleteHistory(r.id)));
+  return record;
+}
+
+export async function deleteHistory(id: string): Promise<void> {
+  await withStore("history", "readwrite", s => s.delete(id));
+}
+
+// ----- 审核提交与附件 -----
+
+export async function listSubmissions(): Promise<Submission[]> {
+  const submissions = await withStore<Submission[]>("submissions", "readonly", s => s.getAll());
+  return submissions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getSubmission(id: string): Promise<Submission | undefined> {
+  return withStore<Submission | undefined>("submissions", "readonly", s => s.get(id));
+}
+
+export async function putSubmission(submission: Submission): Promise<void> {
+  await withStore("submissions", "readwrite", s => s.put(submission));
+}
+
+/** 提交连同新附件一起写入，不会留下没有提交引用的附件，也不会有引用了未保存附件的提交 */
+export async function putSubmissionWithDocuments(submission: Submission, documents: StoredDocument[]): Promise<void> {
+  await writeStores(["documents", "submissions"], tx => {
+    documents.forEach(d => tx.objectStore("documents").put(d));
+    tx.objectStore("submissions").put(submission);
+  });
+}
+
+/** 连同其中各行的附件一起删除 */
+export async function deleteSubmission(id: string): Promise<void> {
+  const submission = await getSubmission(id);
+  await writeStores(["documents", "submissions"], tx => {
+    (submission?.rows ?? []).forEach(r => tx.objectStore("documents").delete(r.document.id));
+    tx.objectStore("submissions").delete(id);
+  });
+}
+
+export async function getDocument(id: string): Promise<StoredDocument | undefined> {
+  return withStore<StoredDocument | undefined>("documents", "readonly", s => s.get(id));
+}
@@ -0,0 +1,186 @@
+import { isOpenEnd, normalizeDate } from "./dates";
+import { t } from "./i18n";
+import { resolveRole, type ScoringPolicy } from "./policy";
+
+// ----- 从 Excel / WPS 复制的表格文本：识别分隔符、表头与各列含义 -----
+
+export type Delimiter = "," | "\t" | ";";
+
+/** 各字段对应的列序号（从 0 起算），teacher 仅批量模式需要 */
+export interface ColumnMapping { teacher?: number; role: number; start: number; end: number; }
+
+export interface TableLayout {
+  delimiter: Delimiter;
+  /** 数据前跳过的行数（标题行、表头行） */
+  headerRows: number;
+  /** 紧挨数据的一行表头，用作列名；没有表头时为空 */
+  header: string[];
+  columnCount: number;
+  mapping: ColumnMapping;
+}
+
+/** 一行数据；line 为非空行中的行号（从 1 起算，含表头），与计算报错的行号一致 */
+export interface TableRow { line: number; text: string; cells: string[]; }
+
+// 并列时制表符优先：从表格复制的内容里，备注等单元格常带逗号
+const DELIMITERS: Delimiter[] = ["\t", ";", ","];
+
+/** 按分隔符拆分一行，支持双引号包裹（其中的 "" 表示一个引号） */
+export function splitCells(line: string, delimiter: Delimiter): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && !cell.trim()) {
+      cell = "";
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else cell += ch;
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function nonEmptyLines(text: string): string[] {
+  return text.split(/\r?\n/).filter(l => l.trim());
+}
+
+// 取能把最多行拆出至少三列的分隔符，都拆不出时按逗号
+function detectDelimiter(lines: string[]): Delimiter {
+  let best: Delimiter = ",";
+  let bestCount = 0;
+  DELIMITERS.forEach(d => {
+    const count = lines.filter(l => splitCells(l, d).length >= 3).length;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// 数据行至少有一个单元格是日期；标题行、表头行没有
+const isDataRow = (cells: string[]) => cells.some(c => normalizeDate(c, "start") !== null);
+
+// 至少两列能按表头文字对应到字段才算表头，避免把日期写法无法识别的数据行当成表头跳过
+function isHeaderRow(cells: string[]): boolean {
+  const found = Object.values(guessMapping(cells)).filter(i => i >= 0);
+  return new Set(found).size >= 2;
+}
+
+/**
+ * 第一行数据之前，最后一个像表头的行及其上方的标题行都跳过；
+ * 其余行（如日期写法无法识别的数据）不跳过，交给解析时按行报错。
+ */
+function countHeaderRows(rows: string[][]): number {
+  const firstData = rows.findIndex(isDataRow);
+  const leading = firstData < 0 ? rows : rows.slice(0, firstData);
+  for (let i = leading.length - 1; i >= 0; i--) {
+    if (isHeaderRow(leading[i])) return i + 1;
+  }
+  return 0;
+}
+
+/** 按表头文字猜测列映射，猜不到的字段返回 -1 */
+export function guessMapping(header: string[]): Required<ColumnMapping> {
+  const find = (pattern: RegExp) => header.findIndex(h => pattern.test(h));
+  return {
+    teacher: find(/姓名|教师|工号|teacher|name/i),
+    role: find(/岗位|职务|role/i),
+    start: find(/开始|起|任职日期|start/i),
+    end: find(/结束|止|卸任|end/i),
+  };
+}
+
+// 没有可用表头时看全部数据行：多数行为日期的前两列为起止日期，能对应到岗位的行最多的列为岗位。
+// 只看第一行的话，首行开始日期空着会把结束日期当成开始日期，整列错位
+function guessFromCells(rows: string[][], policy: ScoringPolicy, withTeacher: boolean): ColumnMapping {
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  const counts = (test: (cell: string) => boolean) =>
+    Array.from({ length: columnCount }, (_, col) => rows.filter(r => r[col] && test(r[col])).length);
+  const dateCounts = counts(c => normalizeDate(c, "start") !== null || isOpenEnd(c));
+  const dateCols = dateCounts.flatMap((n, col) => n > 0 && n * 2 >= rows.length ? [col] : []);
+  const start = dateCols[0] ?? (withTeacher ? 2 : 1);
+  const end = dateCols[1] ?? start + 1;
+  const roleCounts = counts(c => !!resolveRole(policy, c)).map((n, col) => col === start || col === end ? 0 : n);
+  const best = Math.max(0, ...roleCounts);
+  return { role: best > 0 ? roleCounts.indexOf(best) : Math.max(0, start - 1), start, end };
+}
+
+export function detectLayout(text: string, policy: ScoringPolicy, withTeacher: boolean): TableLayout {
+  const lines = nonEmptyLines(text);
+  const delimiter = detectDelimiter(lines);
+  const rows = lines.map(l => splitCells(l, delimiter));
+  const headerRows = countHeaderRows(rows);
+  const header = headerRows ? rows[headerRows - 1] : [];
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+
+  const dataRows = rows.slice(headerRows).filter(isDataRow);
+
+  const fromHeader = guessMapping(header);
+  const headerUsable = [fromHeader.role, fromHeader.start, fromHeader.end].every(i => i >= 0)
+    && new Set([fromHeader.role, fromHeader.start, fromHeader.end]).size === 3;
+  const mapping = headerUsable
+    ? { role: fromHeader.role, start: fromHeader.start, end: fromHeader.end }
+    : guessFromCells(dataRows.length ? dataRows : rows.slice(headerRows), policy, withTeacher);
+  if (withTeacher) {
+    // 教师列优先按表头，其次取第一个没有用到的列
+    const used = [mapping.role, mapping.start, mapping.end];
+    const candidates = [fromHeader.teacher, ...Array.from({ length: columnCount }, (_, i) => i)];
+    return { delimiter, headerRows, header, columnCount, mapping: { teacher: candidates.find(i => i >= 0 && !used.includes(i)) ?? 0, ...mapping } };
+  }
+  return { delimiter, headerRows, header, columnCount, mapping };
+}
+
+/** 跳过表头后的数据行 */
+export function tableRows(text: string, layout: TableLayout): TableRow[] {
+  return nonEmptyLines(text).flatMap((line, idx) =>
+    idx < layout.headerRows ? [] : [{ line: idx + 1, text: line.trim(), cells: splitCells(line, layout.delimiter) }]);
+}
+
+export function cellsToFields(cells: string[], mapping: ColumnMapping): { teacher: string; role: string; start: string; end: string } {
+  return {
+    teacher: mapping.teacher !== undefined ? cells[mapping.teacher] ?? "" : "",
+    role: cells[mapping.role] ?? "",
+    start: cells[mapping.start] ?? "",
+    end: cells[mapping.end] ?? "",
+  };
+}
+
+export function columnName(header: string[], col: number): string {
+  return header[col] || t("xlsx.column", { index: col + 1 });
+}
+
+/** 没有映射到字段的列作为附加信息（如任职文号、备注），键为列名；都为空时返回 undefined */
+export function metaOf(cells: string[], header: string[], mapping: ColumnMapping): Record<string, string> | undefined {
+  const used = [mapping.teacher, mapping.role, mapping.start, mapping.end];
+  const pairs = cells.flatMap((cell, col) => !used.includes(col) && cell ? [[columnName(header, col), cell] as const] : []);
+  return pairs.length ? Object.fromEntries(pairs) : undefined;
+}
+
+/** 各记录附加信息的列名，按首次出现的顺序 */
+export function metaColumns(entries: { meta?: Record<string, string> }[]): string[] {
+  return [...new Set(entries.flatMap(e => Object.keys(e.meta ?? {})))];
+}
+
+/** 附加信息的一行文字说明，如「任职文号：教字〔2010〕12号；备注：代理」 */
+export function formatMeta(meta: Record<string, string> | undefined): string {
+  return Object.entries(meta ?? {}).map(([label, value]) => `${t("report.fieldLabel", { label })}${value}`).join(t("common.clauseSeparator"));
+}
+
+/** 已是逗号分隔、各列位置固定（至多一行表头，如 rowsToCsv 写出的）且没有多余列的标准写法，无需再提示列映射 */
+export function isPlainLayout(layout: TableLayout, withTeacher: boolean): boolean {
+  const { teacher, role, start, end } = layout.mapping;
+  const offset = withTeacher ? 1 : 0;
+  return layout.delimiter === "," && layout.headerRows <= 1 && layout.columnCount <= 3 + offset
+    && (!withTeacher || teacher === 0) && role === offset && start === offset + 1 && end === offset + 2;
+}
@@ -0,0 +1,67 @@
+import { getLang, t } from "./i18n";
+import type { TaskKind, TaskResultMap, WorkerTask, WorkerRequest, WorkerResponse } from "./workerProtocol";
+
+// ----- 主线程一侧：把计算任务派发给 Worker -----
+
+export interface TaskRunner {
+  /** 开始新任务会取消仍在进行的旧任务；被取消的任务以 null 结束 */
+  run<K extends TaskKind>(task: Extract<WorkerTask, { kind: K }>, onProgress?: (done: number) => void): Promise<TaskResultMap[K] | null>;
+  cancel(): void;
+  dispose(): void;
+}
+
+interface PendingTask {
+  id: number;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (done: number) => void;
+}
+
+export function createTaskRunner(): TaskRunner {
+  const worker = new Worker(new URL("./score.worker.ts", import.meta.url), { type: "module" });
+  const send = (request: WorkerRequest) => worker.postMessage(request);
+  let nextId = 1;
+  let pending: PendingTask | null = null;
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    if (!pending || message.id !== pending.id) return;
+    if (message.type === "progress") {
+      pending.onProgress?.(message.done);
+      return;
+    }
+    const task = pending;
+    pending = null;
+    if (message.type === "done") task.resolve(message.result);
+    else task.reject(new Error(message.message));
+  };
+
+  worker.onerror = event => {
+    pending?.reject(new Error(t("worker.crashed", { message: event.message })));
+    pending = null;
+  };
+
+  // 单个教师的逐月计算无法中途打断，取消后 Worker 算完的结果会被丢弃
+  const cancel = () => {
+    if (!pending) return;
+    send({ type: "cancel", id: pending.id });
+    pending.resolve(null);
+    pending = null;
+  };
+
+  return {
+    run<K extends TaskKind>(task: Extract<WorkerTask, { kind: K }>, onProgress?: (done: number) => void) {
+      cancel();
+      const id = nextId++;
+      return new Promise<TaskResultMap[K] | null>((resolve, reject) => {
+        pending = { id, resolve: resolve as (result: unknown) => void, reject, onProgress };
+        send({ type: "run", id, task, lang: getLang() });
+      });
+    },
+    cancel,
+    dispose() {
+      cancel();
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import type { CalcOptions, CalculationResult, RoleEntry, TeacherResult } from "./engine";
+import type { ForecastResult, GoalAnswer, GoalScope, PlannedEntry } from "./forecast";
+import type { Lang } from "./i18n";
+import type { OrderingStrategy } from "./ordering";
+import type { ScoringPolicy } from "./policy";
+import type { SheetData } from "./spreadsheet";
+
+// ----- 主线程与计算 Worker 之间的消息格式 -----
+
+/** 已解析并合并好的单个教师任职记录，解析在主线程完成以便就地提示输入错误 */
+export interface ScoreJob { teacher: string; entries: RoleEntry[]; }
+
+export type WorkerTask =
+  | { kind: "score"; jobs: ScoreJob[]; policy: ScoringPolicy; options: CalcOptions }
+  | { kind: "compare"; entries: RoleEntry[]; policy: ScoringPolicy; options: CalcOptions }
+  | { kind: "forecast"; history: RoleEntry[]; planned: PlannedEntry[]; asOf: string; policy: ScoringPolicy; options: CalcOptions }
+  | {
+    kind: "goal"; history: RoleEntry[]; planned: PlannedEntry[]; asOf: string;
+    role: string; target: number; scope: GoalScope; policy: ScoringPolicy; options: CalcOptions;
+  }
+  | { kind: "workbook"; data: ArrayBuffer };
+
+export type TaskKind = WorkerTask["kind"];
+
+export interface TaskResultMap {
+  score: TeacherResult[];
+  /** 按 ORDERING_STRATEGIES 的顺序给出各排序方式的结果 */
+  compare: { ordering: OrderingStrategy; result: CalculationResult }[];
+  forecast: ForecastResult;
+  /** 预测期内达不到目标时 answer 为 null */
+  goal: { answer: GoalAnswer | null };
+  workbook: SheetData[];
+}
+
+/** lang 为主线程当前的界面语言，Worker 中的错误提示随之切换 */
+export type WorkerRequest =
+  | { type: "run"; id: number; task: WorkerTask; lang: Lang }
+  | { type: "cancel"; id: number };
+
+/** progress 的 done 取 0 到 1 之间的比例 */
+export type WorkerResponse =
+  | { type: "progress"; id: number; done: number }
+  | { [K in TaskKind]: { type: "done"; id: number; kind: K; result: TaskResultMap[K] } }[TaskKind]
+  | { type: "error"; id: number; message: string };
@@ -2,6 +2,10 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { setLang } from './lib/i18n'
+import { preferredLang } from './lib/langPreference'
+
+setLang(preferredLang())
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
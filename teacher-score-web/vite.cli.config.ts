@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+// 命令行工具单独打包为 Node 可直接运行的 ESM 文件
+export default defineConfig({
+  build: {
+    ssr: 'cli/teacher-score.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'teacher-score.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})
@@ -9,4 +9,8 @@ export default defineConfig({
       '@': '/src',
     },
   },
+  // Worker 按需载入 Excel 解析库，需要支持代码分割的 ES 模块格式
+  worker: {
+    format: 'es',
+  },
 })